@@ -0,0 +1,190 @@
+// The relay for shared sessions: `npm run relay`, then join a room from the
+// app. Each room keeps its command log in memory while anyone is in it, so
+// peers that join late or reconnect catch up from it.
+//
+// Peers send JSON messages:
+//   { type: "join", room, name }      first, and again after reconnecting
+//   { type: "command", id, command }  a history command, logged and sent to
+//                                     the whole room, sender included
+//   { type: "cursor", point }         relayed to the rest of the room
+//   { type: "ink", style, points, start }
+//   { type: "ink-end" }
+//
+// and receive a welcome ({ type: "welcome", peer, peers, log }) on joining,
+// "joined" and "left" as others come and go, and everything relayed with
+// the sender's peer id added.
+import { randomUUID } from "node:crypto";
+import { WebSocketServer } from "ws";
+
+const PORT = Number(process.env.PORT) || 8787;
+// Large enough for a clear or an erase across a busy drawing.
+const MAX_MESSAGE_SIZE = 32 * 1024 * 1024;
+
+const rooms = new Map();
+
+const getRoom = (id) => {
+  let room = rooms.get(id);
+  if (!room) {
+    room = { id, log: [], clients: new Map() };
+    rooms.set(id, room);
+  }
+  return room;
+};
+
+// Commands are checked before they are logged, since one that peers can't
+// apply would stop anyone from joining the room again. This is the shape
+// rebasing relies on; peers check the rest of the schema themselves (see
+// readSharedCommand in src/doodleFile.ts) and drop what fails.
+const isObject = (value) =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+const isPoint = (point) =>
+  isObject(point) && Number.isFinite(point.x) && Number.isFinite(point.y);
+
+const isPointList = (points) => Array.isArray(points) && points.every(isPoint);
+
+const isStroke = (stroke) =>
+  isObject(stroke) &&
+  typeof stroke.id === "string" &&
+  isPointList(stroke.points);
+
+const isStrokeList = (strokes) =>
+  Array.isArray(strokes) && strokes.every(isStroke);
+
+const isLayerList = (layers) =>
+  Array.isArray(layers) &&
+  layers.length > 0 &&
+  layers.every((layer) => isObject(layer) && typeof layer.id === "string");
+
+const isCommand = (command) =>
+  isObject(command) &&
+  typeof command.type === "string" &&
+  Array.isArray(command.changes) &&
+  command.changes.every(
+    (change) =>
+      isObject(change) &&
+      Number.isInteger(change.index) &&
+      change.index >= 0 &&
+      isStrokeList(change.before) &&
+      isStrokeList(change.after)
+  ) &&
+  (command.layers === undefined ||
+    (isObject(command.layers) &&
+      isLayerList(command.layers.before) &&
+      isLayerList(command.layers.after)));
+
+// Cursors and ink are relayed with only the fields peers draw from, and
+// dropped when those don't have the shape drawing needs.
+const readPresence = (message) => {
+  switch (message.type) {
+    case "cursor":
+      return message.point === null || isPoint(message.point)
+        ? { type: "cursor", point: message.point }
+        : null;
+    case "ink": {
+      const { style, points } = message;
+      if (
+        !isObject(style) ||
+        typeof style.tool !== "string" ||
+        typeof style.color !== "string" ||
+        !Number.isFinite(style.lineWidth) ||
+        !Number.isFinite(style.opacity) ||
+        !isPointList(points)
+      ) {
+        return null;
+      }
+      const { tool, color, lineWidth, opacity } = style;
+      return {
+        type: "ink",
+        style: { tool, color, lineWidth, opacity },
+        points,
+        start: message.start === true,
+      };
+    }
+    case "ink-end":
+      return { type: "ink-end" };
+    default:
+      return null;
+  }
+};
+
+const send = (socket, message) => {
+  if (socket.readyState === socket.OPEN) socket.send(message);
+};
+
+const broadcast = (room, message, except = null) => {
+  const data = JSON.stringify(message);
+  room.clients.forEach((_client, socket) => {
+    if (socket !== except) send(socket, data);
+  });
+};
+
+const server = new WebSocketServer({ port: PORT, maxPayload: MAX_MESSAGE_SIZE });
+
+server.on("connection", (socket) => {
+  const peer = randomUUID();
+  let room = null;
+
+  // An empty room is dropped with its log. A peer that comes back to it
+  // starts it again from its own copy of the drawing.
+  const leave = () => {
+    if (!room) return;
+    room.clients.delete(socket);
+    if (room.clients.size === 0) {
+      rooms.delete(room.id);
+    } else {
+      broadcast(room, { type: "left", peer });
+    }
+    room = null;
+  };
+
+  socket.on("message", (data) => {
+    let message;
+    try {
+      message = JSON.parse(data.toString());
+    } catch {
+      return;
+    }
+    if (typeof message !== "object" || message === null) return;
+
+    if (message.type === "join" && typeof message.room === "string") {
+      leave();
+      room = getRoom(message.room);
+      const name =
+        typeof message.name === "string" && message.name.trim()
+          ? message.name.trim().slice(0, 40)
+          : "Guest";
+      send(
+        socket,
+        JSON.stringify({
+          type: "welcome",
+          peer,
+          peers: [...room.clients.values()],
+          log: room.log,
+        })
+      );
+      broadcast(room, { type: "joined", peer, name });
+      room.clients.set(socket, { peer, name });
+      return;
+    }
+    if (!room) return;
+
+    if (
+      message.type === "command" &&
+      typeof message.id === "string" &&
+      isCommand(message.command)
+    ) {
+      room.log.push(message.command);
+      broadcast(room, { type: "command", peer, id: message.id, command: message.command });
+    } else {
+      const presence = readPresence(message);
+      if (presence) broadcast(room, { ...presence, peer }, socket);
+    }
+  });
+
+  socket.on("close", leave);
+});
+
+server.on("listening", () => {
+  console.log(`Relay listening on ws://localhost:${PORT}`);
+});
@@ -1,4 +1,4 @@
-import { useRef, useEffect, useState } from "react";
+import { useRef, useEffect, useMemo, useState } from "react";
 import {
   Pen,
   Highlighter,
@@ -7,92 +7,301 @@ import {
   Redo,
   Trash2,
   GripVertical,
+  LayoutGrid,
+  Download,
+  ImagePlus,
+  Grid3x3,
+  Layers,
+  Scan,
+  LocateFixed,
+  Spline,
+  Hand,
+  Lasso,
+  RotateCcw,
+  Slash,
+  Square,
+  Circle,
+  MoveUpRight,
+  Type,
+  AlignLeft,
+  AlignCenter,
+  AlignRight,
+  Users,
+  History,
 } from "lucide-react";
-import { get, set } from "idb-keyval";
-
-interface StoredDrawing {
-  strokes: Stroke[];
-  currentStrokeIndex: number;
-  lastModified: number;
-}
+import type { PDFDocumentProxy } from "pdfjs-dist";
+import {
+  createAutosaver,
+  saveErrorMessage,
+  whenSaved,
+  type Autosaver,
+  type SaveState,
+} from "./autosave";
+import {
+  createBackground,
+  decodeBackground,
+  isBackgroundFile,
+  isPdfFile,
+  openPdf,
+  pdfPageToBlob,
+  storedBackground,
+  type BackgroundImage,
+} from "./background";
+import {
+  applySharedCommand,
+  connectSession,
+  DEFAULT_RELAY_URL,
+  EMPTY_SHARED_DRAWING,
+  type RelayMessage,
+  type RemotePeer,
+  type SessionConnection,
+  type SessionInvite,
+  type SessionPeer,
+  type SessionStatus,
+  type SharedDrawing,
+} from "./collab";
+import { ColorPicker } from "./ColorPicker";
+import { CommandPalette } from "./CommandPalette";
+import {
+  DOODLE_EXTENSION,
+  DOODLE_MIME_TYPE,
+  doodleFilename,
+  isDoodleFile,
+  openDoodleFile,
+  writeDoodleFile,
+} from "./doodleFile";
+import { ExportDialog } from "./ExportDialog";
+import { downloadBlob, exportDrawing, type ExportFormat } from "./export";
+import { Gallery } from "./Gallery";
+import {
+  drawingText,
+  handwritingRecognitionLimits,
+  isInkStroke,
+  recognizeHandwriting,
+} from "./handwriting";
+import { LayerPanel } from "./LayerPanel";
+import { PaperPanel } from "./PaperPanel";
+import { PdfPagePicker } from "./PdfPagePicker";
+import { PeerCursors } from "./PeerCursors";
+import { RecognitionDialog } from "./RecognitionDialog";
+import { ReplayPlayer } from "./ReplayPlayer";
+import { SaveIndicator } from "./SaveIndicator";
+import { SelectionOverlay } from "./SelectionOverlay";
+import { SessionPanel } from "./SessionPanel";
+import { TextEditor } from "./TextEditor";
+import { VersionsPanel } from "./VersionsPanel";
+import { handleLaunchFiles } from "./launch";
+import {
+  createDrawing,
+  deleteSnapshot,
+  initializeLibrary,
+  isQuotaError,
+  listSnapshots,
+  loadDrawing,
+  loadSnapshot,
+  setActiveDrawing,
+  updateDrawing,
+} from "./storage";
+import { createStrokeRenderer, type StrokeRenderer } from "./renderer";
+import {
+  createShape,
+  createShapeStroke,
+  isShapeTool,
+  recognizeShape,
+} from "./shapes";
+import {
+  createStrokeSmoother,
+  MAX_STABILIZER,
+  type StrokeSmoother,
+} from "./smoothing";
+import {
+  eventToShortcut,
+  findAction,
+  remapShortcut,
+  resolveShortcuts,
+  type Action,
+  type ActionId,
+} from "./shortcuts";
+import { renderThumbnail } from "./thumbnail";
+import { exportTimelapse, type TimelapseFormat } from "./timelapse";
+import {
+  DEFAULT_PREFERENCES,
+  loadPreferences,
+  savePreferences,
+} from "./preferences";
+import { eraseStrokes } from "./eraser";
+import {
+  addCommand,
+  applyCommand,
+  applyLayerCommand,
+  clearCommand,
+  deleteLayerCommand,
+  invertCommand,
+  layerCommand,
+  rebaseCommand,
+  replaceCommand,
+  replayHistory,
+  replayLayers,
+  restoreCommand,
+} from "./history";
+import { createId } from "./id";
+import {
+  createLayer,
+  DEFAULT_LAYERS,
+  nextLayerName,
+  strokeLayerId,
+  visibleLayerContents,
+} from "./layers";
+import { IDENTITY, type Matrix } from "./matrix";
+import { DEFAULT_PAPER } from "./paper";
+import {
+  createReplay,
+  createReplayCursor,
+  type Replay,
+  type ReplayCursor,
+  type ReplayFrame,
+} from "./replay";
+import {
+  copyStrokes,
+  lassoStrokes,
+  pointInPolygon,
+  strokeBounds,
+  transformStroke,
+} from "./selection";
+import {
+  createTextStroke,
+  MAX_FONT_SIZE,
+  MIN_FONT_SIZE,
+  TEXT_LINE_HEIGHT,
+  updateTextStroke,
+} from "./text";
+import type {
+  Command,
+  EraserMode,
+  InkTool,
+  Layer,
+  Paper,
+  Point,
+  Preferences,
+  RecognizedText,
+  ShapeKind,
+  SnapshotSummary,
+  Stroke,
+  TextAlign,
+  TextBox,
+  Tool,
+} from "./types";
+import {
+  DEFAULT_VIEW,
+  fitView,
+  gestureView,
+  getGestureStart,
+  screenToWorld,
+  zoomAt,
+  type GestureStart,
+  type View,
+} from "./viewport";
+
+const PRESET_COLORS = [
+  { color: "#000000", name: "Black" },
+  { color: "#007AFF", name: "Blue" },
+  { color: "#34C759", name: "Green" },
+  { color: "#FFCC00", name: "Yellow" },
+  { color: "#FF3B30", name: "Red" },
+];
+
+const MIN_SIZE = 1;
+const MAX_SIZE = 30;
+
+const SHAPE_KINDS: ShapeKind[] = ["line", "rectangle", "ellipse", "arrow"];
+
+const SHAPE_ICONS = {
+  line: Slash,
+  rectangle: Square,
+  ellipse: Circle,
+  arrow: MoveUpRight,
+};
 
-const saveDrawing = async (strokes: Stroke[], currentStrokeIndex: number): Promise<void> => {
-  try {
-    const drawing: StoredDrawing = {
-      strokes,
-      currentStrokeIndex,
-      lastModified: Date.now(),
-    };
-    
-    await set("currentDrawing", drawing);
-  } catch (error) {
-    console.error("Failed to save drawing:", error);
-  }
+const SHAPE_LABELS = {
+  line: "Line",
+  rectangle: "Rectangle",
+  ellipse: "Ellipse",
+  arrow: "Arrow",
 };
 
-const loadDrawing = async (): Promise<{ strokes: Stroke[]; currentStrokeIndex: number } | null> => {
-  try {
-    const result = await get<StoredDrawing>("currentDrawing");
-    if (result) {
-      return {
-        strokes: result.strokes,
-        currentStrokeIndex: result.currentStrokeIndex,
-      };
-    }
-    return null;
-  } catch (error) {
-    console.error("Failed to load drawing:", error);
-    return null;
+const TEXT_ALIGNMENTS = [
+  { align: "left", icon: AlignLeft, label: "Align left" },
+  { align: "center", icon: AlignCenter, label: "Center" },
+  { align: "right", icon: AlignRight, label: "Align right" },
+] as const;
+
+// Holding the pen this long at the end of a freehand stroke, without moving
+// further than the tolerance, replaces it with the shape it resembles.
+const SNAP_HOLD_MS = 500;
+const SNAP_HOLD_TOLERANCE = 3;
+
+// Points are stored in CSS pixels so a drawing keeps its size on screens with
+// a different devicePixelRatio. They are scaled to device pixels when drawn.
+const createPoint = (
+  e: PointerEvent,
+  rect: DOMRect,
+  view: View
+): Point => {
+  const point: Point = {
+    ...screenToWorld(view, e.clientX - rect.left, e.clientY - rect.top),
+    timestamp: e.timeStamp,
+  };
+  // Mice and fingers report a constant or meaningless pressure, so only the
+  // pen contributes pressure and tilt.
+  if (e.pointerType === "pen") {
+    point.pressure = e.pressure;
+    point.tiltX = e.tiltX;
+    point.tiltY = e.tiltY;
   }
+  return point;
 };
 
-const vertexShaderSource = `#version 300 es
-in vec2 a_position;
-uniform vec2 u_resolution;
-
-void main() {
-  vec2 clipSpace = ((a_position / u_resolution) * 2.0) - 1.0;
-  gl_Position = vec4(clipSpace * vec2(1, -1), 0, 1);
-}`;
-
-const fragmentShaderSource = `#version 300 es
-precision highp float;
-uniform vec3 u_color;
-uniform float u_alpha;
-out vec4 outColor;
-
-void main() {
-  outColor = vec4(u_color, u_alpha);
-}`;
-
-interface Point {
-  x: number;
-  y: number;
-}
-
-type Tool = "pen" | "highlighter" | "eraser";
-
-interface Stroke {
-  points: Point[];
-  color: string;
-  tool: Tool;
-  lineWidth: number;
-  opacity: number;
-}
-
 interface ToolbarProps {
   selectedTool: Tool;
+  eraserMode: EraserMode;
+  shapeKind: ShapeKind;
   selectedColor: string;
   size: number;
+  stabilizer: number;
+  textSize: number;
+  textAlign: TextAlign;
   penOpacity: number;
   highlighterOpacity: number;
+  penOnly: boolean;
   onToolChange: (tool: Tool) => void;
+  onEraserModeChange: (mode: EraserMode) => void;
   onColorChange: (color: string) => void;
+  onOpenColorPicker: () => void;
   onSizeChange: (size: number) => void;
+  onStabilizerChange: (stabilizer: number) => void;
+  onTextSizeChange: (size: number) => void;
+  onTextAlignChange: (align: TextAlign) => void;
   onOpacityChange: (opacity: number) => void;
+  onPenOnlyChange: (penOnly: boolean) => void;
   onUndo: () => void;
   onRedo: () => void;
   onClear: () => void;
+  onOpenGallery: () => void;
+  onExport: () => void;
+  onReplay: () => void;
+  onImportBackground: () => void;
+  isPaperPanelOpen: boolean;
+  onTogglePaper: () => void;
+  isLayerPanelOpen: boolean;
+  onToggleLayers: () => void;
+  // Whether this drawing is shared with other peers right now.
+  isShared: boolean;
+  isSessionPanelOpen: boolean;
+  onToggleSession: () => void;
+  onFitView: () => void;
+  onResetView: () => void;
+  position: Preferences["toolbarPosition"];
+  onPositionChange: (position: Preferences["toolbarPosition"]) => void;
 }
 
 const OpacitySlider = ({
@@ -247,29 +456,64 @@ const SizeSlider = ({
   );
 };
 
+// Keeps the whole of `element` inside the window when it is moved to `next`.
+const clampToViewport = (
+  next: { x: number; y: number },
+  element: HTMLElement | null
+) => {
+  const rect = element?.getBoundingClientRect();
+  return {
+    x: Math.min(Math.max(0, next.x), window.innerWidth - (rect?.width ?? 0)),
+    y: Math.min(Math.max(0, next.y), window.innerHeight - (rect?.height ?? 0)),
+  };
+};
+
 const Toolbar = ({
   selectedTool,
+  eraserMode,
+  shapeKind,
   selectedColor,
   size,
+  stabilizer,
+  textSize,
+  textAlign,
   penOpacity,
   highlighterOpacity,
+  penOnly,
   onToolChange,
+  onEraserModeChange,
   onColorChange,
+  onOpenColorPicker,
   onSizeChange,
+  onStabilizerChange,
+  onTextSizeChange,
+  onTextAlignChange,
   onOpacityChange,
+  onPenOnlyChange,
   onUndo,
   onRedo,
   onClear,
+  onOpenGallery,
+  onExport,
+  onReplay,
+  onImportBackground,
+  isPaperPanelOpen,
+  onTogglePaper,
+  isLayerPanelOpen,
+  onToggleLayers,
+  isShared,
+  isSessionPanelOpen,
+  onToggleSession,
+  onFitView,
+  onResetView,
+  position,
+  onPositionChange,
 }: ToolbarProps) => {
-  const colors = [
-    "#000000",
-    "#007AFF",
-    "#34C759",
-    "#FFCC00",
-    "#FF3B30",
-    "#AF52DE",
-  ];
-  const [position, setPosition] = useState({ x: 0, y: 0 });
+  const isCustomColor = !PRESET_COLORS.some(
+    (preset) => preset.color === selectedColor
+  );
+  const ShapeIcon = SHAPE_ICONS[shapeKind];
+  const toolbarRef = useRef<HTMLDivElement>(null);
   const [isDragging, setIsDragging] = useState(false);
   const [dragOffset, setDragOffset] = useState({ x: 0, y: 0 });
   const [isCompact, setIsCompact] = useState(false);
@@ -291,10 +535,12 @@ const Toolbar = ({
 
   const handleDrag = (e: PointerEvent) => {
     if (!isDragging) return;
-    setPosition({
-      x: e.clientX - dragOffset.x,
-      y: e.clientY - dragOffset.y,
-    });
+    onPositionChange(
+      clampToViewport(
+        { x: e.clientX - dragOffset.x, y: e.clientY - dragOffset.y },
+        toolbarRef.current
+      )
+    );
   };
 
   const handleDragEnd = () => {
@@ -325,16 +571,36 @@ const Toolbar = ({
     };
   }, []);
 
+  // A position saved on a larger window, or before an orientation change,
+  // can leave the toolbar partly off-screen.
+  useEffect(() => {
+    if (!position) return;
+    const clampPosition = () => {
+      const clamped = clampToViewport(position, toolbarRef.current);
+      if (clamped.x !== position.x || clamped.y !== position.y) {
+        onPositionChange(clamped);
+      }
+    };
+
+    clampPosition();
+    window.addEventListener("resize", clampPosition);
+    window.addEventListener("orientationchange", clampPosition);
+    return () => {
+      window.removeEventListener("resize", clampPosition);
+      window.removeEventListener("orientationchange", clampPosition);
+    };
+  }, [position, isCompact, onPositionChange]);
+
   return (
     <div
+      ref={toolbarRef}
       data-toolbar
       style={{
         position: "fixed",
-        bottom: position.x === 0 && position.y === 0 ? 20 : "auto",
-        left: position.x === 0 && position.y === 0 ? "50%" : position.x,
-        top: position.x === 0 && position.y === 0 ? "auto" : position.y,
-        transform:
-          position.x === 0 && position.y === 0 ? "translateX(-50%)" : "none",
+        bottom: position ? "auto" : 20,
+        left: position ? position.x : "50%",
+        top: position ? position.y : "auto",
+        transform: position ? "none" : "translateX(-50%)",
         backgroundColor: "rgba(255, 255, 255, 0.95)",
         borderRadius: 20,
         padding: isCompact ? "10px" : "10px 20px",
@@ -352,6 +618,126 @@ const Toolbar = ({
       }}
     >
       <div style={{ display: "flex", gap: isCompact ? 5 : 10 }}>
+        <button
+          onClick={onOpenGallery}
+          style={{
+            width: isCompact ? 35 : 40,
+            height: isCompact ? 35 : 40,
+            borderRadius: "50%",
+            border: "none",
+            backgroundColor: "#f0f0f0",
+            cursor: "pointer",
+            display: "flex",
+            alignItems: "center",
+            justifyContent: "center",
+          }}
+        >
+          <LayoutGrid size={isCompact ? 16 : 18} />
+        </button>
+        <button
+          onClick={onExport}
+          style={{
+            width: isCompact ? 35 : 40,
+            height: isCompact ? 35 : 40,
+            borderRadius: "50%",
+            border: "none",
+            backgroundColor: "#f0f0f0",
+            cursor: "pointer",
+            display: "flex",
+            alignItems: "center",
+            justifyContent: "center",
+          }}
+        >
+          <Download size={isCompact ? 16 : 18} />
+        </button>
+        <button
+          onClick={onReplay}
+          title="Replay"
+          style={{
+            width: isCompact ? 35 : 40,
+            height: isCompact ? 35 : 40,
+            borderRadius: "50%",
+            border: "none",
+            backgroundColor: "#f0f0f0",
+            cursor: "pointer",
+            display: "flex",
+            alignItems: "center",
+            justifyContent: "center",
+          }}
+        >
+          <History size={isCompact ? 16 : 18} />
+        </button>
+        <button
+          onClick={onImportBackground}
+          title="Background image or PDF"
+          style={{
+            width: isCompact ? 35 : 40,
+            height: isCompact ? 35 : 40,
+            borderRadius: "50%",
+            border: "none",
+            backgroundColor: "#f0f0f0",
+            cursor: "pointer",
+            display: "flex",
+            alignItems: "center",
+            justifyContent: "center",
+          }}
+        >
+          <ImagePlus size={isCompact ? 16 : 18} />
+        </button>
+        <button
+          onClick={onTogglePaper}
+          title="Paper"
+          style={{
+            width: isCompact ? 35 : 40,
+            height: isCompact ? 35 : 40,
+            borderRadius: "50%",
+            border: "none",
+            backgroundColor: isPaperPanelOpen ? "#007AFF" : "#f0f0f0",
+            color: isPaperPanelOpen ? "white" : "inherit",
+            cursor: "pointer",
+            display: "flex",
+            alignItems: "center",
+            justifyContent: "center",
+          }}
+        >
+          <Grid3x3 size={isCompact ? 16 : 18} />
+        </button>
+        <button
+          onClick={onToggleLayers}
+          title="Layers"
+          style={{
+            width: isCompact ? 35 : 40,
+            height: isCompact ? 35 : 40,
+            borderRadius: "50%",
+            border: "none",
+            backgroundColor: isLayerPanelOpen ? "#007AFF" : "#f0f0f0",
+            color: isLayerPanelOpen ? "white" : "inherit",
+            cursor: "pointer",
+            display: "flex",
+            alignItems: "center",
+            justifyContent: "center",
+          }}
+        >
+          <Layers size={isCompact ? 16 : 18} />
+        </button>
+        <button
+          onClick={onToggleSession}
+          title="Shared session"
+          style={{
+            width: isCompact ? 35 : 40,
+            height: isCompact ? 35 : 40,
+            borderRadius: "50%",
+            border: "none",
+            backgroundColor: isSessionPanelOpen ? "#007AFF" : "#f0f0f0",
+            color: isSessionPanelOpen ? "white" : isShared ? "#34C759" : "inherit",
+            cursor: "pointer",
+            display: "flex",
+            alignItems: "center",
+            justifyContent: "center",
+          }}
+        >
+          <Users size={isCompact ? 16 : 18} />
+        </button>
         <button
           onClick={onUndo}
           style={{
@@ -384,6 +770,56 @@ const Toolbar = ({
         >
           <Redo size={isCompact ? 16 : 18} />
         </button>
+        <button
+          onClick={onFitView}
+          style={{
+            width: isCompact ? 35 : 40,
+            height: isCompact ? 35 : 40,
+            borderRadius: "50%",
+            border: "none",
+            backgroundColor: "#f0f0f0",
+            cursor: "pointer",
+            display: "flex",
+            alignItems: "center",
+            justifyContent: "center",
+          }}
+        >
+          <Scan size={isCompact ? 16 : 18} />
+        </button>
+        <button
+          onClick={onResetView}
+          style={{
+            width: isCompact ? 35 : 40,
+            height: isCompact ? 35 : 40,
+            borderRadius: "50%",
+            border: "none",
+            backgroundColor: "#f0f0f0",
+            cursor: "pointer",
+            display: "flex",
+            alignItems: "center",
+            justifyContent: "center",
+          }}
+        >
+          <LocateFixed size={isCompact ? 16 : 18} />
+        </button>
+        <button
+          onClick={() => onPenOnlyChange(!penOnly)}
+          title={penOnly ? "Pen only: touch pans and zooms" : "Touch draws"}
+          style={{
+            width: isCompact ? 35 : 40,
+            height: isCompact ? 35 : 40,
+            borderRadius: "50%",
+            border: "none",
+            backgroundColor: penOnly ? "#007AFF" : "#f0f0f0",
+            color: penOnly ? "white" : "inherit",
+            cursor: "pointer",
+            display: "flex",
+            alignItems: "center",
+            justifyContent: "center",
+          }}
+        >
+          <Hand size={isCompact ? 16 : 18} />
+        </button>
       </div>
 
       <div style={{ width: isCompact ? 60 : 1, height: isCompact ? 1 : 30, backgroundColor: "#e0e0e0" }} />
@@ -392,7 +828,7 @@ const Toolbar = ({
         {!isCompact && (
           <OpacitySlider
             opacity={
-              selectedTool === "pen"
+              selectedTool === "pen" || isShapeTool(selectedTool)
                 ? penOpacity
                 : selectedTool === "highlighter"
                 ? highlighterOpacity
@@ -445,7 +881,16 @@ const Toolbar = ({
               <Highlighter size={isCompact ? 16 : 20} />
             </button>
             <button
-              onClick={() => onToolChange("eraser")}
+              onClick={() =>
+                // Tapping the active eraser switches between erasing whole
+                // strokes and cutting through them.
+                selectedTool === "eraser"
+                  ? onEraserModeChange(
+                      eraserMode === "partial" ? "stroke" : "partial"
+                    )
+                  : onToolChange("eraser")
+              }
+              title={eraserMode === "stroke" ? "Stroke eraser" : "Eraser"}
               style={{
                 width: isCompact ? 35 : 40,
                 height: isCompact ? 35 : 40,
@@ -457,9 +902,88 @@ const Toolbar = ({
                 display: "flex",
                 alignItems: "center",
                 justifyContent: "center",
+                position: "relative",
               }}
             >
               <Eraser size={isCompact ? 16 : 20} />
+              {eraserMode === "stroke" && (
+                <div
+                  style={{
+                    position: "absolute",
+                    top: 4,
+                    right: 4,
+                    width: 8,
+                    height: 8,
+                    borderRadius: "50%",
+                    backgroundColor: "#007AFF",
+                  }}
+                />
+              )}
+            </button>
+            <button
+              onClick={() => onToolChange("lasso")}
+              title="Lasso"
+              style={{
+                width: isCompact ? 35 : 40,
+                height: isCompact ? 35 : 40,
+                borderRadius: 10,
+                border: "none",
+                backgroundColor:
+                  selectedTool === "lasso" ? "#e0e0e0" : "transparent",
+                cursor: "pointer",
+                display: "flex",
+                alignItems: "center",
+                justifyContent: "center",
+              }}
+            >
+              <Lasso size={isCompact ? 16 : 20} />
+            </button>
+            <button
+              onClick={() =>
+                // Tapping the active shape tool steps through the shapes.
+                onToolChange(
+                  isShapeTool(selectedTool)
+                    ? SHAPE_KINDS[
+                        (SHAPE_KINDS.indexOf(selectedTool) + 1) %
+                          SHAPE_KINDS.length
+                      ]
+                    : shapeKind
+                )
+              }
+              title={SHAPE_LABELS[shapeKind]}
+              style={{
+                width: isCompact ? 35 : 40,
+                height: isCompact ? 35 : 40,
+                borderRadius: 10,
+                border: "none",
+                backgroundColor: isShapeTool(selectedTool)
+                  ? "#e0e0e0"
+                  : "transparent",
+                cursor: "pointer",
+                display: "flex",
+                alignItems: "center",
+                justifyContent: "center",
+              }}
+            >
+              <ShapeIcon size={isCompact ? 16 : 20} />
+            </button>
+            <button
+              onClick={() => onToolChange("text")}
+              title="Text"
+              style={{
+                width: isCompact ? 35 : 40,
+                height: isCompact ? 35 : 40,
+                borderRadius: 10,
+                border: "none",
+                backgroundColor:
+                  selectedTool === "text" ? "#e0e0e0" : "transparent",
+                cursor: "pointer",
+                display: "flex",
+                alignItems: "center",
+                justifyContent: "center",
+              }}
+            >
+              <Type size={isCompact ? 16 : 20} />
             </button>
             <button
               onClick={onClear}
@@ -479,14 +1003,64 @@ const Toolbar = ({
               <Trash2 size={isCompact ? 15 : 18} />
             </button>
           </div>
-          <div style={{ width: "100%" }}>
-            <SizeSlider
-              size={size}
-              onSizeChange={onSizeChange}
-              minSize={1}
-              maxSize={30}
-            />
-          </div>
+          {selectedTool === "text" ? (
+            <>
+              <div title="Font size" style={{ width: "100%" }}>
+                <SizeSlider
+                  size={textSize}
+                  onSizeChange={onTextSizeChange}
+                  minSize={MIN_FONT_SIZE}
+                  maxSize={MAX_FONT_SIZE}
+                />
+              </div>
+              <div style={{ display: "flex", gap: 5, justifyContent: "center" }}>
+                {TEXT_ALIGNMENTS.map(({ align, icon: Icon, label }) => (
+                  <button
+                    key={align}
+                    onClick={() => onTextAlignChange(align)}
+                    title={label}
+                    style={{
+                      width: 30,
+                      height: 24,
+                      borderRadius: 6,
+                      border: "none",
+                      backgroundColor:
+                        textAlign === align ? "#e0e0e0" : "transparent",
+                      cursor: "pointer",
+                      display: "flex",
+                      alignItems: "center",
+                      justifyContent: "center",
+                    }}
+                  >
+                    <Icon size={14} />
+                  </button>
+                ))}
+              </div>
+            </>
+          ) : (
+            <>
+              <div style={{ width: "100%" }}>
+                <SizeSlider
+                  size={size}
+                  onSizeChange={onSizeChange}
+                  minSize={MIN_SIZE}
+                  maxSize={MAX_SIZE}
+                />
+              </div>
+              <div
+                title="Stabilizer"
+                style={{ display: "flex", alignItems: "center", gap: 6, width: "100%" }}
+              >
+                <Spline size={14} color="#666" style={{ flexShrink: 0 }} />
+                <SizeSlider
+                  size={stabilizer}
+                  onSizeChange={onStabilizerChange}
+                  minSize={0}
+                  maxSize={MAX_STABILIZER}
+                />
+              </div>
+            </>
+          )}
         </div>
       </div>
 
@@ -499,7 +1073,7 @@ const Toolbar = ({
           gap: isCompact ? 5 : 8,
         }}
       >
-        {colors.map((color) => (
+        {PRESET_COLORS.map(({ color }) => (
           <button
             key={color}
             onClick={() => onColorChange(color)}
@@ -513,22 +1087,37 @@ const Toolbar = ({
                   : "2px solid #e0e0e0",
               backgroundColor: color,
               cursor: "pointer",
-              position: "relative",
             }}
-          >
-            {color === "#AF52DE" && (
-              <div
-                style={{
-                  position: "absolute",
-                  inset: 2,
-                  borderRadius: "50%",
-                  background:
-                    "linear-gradient(45deg, #FF3B30 0%, #FFCC00 25%, #34C759 50%, #007AFF 75%, #AF52DE 100%)",
-                }}
-              />
-            )}
-          </button>
+          />
         ))}
+        <button
+          onClick={onOpenColorPicker}
+          title="More colors"
+          style={{
+            width: isCompact ? 25 : 32,
+            height: isCompact ? 25 : 32,
+            borderRadius: "50%",
+            border: isCustomColor
+              ? `${isCompact ? 2 : 3}px solid #007AFF`
+              : "2px solid #e0e0e0",
+            background:
+              "linear-gradient(45deg, #FF3B30 0%, #FFCC00 25%, #34C759 50%, #007AFF 75%, #AF52DE 100%)",
+            cursor: "pointer",
+            position: "relative",
+          }}
+        >
+          {isCustomColor && (
+            <div
+              style={{
+                position: "absolute",
+                inset: isCompact ? 4 : 6,
+                borderRadius: "50%",
+                border: "2px solid white",
+                backgroundColor: selectedColor,
+              }}
+            />
+          )}
+        </button>
       </div>
 
       <button
@@ -546,359 +1135,765 @@ const Toolbar = ({
       >
         <GripVertical size={isCompact ? 16 : 20} />
       </button>
-    </div>
-  );
-};
-
-const DrawingCanvas = () => {
-  const [selectedTool, setSelectedTool] = useState<Tool>("pen");
-  const [selectedColor, setSelectedColor] = useState("#000000");
-  const [size, setSize] = useState(5);
-  const [penOpacity, setPenOpacity] = useState(100);
-  const [highlighterOpacity, setHighlighterOpacity] = useState(10);
-  const [strokes, setStrokes] = useState<Stroke[]>([]);
-  const [currentStrokeIndex, setCurrentStrokeIndex] = useState(-1);
-  const [isLoading, setIsLoading] = useState(true);
-
-  const canvasRef = useRef<HTMLCanvasElement>(null);
-  const glRef = useRef<WebGL2RenderingContext | null>(null);
-  const programRef = useRef<WebGLProgram | null>(null);
-  const positionBufferRef = useRef<WebGLBuffer | null>(null);
-  const resolutionLocationRef = useRef<WebGLUniformLocation | null>(null);
-  const colorLocationRef = useRef<WebGLUniformLocation | null>(null);
-  const alphaLocationRef = useRef<WebGLUniformLocation | null>(null);
-  const isDrawingRef = useRef(false);
-  const lastPointRef = useRef<Point>({ x: 0, y: 0 });
-  const pixelRatioRef = useRef(1);
-  const currentStrokeRef = useRef<Point[]>([]);
-
-  const hexToRgb = (hex: string): [number, number, number] => {
-    const result = /^#?([a-f\d]{2})([a-f\d]{2})([a-f\d]{2})$/i.exec(hex);
-    return result
-      ? [
-          parseInt(result[1], 16) / 255,
-          parseInt(result[2], 16) / 255,
-          parseInt(result[3], 16) / 255,
-        ]
-      : [0, 0, 0];
-  };
-
-  const drawStrokeCircle = (center: Point, radius: number) => {
-    if (!glRef.current || !programRef.current || !positionBufferRef.current)
-      return;
+      {position && (
+        <button
+          onClick={() => onPositionChange(null)}
+          title="Reset toolbar"
+          style={{
+            width: isCompact ? 35 : 40,
+            height: isCompact ? 35 : 40,
+            borderRadius: "50%",
+            border: "none",
+            backgroundColor: "#f0f0f0",
+            cursor: "pointer",
+            color: "#666",
+            display: "flex",
+            alignItems: "center",
+            justifyContent: "center",
+          }}
+        >
+          <RotateCcw size={isCompact ? 16 : 18} />
+        </button>
+      )}
+    </div>
+  );
+};
 
-    const gl = glRef.current;
-    const segments = Math.max(8, Math.floor(radius / 2));
-    const vertices: number[] = [];
+interface DrawingCanvasProps {
+  drawingId: string;
+  clipboard: Stroke[];
+  onClipboardChange: (strokes: Stroke[]) => void;
+  onOpenGallery: () => void;
+  onOpenDrawing: (id: string) => void;
+  // A shared session to join once the drawing has loaded.
+  invite: SessionInvite | null;
+}
 
-    for (let i = 0; i <= segments; i++) {
-      const angle = (i / segments) * Math.PI * 2;
-      const x = center.x + Math.cos(angle) * radius;
-      const y = center.y + Math.sin(angle) * radius;
+// Pasted and duplicated strokes land this far from their source, in world
+// units, so they are visibly separate.
+const PASTE_OFFSET = 20;
+
+const DrawingCanvas = ({
+  drawingId,
+  clipboard,
+  onClipboardChange,
+  onOpenGallery,
+  onOpenDrawing,
+  invite,
+}: DrawingCanvasProps) => {
+  const [selectedTool, setSelectedTool] = useState<Tool>(
+    DEFAULT_PREFERENCES.tool
+  );
+  const [selectedColor, setSelectedColor] = useState(DEFAULT_PREFERENCES.color);
+  const [size, setSize] = useState(DEFAULT_PREFERENCES.size);
+  const [penOpacity, setPenOpacity] = useState(DEFAULT_PREFERENCES.penOpacity);
+  const [highlighterOpacity, setHighlighterOpacity] = useState(
+    DEFAULT_PREFERENCES.highlighterOpacity
+  );
+  const [eraserMode, setEraserMode] = useState<EraserMode>(
+    DEFAULT_PREFERENCES.eraserMode
+  );
+  const [stabilizer, setStabilizer] = useState(DEFAULT_PREFERENCES.stabilizer);
+  const [snapShapes, setSnapShapes] = useState(DEFAULT_PREFERENCES.snapShapes);
+  // The shape the toolbar's shape button picks when another tool is active.
+  const [shapeKind, setShapeKind] = useState<ShapeKind>("rectangle");
+  const [textSize, setTextSize] = useState(DEFAULT_PREFERENCES.textSize);
+  const [textAlign, setTextAlign] = useState<TextAlign>(
+    DEFAULT_PREFERENCES.textAlign
+  );
+  const [toolbarPosition, setToolbarPosition] = useState(
+    DEFAULT_PREFERENCES.toolbarPosition
+  );
+  const [shortcutOverrides, setShortcutOverrides] = useState(
+    DEFAULT_PREFERENCES.shortcuts
+  );
+  // Turned on by the first stylus event; touch then only pans and zooms.
+  const [penOnly, setPenOnly] = useState(false);
+  const penOnlyChosenRef = useRef(false);
+  const [history, setHistory] = useState<Command[]>([]);
+  const [historyIndex, setHistoryIndex] = useState(-1);
+  // Kept in step with the history by applying or inverting one command at a
+  // time; only loading a drawing replays it.
+  const [visibleStrokes, setVisibleStrokes] = useState<Stroke[]>([]);
+  const [layers, setLayers] = useState<Layer[]>(DEFAULT_LAYERS);
+  const [activeLayerId, setActiveLayerId] = useState(DEFAULT_LAYERS[0].id);
+  // A layer change being dragged out in the layer panel, shown on the canvas
+  // before it is recorded.
+  const [layerDraft, setLayerDraft] = useState<Layer | null>(null);
+  const [isLayerPanelOpen, setIsLayerPanelOpen] = useState(false);
+  const [background, setBackground] = useState<BackgroundImage | null>(null);
+  const [paper, setPaper] = useState<Paper>(DEFAULT_PAPER);
+  const [isPaperPanelOpen, setIsPaperPanelOpen] = useState(false);
+  const [session, setSession] = useState<{
+    room: string;
+    status: SessionStatus;
+  } | null>(null);
+  const [peers, setPeers] = useState<Record<string, RemotePeer>>({});
+  const [isSessionPanelOpen, setIsSessionPanelOpen] = useState(false);
+  const [sessionName, setSessionName] = useState(
+    DEFAULT_PREFERENCES.sessionName
+  );
+  const [relayUrl, setRelayUrl] = useState(DEFAULT_PREFERENCES.relayUrl);
+  const sessionRef = useRef<SessionConnection | null>(null);
+  // The relay's log as applied here, null until the relay has welcomed us,
+  // and this peer's commands that it hasn't sent back yet.
+  const sharedRef = useRef<SharedDrawing | null>(null);
+  const pendingRef = useRef<{ id: string; command: Command }[]>([]);
+  // In a session, undo and redo only reach this peer's own commands, and
+  // work by sending their inverse like any other edit.
+  const undoStackRef = useRef<Command[]>([]);
+  const redoStackRef = useRef<Command[]>([]);
+  const sessionListenerRef = useRef<(message: RelayMessage) => void>(
+    () => {}
+  );
+  const autosaverRef = useRef<Autosaver | null>(null);
+  const [saveState, setSaveState] = useState<SaveState>({
+    status: "saved",
+    quotaExceeded: false,
+  });
+  const quotaAlertedRef = useRef(false);
+  const [snapshots, setSnapshots] = useState<SnapshotSummary[]>([]);
+  const [isVersionsPanelOpen, setIsVersionsPanelOpen] = useState(false);
+  // Handwriting recognized in ink that was kept, so the drawing can be
+  // found by it.
+  const [recognizedText, setRecognizedText] = useState<RecognizedText[]>([]);
+  // The ink being converted to text, with the text once it is recognized.
+  const [recognition, setRecognition] = useState<{
+    strokeIds: string[];
+    text: string | null;
+  } | null>(null);
+  // A PDF waiting for a page to be picked as the background.
+  const [pdf, setPdf] = useState<PDFDocumentProxy | null>(null);
+  const backgroundInputRef = useRef<HTMLInputElement>(null);
+  const doodleInputRef = useRef<HTMLInputElement>(null);
+  // What the renderer holds, uploaded on the next redraw when it changes.
+  const uploadedBackgroundRef = useRef<BackgroundImage | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [title, setTitle] = useState("Untitled");
+  const [isExportOpen, setIsExportOpen] = useState(false);
+  const [isColorPickerOpen, setIsColorPickerOpen] = useState(false);
+  const [isCommandPaletteOpen, setIsCommandPaletteOpen] = useState(false);
+  const [canvasSize, setCanvasSize] = useState({ width: 0, height: 0 });
+  const [view, setView] = useState<View>(DEFAULT_VIEW);
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [lassoPath, setLassoPath] = useState<Point[] | null>(null);
+  // The transform being dragged out on the selection, previewed on the GPU
+  // until it is committed as one history entry.
+  const [selectionMatrix, setSelectionMatrix] = useState<Matrix | null>(null);
+  // The text box open for typing: a new one, or an edited copy of a saved
+  // one, which stays hidden on the canvas until the edit is committed.
+  const [editingText, setEditingText] = useState<Stroke | null>(null);
+  // While set, the canvas shows the drawing being made instead of the
+  // current one, and takes no input.
+  const [replay, setReplay] = useState<{
+    timeline: Replay;
+    time: number;
+    frame: ReplayFrame;
+  } | null>(null);
+  const [isReplayPlaying, setIsReplayPlaying] = useState(false);
+  const [replaySpeed, setReplaySpeed] = useState(2);
+  const [timelapseProgress, setTimelapseProgress] = useState<number | null>(
+    null
+  );
+  const replayCursorRef = useRef<ReplayCursor | null>(null);
+  // When playback last advanced, from performance.now().
+  const replayClockRef = useRef(0);
 
-      if (i === 0) {
-        vertices.push(center.x, center.y);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const rendererRef = useRef<StrokeRenderer | null>(null);
+  // The pointer that owns the stroke in progress. Every other pointer is
+  // ignored for ink until it lifts.
+  const drawingPointerRef = useRef<{ id: number; type: string } | null>(null);
+  const lastPointRef = useRef<Point>({ x: 0, y: 0 });
+  const pixelRatioRef = useRef(1);
+  const currentStrokeRef = useRef<Point[]>([]);
+  const smootherRef = useRef<StrokeSmoother | null>(null);
+  const touchPointsRef = useRef(new Map<number, Point>());
+  const gestureRef = useRef<GestureStart | null>(null);
+  const erasedStrokesRef = useRef<Stroke[] | null>(null);
+  // A clean shape that replaces the ink in progress when the pointer lifts,
+  // either dragged out with a shape tool or snapped from freehand ink.
+  const shapeStrokeRef = useRef<Stroke | null>(null);
+  const shapeStartRef = useRef<Point>({ x: 0, y: 0 });
+  const holdTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const holdAnchorRef = useRef<Point>({ x: 0, y: 0 });
+
+  const selectedStrokes = useMemo(() => {
+    const ids = new Set(selectedIds);
+    return visibleStrokes.filter((stroke) => ids.has(stroke.id));
+  }, [visibleStrokes, selectedIds]);
+
+  const displayedLayers = layerDraft
+    ? layers.map((layer) => (layer.id === layerDraft.id ? layerDraft : layer))
+    : layers;
+  // Falls back to the top layer when the active one has been deleted.
+  const activeLayer =
+    layers.find((layer) => layer.id === activeLayerId) ??
+    layers[layers.length - 1];
+  const canEditLayer = activeLayer.visible && !activeLayer.locked;
+  // The eraser, the lasso and the text tool only reach the active layer.
+  const layerStrokes = (strokes: Stroke[]) =>
+    strokes.filter((stroke) => strokeLayerId(stroke) === activeLayer.id);
+
+  const redrawCanvas = (strokesToDraw: Stroke[] = visibleStrokes) => {
+    const renderer = rendererRef.current;
+    if (!renderer) return;
+    renderer.setView(view);
+    if (uploadedBackgroundRef.current !== background) {
+      renderer.setBackground(background);
+      uploadedBackgroundRef.current = background;
+    }
+    renderer.setPaper(paper);
+    if (replay) {
+      const { strokes, layers, partial } = replay.frame;
+      renderer.drawLayers(visibleLayerContents(layers, strokes));
+      if (partial) {
+        renderer.beginStroke(strokeLayerId(partial));
+        renderer.drawTransientStroke(partial);
       }
-      vertices.push(x, y);
+      return;
+    }
+    renderer.drawLayers(
+      visibleLayerContents(
+        displayedLayers,
+        editingText
+          ? strokesToDraw.filter((stroke) => stroke.id !== editingText.id)
+          : strokesToDraw
+      ),
+      selectionMatrix
+        ? { strokes: new Set(selectedStrokes), matrix: selectionMatrix }
+        : undefined
+    );
+    Object.values(peers).forEach(({ ink }) => {
+      if (!ink) return;
+      renderer.beginStroke(strokeLayerId(ink));
+      renderer.drawTransientStroke(ink);
+    });
+    // A redraw while drawing, such as for a peer's edit, would otherwise
+    // wipe the ink in progress.
+    const liveStroke =
+      shapeStrokeRef.current ??
+      (drawingPointerRef.current &&
+      (selectedTool === "pen" || selectedTool === "highlighter")
+        ? { id: "", points: currentStrokeRef.current, ...inkStyle }
+        : null);
+    if (liveStroke) {
+      renderer.beginStroke(activeLayer.id);
+      renderer.drawTransientStroke(liveStroke);
     }
-
-    gl.bindBuffer(gl.ARRAY_BUFFER, positionBufferRef.current);
-    gl.bufferData(gl.ARRAY_BUFFER, new Float32Array(vertices), gl.STREAM_DRAW);
-    gl.drawArrays(gl.TRIANGLE_FAN, 0, vertices.length / 2);
   };
 
-  const redrawCanvas = () => {
-    const gl = glRef.current;
-    if (!gl || !colorLocationRef.current || !alphaLocationRef.current) return;
-
-    gl.clearColor(1.0, 1.0, 1.0, 1.0);
-    gl.clear(gl.COLOR_BUFFER_BIT);
-
-    const activeStrokes = strokes.slice(0, currentStrokeIndex + 1);
-
-    activeStrokes.forEach((stroke) => {
-      if (stroke.points.length === 0) return;
-
-      if (stroke.tool === "eraser") {
-        gl.blendFunc(gl.SRC_ALPHA, gl.ONE_MINUS_SRC_ALPHA);
-        gl.uniform3f(colorLocationRef.current, 1.0, 1.0, 1.0);
-        gl.uniform1f(alphaLocationRef.current, 1.0);
-      } else if (stroke.tool === "highlighter") {
-        gl.blendFunc(gl.ONE, gl.ONE_MINUS_SRC_ALPHA);
-        const [r, g, b] = hexToRgb(stroke.color);
-        const alpha = (stroke.opacity / 100) * 0.1;
-        gl.uniform3f(colorLocationRef.current, r * alpha, g * alpha, b * alpha);
-        gl.uniform1f(alphaLocationRef.current, alpha);
-      } else {
-        gl.blendFunc(gl.SRC_ALPHA, gl.ONE_MINUS_SRC_ALPHA);
-        const [r, g, b] = hexToRgb(stroke.color);
-        gl.uniform3f(colorLocationRef.current, r, g, b);
-        gl.uniform1f(alphaLocationRef.current, stroke.opacity / 100);
-      }
-
-      const lineWidth = stroke.lineWidth * pixelRatioRef.current;
-
-      if (stroke.points.length === 1) {
-        drawStrokeCircle(stroke.points[0], lineWidth / 2);
-        return;
-      }
-
-      for (let i = 1; i < stroke.points.length; i++) {
-        const from = stroke.points[i - 1];
-        const to = stroke.points[i];
-
-        const bresenhamPoints = plotLine(
-          Math.round(from.x),
-          Math.round(from.y),
-          Math.round(to.x),
-          Math.round(to.y)
-        );
-
-        for (const point of bresenhamPoints) {
-          drawStrokeCircle(point, lineWidth / 2);
-        }
-      }
+  const updateHistory = (
+    newHistory: Command[],
+    newIndex: number,
+    newStrokes: Stroke[],
+    newLayers: Layer[]
+  ) => {
+    setHistory(newHistory);
+    setHistoryIndex(newIndex);
+    setVisibleStrokes(newStrokes);
+    setLayers(newLayers);
+    autosaverRef.current?.save({
+      history: newHistory,
+      historyIndex: newIndex,
+      thumbnail: renderThumbnail(
+        visibleLayerContents(newLayers, newStrokes),
+        background,
+        paper
+      ),
+      searchText: drawingText(newStrokes, recognizedText),
     });
   };
 
+  // Undo first throws away the text being typed, if any.
   const handleUndo = () => {
-    if (currentStrokeIndex >= 0) {
-      const newIndex = currentStrokeIndex - 1;
-      setCurrentStrokeIndex(newIndex);
-      saveDrawing(strokes, newIndex);
+    if (editingText) {
+      setEditingText(null);
+      return;
+    }
+    if (session) {
+      const command = undoStackRef.current.pop();
+      if (!command) return;
+      const inverse = rebaseCommand(
+        visibleStrokes,
+        layers,
+        invertCommand(command)
+      );
+      redoStackRef.current.push(inverse);
+      appendCommand(inverse);
+      return;
     }
+    if (historyIndex < 0) return;
+    const inverse = invertCommand(history[historyIndex]);
+    updateHistory(
+      history,
+      historyIndex - 1,
+      applyCommand(visibleStrokes, inverse),
+      applyLayerCommand(layers, inverse)
+    );
   };
 
   const handleRedo = () => {
-    if (currentStrokeIndex < strokes.length - 1) {
-      const newIndex = currentStrokeIndex + 1;
-      setCurrentStrokeIndex(newIndex);
-      saveDrawing(strokes, newIndex);
+    setEditingText(null);
+    if (session) {
+      const command = redoStackRef.current.pop();
+      if (!command) return;
+      const inverse = rebaseCommand(
+        visibleStrokes,
+        layers,
+        invertCommand(command)
+      );
+      undoStackRef.current.push(inverse);
+      appendCommand(inverse);
+      return;
     }
+    if (historyIndex >= history.length - 1) return;
+    const command = history[historyIndex + 1];
+    updateHistory(
+      history,
+      historyIndex + 1,
+      applyCommand(visibleStrokes, command),
+      applyLayerCommand(layers, command)
+    );
   };
 
-  const handleClear = async () => {
-    setStrokes([]);
-    setCurrentStrokeIndex(-1);
-    await saveDrawing([], -1);
-    const gl = glRef.current;
-    if (!gl) return;
-    gl.clearColor(1.0, 1.0, 1.0, 1.0);
-    gl.clear(gl.COLOR_BUFFER_BIT);
+  // Drops the redo stack and records `command` as the newest step. In a
+  // session it is also sent to the other peers.
+  const appendCommand = (command: Command) => {
+    const newHistory = [...history.slice(0, historyIndex + 1), command];
+    updateHistory(
+      newHistory,
+      newHistory.length - 1,
+      applyCommand(visibleStrokes, command),
+      applyLayerCommand(layers, command)
+    );
+    if (sessionRef.current) {
+      const id = createId();
+      pendingRef.current.push({ id, command });
+      sessionRef.current.sendCommand(id, command);
+    }
   };
 
-  const updateStrokesAndSave = (newStrokes: Stroke[], newIndex: number) => {
-    setStrokes(newStrokes);
-    setCurrentStrokeIndex(newIndex);
-    saveDrawing(newStrokes, newIndex);
+  const pushCommand = (command: Command) => {
+    if (command.changes.length === 0 && !command.layers) return;
+    if (session) {
+      undoStackRef.current.push(command);
+      redoStackRef.current = [];
+    }
+    appendCommand(command);
   };
 
-  const createShader = (
-    gl: WebGL2RenderingContext,
-    type: number,
-    source: string
-  ): WebGLShader | null => {
-    const shader = gl.createShader(type);
-    if (!shader) return null;
-
-    gl.shaderSource(shader, source);
-    gl.compileShader(shader);
+  // Shows the relay's log with this peer's own commands that are still on
+  // their way through it on top.
+  const showSharedDrawing = (shared: SharedDrawing) => {
+    const shown = pendingRef.current.reduce(
+      (drawing, { command }) => applySharedCommand(drawing, command),
+      shared
+    );
+    updateHistory(
+      shown.history,
+      shown.history.length - 1,
+      shown.strokes,
+      shown.layers
+    );
+  };
 
-    if (!gl.getShaderParameter(shader, gl.COMPILE_STATUS)) {
-      console.error("Shader compilation error:", gl.getShaderInfoLog(shader));
-      gl.deleteShader(shader);
-      return null;
+  const handleWelcome = (log: Command[], others: SessionPeer[]) => {
+    const firstWelcome = sharedRef.current === null;
+    setPeers(
+      Object.fromEntries(
+        others.map(({ peer, name }) => [peer, { name, cursor: null, ink: null }])
+      )
+    );
+    if (log.length === 0) {
+      // An empty room, or one on a relay that has restarted, starts from
+      // this drawing's history.
+      sharedRef.current = EMPTY_SHARED_DRAWING;
+      pendingRef.current = history
+        .slice(0, historyIndex + 1)
+        .map((command) => ({ id: createId(), command }));
+    } else {
+      if (
+        firstWelcome &&
+        visibleStrokes.length > 0 &&
+        !window.confirm(
+          `Room "${session?.room}" already has a drawing. ` +
+            `Replace "${title}" with it?`
+        )
+      ) {
+        leaveSession();
+        return;
+      }
+      sharedRef.current = log.reduce(applySharedCommand, EMPTY_SHARED_DRAWING);
     }
-
-    return shader;
+    // Commands sent before a reconnect may never have reached the relay. One
+    // that did arrives twice, which changes nothing: rebasing the copy finds
+    // its strokes already in place.
+    pendingRef.current.forEach(({ id, command }) =>
+      sessionRef.current?.sendCommand(id, command)
+    );
+    showSharedDrawing(sharedRef.current);
   };
 
-  const createProgram = (
-    gl: WebGL2RenderingContext,
-    vertexShader: WebGLShader,
-    fragmentShader: WebGLShader
-  ): WebGLProgram | null => {
-    const program = gl.createProgram();
-    if (!program) return null;
-
-    gl.attachShader(program, vertexShader);
-    gl.attachShader(program, fragmentShader);
-    gl.linkProgram(program);
+  const updatePeer = (peer: string, changes: Partial<RemotePeer>) =>
+    setPeers((current) =>
+      current[peer]
+        ? { ...current, [peer]: { ...current[peer], ...changes } }
+        : current
+    );
 
-    if (!gl.getProgramParameter(program, gl.LINK_STATUS)) {
-      console.error("Program linking error:", gl.getProgramInfoLog(program));
-      gl.deleteProgram(program);
-      return null;
+  const handleSessionMessage = (message: RelayMessage) => {
+    switch (message.type) {
+      case "welcome":
+        handleWelcome(message.log, message.peers);
+        break;
+      case "joined":
+        setPeers((current) => ({
+          ...current,
+          [message.peer]: { name: message.name, cursor: null, ink: null },
+        }));
+        break;
+      case "left":
+        setPeers((current) =>
+          Object.fromEntries(
+            Object.entries(current).filter(([peer]) => peer !== message.peer)
+          )
+        );
+        break;
+      case "command": {
+        const shared = sharedRef.current;
+        if (!shared) return;
+        sharedRef.current = applySharedCommand(shared, message.command);
+        updatePeer(message.peer, { ink: null });
+        // This peer's oldest command coming back changes nothing on screen.
+        const [oldest, ...rest] = pendingRef.current;
+        if (oldest?.id === message.id) {
+          pendingRef.current = rest;
+          return;
+        }
+        pendingRef.current = pendingRef.current.filter(
+          ({ id }) => id !== message.id
+        );
+        showSharedDrawing(sharedRef.current);
+        break;
+      }
+      case "cursor":
+        updatePeer(message.peer, { cursor: message.point });
+        break;
+      case "ink":
+        setPeers((current) => {
+          const peer = current[message.peer];
+          if (!peer) return current;
+          const points =
+            message.start || !peer.ink
+              ? message.points
+              : [...peer.ink.points, ...message.points];
+          return {
+            ...current,
+            [message.peer]: {
+              ...peer,
+              ink: { id: message.peer, points, ...message.style },
+            },
+          };
+        });
+        break;
+      case "ink-end":
+        updatePeer(message.peer, { ink: null });
+        break;
     }
+  };
 
-    return program;
+  const joinSession = (room: string, url = relayUrl) => {
+    sessionRef.current?.close();
+    sharedRef.current = null;
+    pendingRef.current = [];
+    undoStackRef.current = [];
+    redoStackRef.current = [];
+    setPeers({});
+    setSession({ room, status: "connecting" });
+    sessionRef.current = connectSession(
+      url || DEFAULT_RELAY_URL,
+      room,
+      sessionName,
+      (message) => sessionListenerRef.current(message),
+      (status) =>
+        setSession((current) => current && { ...current, status })
+    );
   };
 
-  const drawCircle = (center: Point, radius: number) => {
-    if (!glRef.current || !programRef.current || !positionBufferRef.current)
-      return;
+  // The drawing keeps the shared history; undo goes back to reaching every
+  // step in it.
+  const leaveSession = () => {
+    sessionRef.current?.close();
+    sessionRef.current = null;
+    sharedRef.current = null;
+    pendingRef.current = [];
+    undoStackRef.current = [];
+    redoStackRef.current = [];
+    setSession(null);
+    setPeers({});
+  };
 
-    const gl = glRef.current;
-    const segments = Math.max(8, Math.floor(radius / 2));
-    const vertices: number[] = [];
+  // The relay's messages always reach the current render's handlers.
+  useEffect(() => {
+    sessionListenerRef.current = handleSessionMessage;
+  });
 
-    for (let i = 0; i <= segments; i++) {
-      const angle = (i / segments) * Math.PI * 2;
-      const x = center.x + Math.cos(angle) * radius;
-      const y = center.y + Math.sin(angle) * radius;
+  useEffect(() => () => sessionRef.current?.close(), []);
 
-      if (i === 0) {
-        vertices.push(center.x, center.y);
-      }
-      vertices.push(x, y);
-    }
+  // Clearing is a command like any other, so it can be undone. Strokes on
+  // hidden and locked layers are left alone.
+  const clearableStrokes = visibleStrokes.filter((stroke) =>
+    layers.some(
+      (layer) =>
+        layer.id === strokeLayerId(stroke) && layer.visible && !layer.locked
+    )
+  );
 
-    gl.bindBuffer(gl.ARRAY_BUFFER, positionBufferRef.current);
-    gl.bufferData(gl.ARRAY_BUFFER, new Float32Array(vertices), gl.STREAM_DRAW);
-    gl.drawArrays(gl.TRIANGLE_FAN, 0, vertices.length / 2);
+  const handleClear = () => {
+    if (clearableStrokes.length === 0) return;
+    pushCommand(clearCommand(visibleStrokes, clearableStrokes));
   };
 
-  const plotLineLow = (
-    x0: number,
-    y0: number,
-    x1: number,
-    y1: number,
-    points: Point[]
-  ) => {
-    const dx = x1 - x0;
-    let dy = y1 - y0;
-    let yi = 1;
-    if (dy < 0) {
-      yi = -1;
-      dy = -dy;
-    }
-    let D = 2 * dy - dx;
-    let y = y0;
-
-    for (let x = x0; x <= x1; x++) {
-      points.push({ x, y });
-      if (D > 0) {
-        y = y + yi;
-        D = D + 2 * (dy - dx);
-      } else {
-        D = D + 2 * dy;
-      }
-    }
+  // Shapes are drawn with the pen's opacity.
+  const inkTool: InkTool = selectedTool === "highlighter" ? "highlighter" : "pen";
+  const inkStyle = {
+    tool: inkTool,
+    color: selectedColor,
+    lineWidth: size,
+    opacity: inkTool === "pen" ? penOpacity : highlighterOpacity,
+    layerId: activeLayer.id,
   };
 
-  const plotLineHigh = (
-    x0: number,
-    y0: number,
-    x1: number,
-    y1: number,
-    points: Point[]
-  ) => {
-    let dx = x1 - x0;
-    const dy = y1 - y0;
-    let xi = 1;
-    if (dx < 0) {
-      xi = -1;
-      dx = -dx;
-    }
-    let D = 2 * dx - dy;
-    let x = x0;
-
-    for (let y = y0; y <= y1; y++) {
-      points.push({ x, y });
-      if (D > 0) {
-        x = x + xi;
-        D = D + 2 * (dx - dy);
-      } else {
-        D = D + 2 * dx;
-      }
+  const drawLine = (from: Point, to: Point) => {
+    const renderer = rendererRef.current;
+    if (!renderer || (selectedTool !== "pen" && selectedTool !== "highlighter")) {
+      return;
     }
-  };
 
-  const plotLine = (
-    x0: number,
-    y0: number,
-    x1: number,
-    y1: number
-  ): Point[] => {
-    const points: Point[] = [];
+    renderer.setView(view);
+    renderer.drawSegment(inkStyle, from, to);
+  };
 
-    if (Math.abs(y1 - y0) < Math.abs(x1 - x0)) {
-      if (x0 > x1) {
-        plotLineLow(x1, y1, x0, y0, points);
-      } else {
-        plotLineLow(x0, y0, x1, y1, points);
-      }
-    } else {
-      if (y0 > y1) {
-        plotLineHigh(x1, y1, x0, y0, points);
-      } else {
-        plotLineHigh(x0, y0, x1, y1, points);
-      }
-    }
+  // Shows `stroke` in place of the ink in progress without committing it.
+  const previewShape = (stroke: Stroke) => {
+    shapeStrokeRef.current = stroke;
+    redrawCanvas();
+    sessionRef.current?.sendInk(
+      { ...inkStyle, shape: stroke.shape },
+      stroke.points,
+      true
+    );
+  };
 
-    return points;
+  const clearHoldTimer = () => {
+    if (holdTimerRef.current) clearTimeout(holdTimerRef.current);
+    holdTimerRef.current = null;
   };
 
-  const drawLine = (from: Point, to: Point) => {
+  // Restarts the hold countdown whenever the pointer moves on, so only a
+  // pause at the end of the stroke snaps it.
+  const watchForHold = (point: Point) => {
+    const anchor = holdAnchorRef.current;
     if (
-      !glRef.current ||
-      !programRef.current ||
-      !positionBufferRef.current ||
-      !colorLocationRef.current ||
-      !alphaLocationRef.current
-    )
+      holdTimerRef.current &&
+      Math.hypot(point.x - anchor.x, point.y - anchor.y) <= SNAP_HOLD_TOLERANCE
+    ) {
       return;
-
-    const gl = glRef.current;
-    const lineWidth = size * pixelRatioRef.current;
-
-    if (selectedTool === "eraser") {
-      gl.blendFunc(gl.SRC_ALPHA, gl.ONE_MINUS_SRC_ALPHA);
-      gl.uniform3f(colorLocationRef.current, 1.0, 1.0, 1.0);
-      gl.uniform1f(alphaLocationRef.current, 1.0);
-    } else if (selectedTool === "highlighter") {
-      gl.blendFunc(gl.ONE, gl.ONE_MINUS_SRC_ALPHA);
-      const [r, g, b] = hexToRgb(selectedColor);
-      const alpha = (highlighterOpacity / 100) * 0.1;
-      gl.uniform3f(colorLocationRef.current, r * alpha, g * alpha, b * alpha);
-      gl.uniform1f(alphaLocationRef.current, alpha);
-    } else {
-      gl.blendFunc(gl.SRC_ALPHA, gl.ONE_MINUS_SRC_ALPHA);
-      const [r, g, b] = hexToRgb(selectedColor);
-      gl.uniform3f(colorLocationRef.current, r, g, b);
-      gl.uniform1f(alphaLocationRef.current, penOpacity / 100);
-    }
-
-    const bresenhamPoints = plotLine(
-      Math.round(from.x),
-      Math.round(from.y),
-      Math.round(to.x),
-      Math.round(to.y)
-    );
-
-    for (const point of bresenhamPoints) {
-      drawCircle(point, lineWidth / 2);
     }
+    clearHoldTimer();
+    holdAnchorRef.current = point;
+    holdTimerRef.current = setTimeout(() => {
+      holdTimerRef.current = null;
+      const shape = recognizeShape(currentStrokeRef.current);
+      if (shape) previewShape(createShapeStroke(shape, inkStyle));
+    }, SNAP_HOLD_MS);
   };
 
+  // A hold still pending when the drawing closes would snap ink in a canvas
+  // that is gone.
+  useEffect(
+    () => () => {
+      if (holdTimerRef.current) clearTimeout(holdTimerRef.current);
+    },
+    []
+  );
+
   useEffect(() => {
-    if (glRef.current && colorLocationRef.current && !isLoading) {
+    if (rendererRef.current && !isLoading) {
       redrawCanvas();
     }
-  }, [currentStrokeIndex, strokes, isLoading]);
+  }, [
+    visibleStrokes,
+    layers,
+    layerDraft,
+    background,
+    paper,
+    isLoading,
+    canvasSize,
+    view,
+    selectionMatrix,
+    editingText,
+    peers,
+    replay,
+  ]);
+
+  // Cached stroke meshes are kept for every stroke undo or redo can bring
+  // back, and released once a stroke drops out of the history.
+  useEffect(() => {
+    rendererRef.current?.prune(
+      new Set(
+        history.flatMap((command) =>
+          command.changes.flatMap((change) => [...change.before, ...change.after])
+        )
+      )
+    );
+  }, [history]);
 
   useEffect(() => {
     const initializeDrawing = async () => {
-      const savedDrawing = await loadDrawing();
+      const [savedDrawing, preferences] = await Promise.all([
+        whenSaved(drawingId).then(() => loadDrawing(drawingId)),
+        loadPreferences(),
+      ]);
+      setSelectedTool(preferences.tool);
+      setSelectedColor(preferences.color);
+      setSize(preferences.size);
+      setPenOpacity(preferences.penOpacity);
+      setHighlighterOpacity(preferences.highlighterOpacity);
+      setEraserMode(preferences.eraserMode);
+      setStabilizer(preferences.stabilizer);
+      setSnapShapes(preferences.snapShapes);
+      if (isShapeTool(preferences.tool)) setShapeKind(preferences.tool);
+      setTextSize(preferences.textSize);
+      setTextAlign(preferences.textAlign);
+      setToolbarPosition(preferences.toolbarPosition);
+      setShortcutOverrides(preferences.shortcuts);
+      setSessionName(preferences.sessionName);
+      setRelayUrl(preferences.relayUrl);
       if (savedDrawing) {
-        setStrokes(savedDrawing.strokes);
-        setCurrentStrokeIndex(savedDrawing.currentStrokeIndex);
+        setTitle(savedDrawing.title);
+        setHistory(savedDrawing.history);
+        setHistoryIndex(savedDrawing.historyIndex);
+        setVisibleStrokes(
+          replayHistory(savedDrawing.history, savedDrawing.historyIndex)
+        );
+        const savedLayers = replayLayers(
+          savedDrawing.history,
+          savedDrawing.historyIndex
+        );
+        setLayers(savedLayers);
+        setActiveLayerId(savedLayers[savedLayers.length - 1].id);
+        setPaper(savedDrawing.paper ?? DEFAULT_PAPER);
+        setRecognizedText(savedDrawing.recognizedText ?? []);
+        if (savedDrawing.background) {
+          try {
+            setBackground(await decodeBackground(savedDrawing.background));
+          } catch (error) {
+            console.error("Failed to load background:", error);
+          }
+        }
       }
       setIsLoading(false);
     };
 
     initializeDrawing();
-  }, []);
+  }, [drawingId]);
+
+  // Switching drawings or leaving the page writes what is still waiting, and
+  // closing the tab with unsaved changes asks first.
+  useEffect(() => {
+    const autosaver = createAutosaver(
+      drawingId,
+      (state) => {
+        setSaveState(state);
+        if (state.quotaExceeded && !quotaAlertedRef.current) {
+          quotaAlertedRef.current = true;
+          window.alert(saveErrorMessage(state));
+        }
+      },
+      () => listSnapshots(drawingId).then(setSnapshots)
+    );
+    autosaverRef.current = autosaver;
+    listSnapshots(drawingId).then(setSnapshots);
+
+    const handleVisibilityChange = () => {
+      if (document.visibilityState === "hidden") autosaver.flush();
+    };
+    const handlePageHide = () => autosaver.flush();
+    const handleBeforeUnload = (e: BeforeUnloadEvent) => {
+      if (!autosaver.hasUnsavedChanges()) return;
+      autosaver.flush();
+      e.preventDefault();
+    };
+    document.addEventListener("visibilitychange", handleVisibilityChange);
+    window.addEventListener("pagehide", handlePageHide);
+    window.addEventListener("beforeunload", handleBeforeUnload);
+    return () => {
+      document.removeEventListener("visibilitychange", handleVisibilityChange);
+      window.removeEventListener("pagehide", handlePageHide);
+      window.removeEventListener("beforeunload", handleBeforeUnload);
+      autosaverRef.current = null;
+      autosaver.dispose();
+    };
+  }, [drawingId]);
+
+  // Saved shortly after the last change so dragging a slider or the toolbar
+  // writes once.
+  useEffect(() => {
+    if (isLoading) return;
+    const timeout = setTimeout(
+      () =>
+        savePreferences({
+          tool: selectedTool,
+          color: selectedColor,
+          size,
+          penOpacity,
+          highlighterOpacity,
+          eraserMode,
+          stabilizer,
+          toolbarPosition,
+          snapShapes,
+          textSize,
+          textAlign,
+          shortcuts: shortcutOverrides,
+          sessionName,
+          relayUrl,
+        }),
+      300
+    );
+    return () => clearTimeout(timeout);
+  }, [
+    isLoading,
+    selectedTool,
+    selectedColor,
+    size,
+    penOpacity,
+    highlighterOpacity,
+    eraserMode,
+    stabilizer,
+    toolbarPosition,
+    snapShapes,
+    textSize,
+    textAlign,
+    shortcutOverrides,
+    sessionName,
+    relayUrl,
+  ]);
+
+  // Joins the room a session link pointed at, once the drawing has loaded.
+  const inviteJoinedRef = useRef(false);
+  const acceptInvite = ({ room, relayUrl: url }: SessionInvite) => {
+    if (url) setRelayUrl(url);
+    joinSession(room, url || relayUrl);
+    setIsSessionPanelOpen(true);
+  };
+
+  useEffect(() => {
+    if (isLoading || !invite || inviteJoinedRef.current) return;
+    inviteJoinedRef.current = true;
+    acceptInvite(invite);
+  });
 
   useEffect(() => {
     const canvas = canvasRef.current;
@@ -907,50 +1902,16 @@ const DrawingCanvas = () => {
     const gl = canvas.getContext("webgl2", {
       antialias: true,
       preserveDrawingBuffer: true,
+      stencil: true,
     });
     if (!gl) {
       console.error("WebGL2 not supported");
       return;
     }
-    glRef.current = gl;
-
-    const vertexShader = createShader(gl, gl.VERTEX_SHADER, vertexShaderSource);
-    const fragmentShader = createShader(
-      gl,
-      gl.FRAGMENT_SHADER,
-      fragmentShaderSource
-    );
-
-    if (!vertexShader || !fragmentShader) return;
-
-    const program = createProgram(gl, vertexShader, fragmentShader);
-    if (!program) return;
-
-    programRef.current = program;
 
-    const positionAttributeLocation = gl.getAttribLocation(
-      program,
-      "a_position"
-    );
-    resolutionLocationRef.current = gl.getUniformLocation(
-      program,
-      "u_resolution"
-    );
-    colorLocationRef.current = gl.getUniformLocation(program, "u_color");
-    alphaLocationRef.current = gl.getUniformLocation(program, "u_alpha");
-
-    const positionBuffer = gl.createBuffer();
-    positionBufferRef.current = positionBuffer;
-
-    const vao = gl.createVertexArray();
-    gl.bindVertexArray(vao);
-
-    gl.enableVertexAttribArray(positionAttributeLocation);
-    gl.bindBuffer(gl.ARRAY_BUFFER, positionBuffer);
-    gl.vertexAttribPointer(positionAttributeLocation, 2, gl.FLOAT, false, 0, 0);
-
-    gl.enable(gl.BLEND);
-    gl.blendFunc(gl.SRC_ALPHA, gl.ONE_MINUS_SRC_ALPHA);
+    const renderer = createStrokeRenderer(gl);
+    if (!renderer) return;
+    rendererRef.current = renderer;
 
     const resizeCanvas = () => {
       const pixelRatio = window.devicePixelRatio || 1;
@@ -964,96 +1925,1141 @@ const DrawingCanvas = () => {
       canvas.width = width * pixelRatio;
       canvas.height = height * pixelRatio;
 
-      gl.viewport(0, 0, canvas.width, canvas.height);
-
-      gl.useProgram(program);
-      gl.uniform2f(resolutionLocationRef.current, canvas.width, canvas.height);
-      if (colorLocationRef.current) {
-        const [r, g, b] = hexToRgb(selectedColor);
-        gl.uniform3f(colorLocationRef.current, r, g, b);
-      }
-      if (alphaLocationRef.current) {
-        gl.uniform1f(alphaLocationRef.current, 1.0);
-      }
+      renderer.resize(canvas.width, canvas.height, pixelRatio);
 
-      gl.clearColor(1.0, 1.0, 1.0, 1.0);
-      gl.clear(gl.COLOR_BUFFER_BIT);
+      // Resizing the canvas discards its contents; the size change triggers a
+      // redraw from the stored strokes.
+      setCanvasSize({ width, height });
     };
 
     resizeCanvas();
     window.addEventListener("resize", resizeCanvas);
 
-    gl.useProgram(program);
-
     // Redraw the canvas after WebGL is initialized to show any loaded drawing
-    if (strokes.length > 0) {
+    if (visibleStrokes.length > 0) {
       redrawCanvas();
     }
 
     return () => {
       window.removeEventListener("resize", resizeCanvas);
-      gl.deleteProgram(program);
-      gl.deleteShader(vertexShader);
-      gl.deleteShader(fragmentShader);
-      if (positionBuffer) gl.deleteBuffer(positionBuffer);
+      renderer.dispose();
+      rendererRef.current = null;
+      uploadedBackgroundRef.current = null;
     };
   }, [isLoading]);
 
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+
+    // Registered natively because React's wheel listener is passive and could
+    // not stop the browser from zooming the page on trackpad pinches.
+    const handleWheel = (e: WheelEvent) => {
+      e.preventDefault();
+      const rect = canvas.getBoundingClientRect();
+      const x = e.clientX - rect.left;
+      const y = e.clientY - rect.top;
+      if (e.ctrlKey || e.metaKey) {
+        setView((current) => zoomAt(current, x, y, Math.exp(-e.deltaY * 0.01)));
+      } else {
+        setView((current) => ({
+          ...current,
+          x: current.x - e.deltaX,
+          y: current.y - e.deltaY,
+        }));
+      }
+    };
+
+    canvas.addEventListener("wheel", handleWheel, { passive: false });
+    return () => canvas.removeEventListener("wheel", handleWheel);
+  }, [isLoading]);
+
+  const cancelStroke = () => {
+    if (!drawingPointerRef.current) return;
+    drawingPointerRef.current = null;
+    currentStrokeRef.current = [];
+    smootherRef.current = null;
+    erasedStrokesRef.current = null;
+    shapeStrokeRef.current = null;
+    clearHoldTimer();
+    setLassoPath(null);
+    sessionRef.current?.endInk();
+    redrawCanvas();
+  };
+
+  // The eraser works on a scratch copy of the visible strokes while the
+  // pointer is down, so strokes disappear as they are touched. The history
+  // entry is computed from the whole eraser path on release.
+  const eraseAlong = (path: Point[]) => {
+    const working = erasedStrokesRef.current ?? visibleStrokes;
+    const replaced = eraseStrokes(
+      layerStrokes(working),
+      path,
+      size / 2,
+      eraserMode
+    );
+    if (Object.keys(replaced).length === 0) return;
+    erasedStrokesRef.current = applyCommand(
+      working,
+      replaceCommand("erase", working, replaced)
+    );
+    redrawCanvas(erasedStrokesRef.current);
+  };
+
+  // Smoothed points are drawn as they are finalized and are exactly what the
+  // saved stroke holds, so the live preview matches the redraw.
+  const appendStrokePoints = (points: Point[]) => {
+    points.forEach((point) => {
+      drawLine(lastPointRef.current, point);
+      lastPointRef.current = point;
+      currentStrokeRef.current.push(point);
+    });
+    if (points.length > 0) sessionRef.current?.sendInk(inkStyle, points, false);
+  };
+
+  const startGesture = () => {
+    gestureRef.current = getGestureStart(view, [
+      ...touchPointsRef.current.values(),
+    ]);
+  };
+
+  const startStroke = (e: React.PointerEvent<HTMLCanvasElement>, rect: DOMRect) => {
+    if (selectedTool === "text") {
+      handleTextTap(createPoint(e.nativeEvent, rect, view));
+      return;
+    }
+    // Hidden and locked layers can't be drawn on or edited.
+    if (!canEditLayer) return;
+    drawingPointerRef.current = { id: e.pointerId, type: e.pointerType };
+    const point = createPoint(e.nativeEvent, rect, view);
+    lastPointRef.current = point;
+    currentStrokeRef.current = [point];
+    if (selectedTool === "lasso") {
+      setSelectedIds([]);
+      setLassoPath([point]);
+    } else if (selectedTool === "eraser") {
+      erasedStrokesRef.current = null;
+      eraseAlong([point]);
+    } else if (isShapeTool(selectedTool)) {
+      shapeStartRef.current = point;
+    } else {
+      smootherRef.current = createStrokeSmoother(stabilizer);
+      smootherRef.current.push(point);
+      rendererRef.current?.beginStroke(activeLayer.id);
+      drawLine(point, point);
+      sessionRef.current?.sendInk(inkStyle, [point], true);
+    }
+  };
+
+  // Once the user has flipped the toggle themselves, it stays their choice.
+  const detectPen = (e: React.PointerEvent) => {
+    if (e.pointerType === "pen" && !penOnly && !penOnlyChosenRef.current) {
+      setPenOnly(true);
+    }
+  };
+
+  const handlePenOnlyChange = (enabled: boolean) => {
+    penOnlyChosenRef.current = true;
+    setPenOnly(enabled);
+  };
+
   const handlePointerDown = (e: React.PointerEvent<HTMLCanvasElement>) => {
     e.preventDefault();
-    isDrawingRef.current = true;
     const rect = canvasRef.current?.getBoundingClientRect();
-    if (!rect) return;
-    const x = (e.clientX - rect.left) * pixelRatioRef.current;
-    const y = (e.clientY - rect.top) * pixelRatioRef.current;
-    lastPointRef.current = { x, y };
-    currentStrokeRef.current = [{ x, y }];
+    if (!rect || replay) return;
+
+    detectPen(e);
+    if (e.pointerType === "pen") {
+      // The pen wins over anything a resting palm or finger had started.
+      if (drawingPointerRef.current?.type !== "pen") cancelStroke();
+      touchPointsRef.current.clear();
+      gestureRef.current = null;
+    }
+
+    if (e.pointerType === "touch") {
+      // A palm resting on the screen while the pen writes is ignored.
+      if (drawingPointerRef.current?.type === "pen") return;
+      const touches = touchPointsRef.current;
+      touches.set(e.pointerId, {
+        x: e.clientX - rect.left,
+        y: e.clientY - rect.top,
+      });
+      if (penOnly || touches.size >= 2 || gestureRef.current) {
+        // A second finger turns the gesture into pan/zoom and drops the
+        // stroke the first finger had started.
+        cancelStroke();
+        startGesture();
+        return;
+      }
+    }
+
+    if (drawingPointerRef.current) return;
+    startStroke(e, rect);
   };
 
   const handlePointerMove = (e: React.PointerEvent<HTMLCanvasElement>) => {
-    if (!isDrawingRef.current) return;
-    e.preventDefault();
-
+    // Hovering styluses report moves before they ever touch the screen.
+    detectPen(e);
     const rect = canvasRef.current?.getBoundingClientRect();
     if (!rect) return;
+    sessionRef.current?.sendCursor(
+      screenToWorld(view, e.clientX - rect.left, e.clientY - rect.top)
+    );
+
+    const touches = touchPointsRef.current;
+    if (touches.has(e.pointerId)) {
+      touches.set(e.pointerId, {
+        x: e.clientX - rect.left,
+        y: e.clientY - rect.top,
+      });
+      if (gestureRef.current) {
+        e.preventDefault();
+        setView(gestureView(gestureRef.current, [...touches.values()]));
+        return;
+      }
+    }
+
+    if (drawingPointerRef.current?.id !== e.pointerId) return;
+    e.preventDefault();
+
+    // Browsers deliver pointer moves once per frame; the samples in between
+    // are only available as coalesced events.
+    const samples = (e.nativeEvent.getCoalescedEvents?.() ?? []).map((event) =>
+      createPoint(event, rect, view)
+    );
+    if (samples.length === 0) samples.push(createPoint(e.nativeEvent, rect, view));
+
+    if (selectedTool === "lasso") {
+      currentStrokeRef.current.push(...samples);
+      setLassoPath([...currentStrokeRef.current]);
+      return;
+    }
 
-    const x = (e.clientX - rect.left) * pixelRatioRef.current;
-    const y = (e.clientY - rect.top) * pixelRatioRef.current;
+    if (selectedTool === "eraser") {
+      eraseAlong([lastPointRef.current, ...samples]);
+      lastPointRef.current = samples[samples.length - 1];
+      currentStrokeRef.current.push(...samples);
+      return;
+    }
 
-    drawLine(lastPointRef.current, { x, y });
-    lastPointRef.current = { x, y };
-    currentStrokeRef.current.push({ x, y });
+    if (isShapeTool(selectedTool)) {
+      const shape = createShape(
+        selectedTool,
+        shapeStartRef.current,
+        samples[samples.length - 1],
+        e.shiftKey
+      );
+      previewShape(createShapeStroke(shape, inkStyle));
+      return;
+    }
+
+    // Once snapped, the clean shape stays put until the pointer lifts.
+    if (shapeStrokeRef.current) return;
+    samples.forEach((sample) =>
+      appendStrokePoints(smootherRef.current?.push(sample) ?? [])
+    );
+    if (snapShapes) watchForHold(samples[samples.length - 1]);
   };
 
   const handlePointerUp = (e: React.PointerEvent<HTMLCanvasElement>) => {
     e.preventDefault();
-    isDrawingRef.current = false;
+
+    const touches = touchPointsRef.current;
+    if (touches.delete(e.pointerId) && gestureRef.current) {
+      // Stay in gesture mode until every finger has lifted, so the last
+      // finger of a pinch pans instead of leaving a stray mark.
+      if (touches.size === 0) {
+        gestureRef.current = null;
+      } else {
+        startGesture();
+      }
+      return;
+    }
+
+    if (drawingPointerRef.current?.id !== e.pointerId) return;
+    drawingPointerRef.current = null;
+
+    if (selectedTool === "lasso") {
+      setSelectedIds(
+        lassoStrokes(layerStrokes(visibleStrokes), currentStrokeRef.current)
+      );
+      setLassoPath(null);
+      currentStrokeRef.current = [];
+      return;
+    }
+
+    if (selectedTool === "eraser") {
+      const replaced = eraseStrokes(
+        layerStrokes(visibleStrokes),
+        currentStrokeRef.current,
+        size / 2,
+        eraserMode
+      );
+      if (Object.keys(replaced).length > 0) {
+        pushCommand(replaceCommand("erase", visibleStrokes, replaced));
+      }
+      erasedStrokesRef.current = null;
+      currentStrokeRef.current = [];
+      return;
+    }
+
+    clearHoldTimer();
+    const shapeStroke = shapeStrokeRef.current;
+    if (shapeStroke) {
+      shapeStrokeRef.current = null;
+      smootherRef.current = null;
+      currentStrokeRef.current = [];
+      pushCommand(addCommand(visibleStrokes, [shapeStroke]));
+      return;
+    }
+    if (isShapeTool(selectedTool)) {
+      currentStrokeRef.current = [];
+      sessionRef.current?.endInk();
+      return;
+    }
+
+    appendStrokePoints(smootherRef.current?.finish() ?? []);
+    smootherRef.current = null;
 
     if (currentStrokeRef.current.length > 0) {
       const newStroke: Stroke = {
+        id: createId(),
         points: [...currentStrokeRef.current],
-        color: selectedTool === "eraser" ? "#FFFFFF" : selectedColor,
-        tool: selectedTool,
-        lineWidth: size,
-        opacity:
-          selectedTool === "pen"
-            ? penOpacity
-            : selectedTool === "highlighter"
-            ? highlighterOpacity
-            : 100,
+        ...inkStyle,
       };
 
-      const newStrokes = [
-        ...strokes.slice(0, currentStrokeIndex + 1),
-        newStroke,
-      ];
-      updateStrokesAndSave(newStrokes, newStrokes.length - 1);
+      pushCommand(addCommand(visibleStrokes, [newStroke]));
       currentStrokeRef.current = [];
     }
   };
 
+  const filename = doodleFilename(title);
+
+  const handleExport = async (
+    format: ExportFormat,
+    scale: number,
+    transparent: boolean,
+    includePaper: boolean
+  ) => {
+    try {
+      const blob = await exportDrawing(
+        visibleLayerContents(layers, visibleStrokes),
+        {
+          format,
+          scale,
+          transparent,
+          pixelRatio: pixelRatioRef.current,
+          paper: includePaper ? paper : null,
+        },
+        background
+      );
+      downloadBlob(blob, `${filename}.${format === "jpeg" ? "jpg" : format}`);
+      setIsExportOpen(false);
+    } catch (error) {
+      console.error("Failed to export drawing:", error);
+      window.alert(
+        error instanceof Error ? error.message : "Failed to export drawing."
+      );
+    }
+  };
+
+  const handleSaveFile = async (compress: boolean) => {
+    try {
+      const blob = await writeDoodleFile(
+        {
+          title,
+          history,
+          historyIndex,
+          paper,
+          ...(background ? { background: storedBackground(background) } : {}),
+          recognizedText,
+        },
+        compress
+      );
+      downloadBlob(blob, `${filename}${DOODLE_EXTENSION}`);
+      setIsExportOpen(false);
+    } catch (error) {
+      console.error("Failed to save drawing to file:", error);
+    }
+  };
+
+  const handleOpenFile = async (file: File) => {
+    const id = await openDoodleFile(file);
+    if (id) onOpenDrawing(id);
+  };
+
+  // Replays the history up to the current step, from an empty page.
+  const openReplay = () => {
+    commitText();
+    cancelStroke();
+    setSelectedIds([]);
+    setIsLayerPanelOpen(false);
+    setIsPaperPanelOpen(false);
+    setIsSessionPanelOpen(false);
+    setIsVersionsPanelOpen(false);
+    const timeline = createReplay(history, historyIndex);
+    const cursor = createReplayCursor(timeline);
+    replayCursorRef.current = cursor;
+    replayClockRef.current = performance.now();
+    setReplay({ timeline, time: 0, frame: cursor.seek(0) });
+    setIsReplayPlaying(true);
+  };
+
+  const closeReplay = () => {
+    if (timelapseProgress !== null) return;
+    replayCursorRef.current = null;
+    setReplay(null);
+    setIsReplayPlaying(false);
+  };
+
+  const seekReplay = (time: number) => {
+    const cursor = replayCursorRef.current;
+    if (!replay || !cursor) return;
+    setReplay({ ...replay, time, frame: cursor.seek(time) });
+  };
+
+  // Playing from the end starts over.
+  const toggleReplayPlaying = () => {
+    if (!replay) return;
+    if (!isReplayPlaying && replay.time >= replay.timeline.duration) {
+      seekReplay(0);
+    }
+    replayClockRef.current = performance.now();
+    setIsReplayPlaying(!isReplayPlaying);
+  };
+
+  // Every frame of playback renders again, which schedules the next one.
+  useEffect(() => {
+    if (!replay || !isReplayPlaying) return;
+    const frame = requestAnimationFrame(() => {
+      const now = performance.now();
+      const time = Math.min(
+        replay.timeline.duration,
+        replay.time + (now - replayClockRef.current) * replaySpeed
+      );
+      replayClockRef.current = now;
+      seekReplay(time);
+      if (time >= replay.timeline.duration) setIsReplayPlaying(false);
+    });
+    return () => cancelAnimationFrame(frame);
+  });
+
+  // The timelapse runs at the speed playback is set to.
+  const handleExportTimelapse = async (format: TimelapseFormat) => {
+    if (!replay) return;
+    setIsReplayPlaying(false);
+    setTimelapseProgress(0);
+    try {
+      const blob = await exportTimelapse(
+        replay.timeline,
+        format,
+        replaySpeed,
+        background,
+        paper,
+        setTimelapseProgress
+      );
+      downloadBlob(blob, `${filename}.${format}`);
+    } catch (error) {
+      console.error("Failed to export timelapse:", error);
+      window.alert(
+        error instanceof Error ? error.message : "Failed to export timelapse."
+      );
+    } finally {
+      setTimelapseProgress(null);
+    }
+  };
+
+  // The background is saved on its own rather than through the history, so
+  // replacing or removing it can't be undone.
+  const applyBackground = (next: BackgroundImage | null) => {
+    setBackground(next);
+    autosaverRef.current?.save({
+      background: next && storedBackground(next),
+      thumbnail: renderThumbnail(
+        visibleLayerContents(layers, visibleStrokes),
+        next,
+        paper
+      ),
+    });
+  };
+
+  const handlePaperChange = (next: Paper) => {
+    setPaper(next);
+    autosaverRef.current?.save({
+      paper: next,
+      thumbnail: renderThumbnail(
+        visibleLayerContents(layers, visibleStrokes),
+        background,
+        next
+      ),
+    });
+  };
+
+  // PDFs ask for a page first; images are placed straight away.
+  const importBackground = async (file: Blob) => {
+    try {
+      if (isPdfFile(file)) {
+        const pdfDocument = await openPdf(file);
+        if (pdfDocument.numPages === 1) {
+          await handlePdfPagePick(pdfDocument, 1);
+        } else {
+          setPdf(pdfDocument);
+        }
+        return;
+      }
+      applyBackground(
+        await createBackground(file, view, canvasSize, pixelRatioRef.current)
+      );
+    } catch (error) {
+      console.error("Failed to import background:", error);
+    }
+  };
+
+  const handlePdfPagePick = async (
+    pdfDocument: PDFDocumentProxy,
+    pageNumber: number
+  ) => {
+    setPdf(null);
+    try {
+      const { blob, pixelRatio } = await pdfPageToBlob(pdfDocument, pageNumber);
+      applyBackground(await createBackground(blob, view, canvasSize, pixelRatio));
+    } catch (error) {
+      console.error("Failed to import PDF page:", error);
+    } finally {
+      pdfDocument.destroy();
+    }
+  };
+
+  const handleClosePdf = () => {
+    pdf?.destroy();
+    setPdf(null);
+  };
+
+  const handleRemoveBackground = () => {
+    if (!background) return;
+    if (!window.confirm("Remove the background image?")) return;
+    applyBackground(null);
+  };
+
+  // Dropped files would otherwise replace the app in the tab.
+  const handleDrop = (e: React.DragEvent) => {
+    e.preventDefault();
+    const file = [...e.dataTransfer.files].find(isBackgroundFile);
+    if (file) importBackground(file);
+  };
+
+  // Every selection edit swaps the selected strokes for edited copies with
+  // the same ids, so it is one undo step and the selection survives it.
+  const replaceSelection = (
+    type: "erase" | "transform" | "property",
+    edit: (stroke: Stroke) => Stroke[]
+  ) => {
+    if (selectedStrokes.length === 0) return;
+    pushCommand(
+      replaceCommand(
+        type,
+        visibleStrokes,
+        Object.fromEntries(
+          selectedStrokes.map((stroke) => [stroke.id, edit(stroke)])
+        )
+      )
+    );
+  };
+
+  const handleTransformEnd = (matrix: Matrix) => {
+    setSelectionMatrix(null);
+    if (matrix === IDENTITY) return;
+    replaceSelection("transform", (stroke) => [transformStroke(stroke, matrix)]);
+  };
+
+  const handleDeleteSelection = () => {
+    replaceSelection("erase", () => []);
+    setSelectedIds([]);
+  };
+
+  // Recognition runs on the device. The text can then be kept alongside the
+  // ink, for search, or take the ink's place.
+  const handleConvertSelectionToText = async () => {
+    const ink = selectedStrokes.filter(isInkStroke);
+    if (ink.length === 0) return;
+    const pending = { strokeIds: ink.map((stroke) => stroke.id), text: null };
+    setRecognition(pending);
+    try {
+      const text = await recognizeHandwriting(ink);
+      // Closing the dialog before recognition finishes drops the result.
+      setRecognition((current) =>
+        current === pending ? { ...pending, text } : current
+      );
+    } catch (error) {
+      console.error("Failed to recognize handwriting:", error);
+      setRecognition((current) => (current === pending ? null : current));
+      window.alert(
+        error instanceof Error ? error.message : "Failed to recognize handwriting."
+      );
+    }
+  };
+
+  // Text recognized again from the same ink replaces what was kept before.
+  const handleKeepInk = (text: string) => {
+    if (!recognition) return;
+    const { strokeIds } = recognition;
+    const kept = [
+      ...recognizedText.filter(
+        (entry) => !entry.strokeIds.every((id) => strokeIds.includes(id))
+      ),
+      { strokeIds, text },
+    ];
+    setRecognition(null);
+    setRecognizedText(kept);
+    autosaverRef.current?.save({
+      recognizedText: kept,
+      searchText: drawingText(visibleStrokes, kept),
+    });
+  };
+
+  // The text box takes the place of the first stroke, with its lines sized
+  // to fill the height of the ink.
+  const handleReplaceInk = (content: string) => {
+    if (!recognition) return;
+    const ids = new Set(recognition.strokeIds);
+    const ink = visibleStrokes.filter((stroke) => ids.has(stroke.id));
+    const bounds = strokeBounds(ink);
+    setRecognition(null);
+    if (!bounds) return;
+    const [first, ...rest] = ink;
+    const lines = content.split("\n").length;
+    const fontSize = Math.round(
+      (bounds.maxY - bounds.minY) / lines / TEXT_LINE_HEIGHT
+    );
+    const label = {
+      ...createTextStroke(
+        {
+          content,
+          fontSize: Math.min(MAX_FONT_SIZE, Math.max(MIN_FONT_SIZE, fontSize)),
+          align: "left",
+        },
+        { x: bounds.minX, y: bounds.minY },
+        first.color
+      ),
+      layerId: strokeLayerId(first),
+    };
+    pushCommand(
+      replaceCommand("convert", visibleStrokes, {
+        [first.id]: [label],
+        ...Object.fromEntries(rest.map((stroke) => [stroke.id, []])),
+      })
+    );
+    setSelectedIds([label.id]);
+  };
+
+  const handleCopySelection = () => {
+    if (selectedStrokes.length > 0) onClipboardChange(selectedStrokes);
+  };
+
+  const addCopies = (strokes: Stroke[]) => {
+    if (strokes.length === 0) return;
+    const copies = copyStrokes(strokes, PASTE_OFFSET).map((stroke) => ({
+      ...stroke,
+      layerId: activeLayer.id,
+    }));
+    pushCommand(addCommand(visibleStrokes, copies));
+    setSelectedIds(copies.map((stroke) => stroke.id));
+    return copies;
+  };
+
+  const handleDuplicateSelection = () => addCopies(selectedStrokes);
+
+  const handlePaste = () => {
+    const copies = addCopies(clipboard);
+    if (!copies) return;
+    setSelectedTool("lasso");
+    // Pasting again cascades from the last paste rather than stacking.
+    onClipboardChange(copies);
+  };
+
+  // Saves the text being edited as one step: new text is added, emptied text
+  // is removed and changed text replaces the saved version.
+  const commitText = () => {
+    if (!editingText) return;
+    setEditingText(null);
+    const saved = visibleStrokes.find((stroke) => stroke.id === editingText.id);
+    const isEmpty = !editingText.text?.content.trim();
+    if (!saved) {
+      if (!isEmpty) pushCommand(addCommand(visibleStrokes, [editingText]));
+    } else if (isEmpty) {
+      pushCommand(replaceCommand("erase", visibleStrokes, { [saved.id]: [] }));
+    } else if (saved !== editingText) {
+      pushCommand(
+        replaceCommand("property", visibleStrokes, { [saved.id]: [editingText] })
+      );
+    }
+  };
+
+  // A tap while editing closes the text box. Otherwise it opens the topmost
+  // label under it, or starts a new one with its first line centered on the
+  // tap.
+  const handleTextTap = (point: Point) => {
+    if (editingText) {
+      commitText();
+      return;
+    }
+    if (!canEditLayer) return;
+    const label = layerStrokes(visibleStrokes)
+      .reverse()
+      .find((stroke) => stroke.text && pointInPolygon(point, stroke.points));
+    if (label?.text) {
+      setTextSize(Math.round(label.text.fontSize));
+      setTextAlign(label.text.align);
+      setEditingText(label);
+      return;
+    }
+    setEditingText({
+      ...createTextStroke(
+        { content: "", fontSize: textSize, align: textAlign },
+        { x: point.x, y: point.y - (textSize * TEXT_LINE_HEIGHT) / 2 },
+        selectedColor
+      ),
+      layerId: activeLayer.id,
+    });
+  };
+
+  const updateEditingText = (changes: Partial<TextBox>) => {
+    if (!editingText?.text) return;
+    setEditingText(
+      updateTextStroke(editingText, { ...editingText.text, ...changes })
+    );
+  };
+
+  const handleTextSizeChange = (fontSize: number) => {
+    setTextSize(fontSize);
+    updateEditingText({ fontSize });
+  };
+
+  const handleTextAlignChange = (align: TextAlign) => {
+    setTextAlign(align);
+    updateEditingText({ align });
+  };
+
+  // Layer edits are recorded like stroke edits so undo steps through them.
+  const handleLayerChange = (id: string, changes: Partial<Layer>) => {
+    setLayerDraft(null);
+    const layer = layers.find((entry) => entry.id === id);
+    if (!layer) return;
+    const changed = (Object.keys(changes) as (keyof Layer)[]).some(
+      (key) => changes[key] !== layer[key]
+    );
+    if (!changed) return;
+    pushCommand(
+      layerCommand(
+        layers,
+        layers.map((entry) => (entry.id === id ? { ...entry, ...changes } : entry))
+      )
+    );
+  };
+
+  const handleLayerSelect = (id: string) => {
+    commitText();
+    setSelectedIds([]);
+    setActiveLayerId(id);
+  };
+
+  // New layers go directly above the active one.
+  const handleAddLayer = () => {
+    commitText();
+    const layer = createLayer(nextLayerName(layers));
+    const index = layers.indexOf(activeLayer) + 1;
+    pushCommand(
+      layerCommand(layers, [
+        ...layers.slice(0, index),
+        layer,
+        ...layers.slice(index),
+      ])
+    );
+    setSelectedIds([]);
+    setActiveLayerId(layer.id);
+  };
+
+  const handleMoveLayer = (id: string, offset: number) => {
+    const index = layers.findIndex((layer) => layer.id === id);
+    const target = index + offset;
+    if (index < 0 || target < 0 || target >= layers.length) return;
+    const reordered = [...layers];
+    [reordered[index], reordered[target]] = [reordered[target], reordered[index]];
+    pushCommand(layerCommand(layers, reordered));
+  };
+
+  const handleDeleteLayer = (id: string) => {
+    if (layers.length === 1) return;
+    commitText();
+    setSelectedIds([]);
+    pushCommand(deleteLayerCommand(visibleStrokes, layers, id));
+  };
+
+  // Moves the selection onto another layer and follows it there, so it
+  // stays selected.
+  const handleMoveSelectionToLayer = (id: string) => {
+    const target = layers.find((layer) => layer.id === id);
+    if (!target?.visible || target.locked) return;
+    replaceSelection("property", (stroke) => [{ ...stroke, layerId: id }]);
+    setActiveLayerId(id);
+  };
+
+  // The layer and paper panels share a corner, so only one is open at a time.
+  const handleToggleLayers = () => {
+    setIsLayerPanelOpen(!isLayerPanelOpen);
+    setIsPaperPanelOpen(false);
+    setIsSessionPanelOpen(false);
+    setIsVersionsPanelOpen(false);
+  };
+
+  const handleTogglePaper = () => {
+    setIsPaperPanelOpen(!isPaperPanelOpen);
+    setIsLayerPanelOpen(false);
+    setIsSessionPanelOpen(false);
+    setIsVersionsPanelOpen(false);
+  };
+
+  const handleToggleSession = () => {
+    setIsSessionPanelOpen(!isSessionPanelOpen);
+    setIsLayerPanelOpen(false);
+    setIsPaperPanelOpen(false);
+    setIsVersionsPanelOpen(false);
+  };
+
+  const handleToggleVersions = () => {
+    setIsVersionsPanelOpen(!isVersionsPanelOpen);
+    setIsLayerPanelOpen(false);
+    setIsPaperPanelOpen(false);
+    setIsSessionPanelOpen(false);
+  };
+
+  const handleSaveVersion = async () => {
+    try {
+      await autosaverRef.current?.snapshot();
+    } catch (error) {
+      console.error("Failed to save version:", error);
+      window.alert(
+        isQuotaError(error)
+          ? saveErrorMessage({ status: "failed", quotaExceeded: true })
+          : "Failed to save version."
+      );
+    }
+  };
+
+  // The paper comes back with the strokes and layers; the background stays.
+  const handleRestoreSnapshot = async (summary: SnapshotSummary) => {
+    const time = new Date(summary.createdAt).toLocaleString();
+    if (!window.confirm(`Restore the version from ${time}?`)) return;
+    const snapshot = await loadSnapshot(drawingId, summary.id);
+    if (!snapshot) return;
+    commitText();
+    setSelectedIds([]);
+    pushCommand(
+      restoreCommand(
+        visibleStrokes,
+        layers,
+        replayHistory(snapshot.history, snapshot.historyIndex),
+        replayLayers(snapshot.history, snapshot.historyIndex)
+      )
+    );
+  };
+
+  const handleDeleteSnapshot = async (summary: SnapshotSummary) => {
+    await deleteSnapshot(drawingId, summary.id);
+    setSnapshots(await listSnapshots(drawingId));
+  };
+
+  const handleToolChange = (tool: Tool) => {
+    commitText();
+    setSelectedTool(tool);
+    if (isShapeTool(tool)) setShapeKind(tool);
+    if (tool !== "lasso") setSelectedIds([]);
+  };
+
+  // Picking a color while strokes are selected recolors them.
+  const handleColorChange = (color: string) => {
+    setSelectedColor(color);
+    if (editingText) setEditingText({ ...editingText, color });
+    replaceSelection("property", (stroke) => [{ ...stroke, color }]);
+  };
+
+  const handleEraserModeToggle = () =>
+    setEraserMode(eraserMode === "partial" ? "stroke" : "partial");
+
+  const zoomAtCenter = (factor: number) =>
+    setView(
+      zoomAt(view, canvasSize.width / 2, canvasSize.height / 2, factor)
+    );
+
+  const hasSelection = selectedStrokes.length > 0;
+  const convertToTextUnavailable = selectedStrokes.some(isInkStroke)
+    ? null
+    : "Select handwriting to convert it to text";
+
+  // Everything the shortcuts and the command palette can trigger. Rebuilt
+  // on every render so each action sees the current state.
+  const actions: Action[] = [
+    {
+      id: "undo",
+      label: "Undo",
+      run: handleUndo,
+      enabled: session
+        ? undoStackRef.current.length > 0
+        : historyIndex >= 0,
+    },
+    {
+      id: "redo",
+      label: "Redo",
+      run: handleRedo,
+      enabled: session
+        ? redoStackRef.current.length > 0
+        : historyIndex < history.length - 1,
+    },
+    {
+      id: "clear",
+      label: "Clear drawing",
+      run: handleClear,
+      enabled: clearableStrokes.length > 0,
+    },
+    { id: "tool-pen", label: "Pen", run: () => handleToolChange("pen") },
+    {
+      id: "tool-highlighter",
+      label: "Highlighter",
+      run: () => handleToolChange("highlighter"),
+    },
+    { id: "tool-eraser", label: "Eraser", run: () => handleToolChange("eraser") },
+    { id: "tool-lasso", label: "Lasso", run: () => handleToolChange("lasso") },
+    { id: "tool-text", label: "Text", run: () => handleToolChange("text") },
+    ...SHAPE_KINDS.map(
+      (kind): Action => ({
+        id: `tool-${kind}`,
+        label: SHAPE_LABELS[kind],
+        run: () => handleToolChange(kind),
+      })
+    ),
+    {
+      id: "toggle-shape-snap",
+      label: snapShapes
+        ? "Turn off hold-to-snap shapes"
+        : "Turn on hold-to-snap shapes",
+      run: () => setSnapShapes(!snapShapes),
+    },
+    {
+      id: "toggle-eraser-mode",
+      label: "Switch between stroke and partial eraser",
+      run: handleEraserModeToggle,
+    },
+    ...PRESET_COLORS.map(
+      ({ color, name }, i): Action => ({
+        id: `color-${i + 1}` as ActionId,
+        label: `Color: ${name}`,
+        run: () => handleColorChange(color),
+      })
+    ),
+    {
+      id: "color-picker",
+      label: "Custom color…",
+      run: () => setIsColorPickerOpen(true),
+    },
+    {
+      id: "size-decrease",
+      label: "Decrease size",
+      run: () => setSize(Math.max(MIN_SIZE, size - 1)),
+    },
+    {
+      id: "size-increase",
+      label: "Increase size",
+      run: () => setSize(Math.min(MAX_SIZE, size + 1)),
+    },
+    {
+      id: "copy",
+      label: "Copy selection",
+      run: handleCopySelection,
+      enabled: hasSelection,
+    },
+    {
+      id: "paste",
+      label: "Paste",
+      run: handlePaste,
+      enabled: clipboard.length > 0,
+    },
+    {
+      id: "duplicate",
+      label: "Duplicate selection",
+      run: handleDuplicateSelection,
+      enabled: hasSelection,
+    },
+    {
+      id: "delete-selection",
+      label: "Delete selection",
+      run: handleDeleteSelection,
+      enabled: hasSelection,
+    },
+    {
+      id: "convert-to-text",
+      label: "Convert selection to text",
+      run: handleConvertSelectionToText,
+      enabled: hasSelection && !convertToTextUnavailable,
+    },
+    {
+      id: "deselect",
+      label: "Deselect",
+      run: () => setSelectedIds([]),
+      enabled: hasSelection,
+    },
+    { id: "zoom-in", label: "Zoom in", run: () => zoomAtCenter(1.25) },
+    { id: "zoom-out", label: "Zoom out", run: () => zoomAtCenter(0.8) },
+    {
+      id: "fit-view",
+      label: "Fit drawing to screen",
+      run: () =>
+        setView(fitView(visibleStrokes, canvasSize.width, canvasSize.height)),
+    },
+    { id: "reset-view", label: "Reset view", run: () => setView(DEFAULT_VIEW) },
+    {
+      id: "toggle-pen-only",
+      label: penOnly ? "Let touch draw" : "Pen only (touch pans and zooms)",
+      run: () => handlePenOnlyChange(!penOnly),
+    },
+    { id: "open-gallery", label: "Open gallery", run: onOpenGallery },
+    { id: "export", label: "Export…", run: () => setIsExportOpen(true) },
+    {
+      id: "replay",
+      label: replay ? "Close replay" : "Replay drawing",
+      run: replay ? closeReplay : openReplay,
+      enabled: replay !== null || historyIndex >= 0,
+    },
+    { id: "save-file", label: "Save to file", run: () => handleSaveFile(true) },
+    {
+      id: "open-file",
+      label: "Open .doodle file…",
+      run: () => doodleInputRef.current?.click(),
+    },
+    {
+      id: "toggle-layers",
+      label: isLayerPanelOpen ? "Hide layers" : "Show layers",
+      run: handleToggleLayers,
+    },
+    {
+      id: "toggle-paper",
+      label: isPaperPanelOpen ? "Hide paper settings" : "Paper settings",
+      run: handleTogglePaper,
+    },
+    {
+      id: "toggle-session",
+      label: isSessionPanelOpen ? "Hide shared session" : "Shared session",
+      run: handleToggleSession,
+    },
+    {
+      id: "toggle-versions",
+      label: isVersionsPanelOpen ? "Hide versions" : "Versions",
+      run: handleToggleVersions,
+    },
+    {
+      id: "save-version",
+      label: "Save version now",
+      run: handleSaveVersion,
+    },
+    {
+      id: "leave-session",
+      label: "Leave shared session",
+      run: leaveSession,
+      enabled: session !== null,
+    },
+    { id: "new-layer", label: "New layer", run: handleAddLayer },
+    {
+      id: "import-background",
+      label: "Set background image or PDF…",
+      run: () => backgroundInputRef.current?.click(),
+    },
+    {
+      id: "remove-background",
+      label: "Remove background",
+      run: handleRemoveBackground,
+      enabled: background !== null,
+    },
+    {
+      id: "reset-toolbar",
+      label: "Reset toolbar position",
+      run: () => setToolbarPosition(null),
+      enabled: toolbarPosition !== null,
+    },
+    {
+      id: "reset-shortcuts",
+      label: "Reset keyboard shortcuts",
+      run: () => setShortcutOverrides({}),
+      enabled: Object.keys(shortcutOverrides).length > 0,
+    },
+    {
+      id: "command-palette",
+      label: "Command palette",
+      run: () => setIsCommandPaletteOpen(true),
+    },
+  ];
+
+  const shortcuts = resolveShortcuts(shortcutOverrides);
+
+  // Re-registered on every render so the shortcuts always run the current
+  // actions.
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (isCommandPaletteOpen) return;
+      const target = e.target as HTMLElement | null;
+      if (
+        target instanceof HTMLInputElement ||
+        target instanceof HTMLTextAreaElement ||
+        target?.isContentEditable
+      ) {
+        return;
+      }
+
+      // Playback only answers to Space, Escape and its own shortcut.
+      if (replay && (e.key === " " || e.key === "Escape")) {
+        e.preventDefault();
+        if (e.key === " ") toggleReplayPlaying();
+        else closeReplay();
+        return;
+      }
+
+      const shortcut = eventToShortcut(e);
+      const id = shortcut && findAction(shortcuts, shortcut);
+      if (replay && id !== "replay") return;
+      const action = id && actions.find((entry) => entry.id === id);
+      // Disabled actions let the key through, so Mod+C without a
+      // selection still copies text.
+      if (!action || action.enabled === false) return;
+      e.preventDefault();
+      action.run();
+    };
+
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  });
+
+  // Pasting an image or PDF makes it the background. Mod+V only gets here
+  // when there are no copied strokes to paste.
+  useEffect(() => {
+    const handlePasteEvent = (e: ClipboardEvent) => {
+      const target = e.target as HTMLElement | null;
+      if (
+        target instanceof HTMLInputElement ||
+        target instanceof HTMLTextAreaElement ||
+        target?.isContentEditable
+      ) {
+        return;
+      }
+      const file = [...(e.clipboardData?.files ?? [])].find(isBackgroundFile);
+      if (!file) return;
+      e.preventDefault();
+      importBackground(file);
+    };
+
+    window.addEventListener("paste", handlePasteEvent);
+    return () => window.removeEventListener("paste", handlePasteEvent);
+  });
+
   const handleOpacityChange = (opacity: number) => {
-    if (selectedTool === "pen") {
+    if (selectedTool === "pen" || isShapeTool(selectedTool)) {
       setPenOpacity(opacity);
     } else if (selectedTool === "highlighter") {
       setHighlighterOpacity(opacity);
@@ -1076,26 +3082,328 @@ const DrawingCanvas = () => {
         onPointerDown={handlePointerDown}
         onPointerMove={handlePointerMove}
         onPointerUp={handlePointerUp}
-        onPointerLeave={handlePointerUp}
+        onPointerLeave={(e) => {
+          sessionRef.current?.sendCursor(null);
+          handlePointerUp(e);
+        }}
+        onPointerCancel={handlePointerUp}
+        onDragOver={(e) => e.preventDefault()}
+        onDrop={handleDrop}
       />
-      <Toolbar
-        selectedTool={selectedTool}
-        selectedColor={selectedColor}
-        size={size}
-        penOpacity={penOpacity}
-        highlighterOpacity={highlighterOpacity}
-        onToolChange={setSelectedTool}
-        onColorChange={setSelectedColor}
-        onSizeChange={setSize}
-        onOpacityChange={handleOpacityChange}
-        onUndo={handleUndo}
-        onRedo={handleRedo}
-        onClear={handleClear}
+      <input
+        ref={backgroundInputRef}
+        type="file"
+        accept="image/*,application/pdf"
+        style={{ display: "none" }}
+        onChange={(e) => {
+          const file = e.target.files?.[0];
+          e.target.value = "";
+          if (file) importBackground(file);
+        }}
+      />
+      <input
+        ref={doodleInputRef}
+        type="file"
+        accept={`${DOODLE_EXTENSION},${DOODLE_MIME_TYPE}`}
+        style={{ display: "none" }}
+        onChange={(e) => {
+          const file = e.target.files?.[0];
+          e.target.value = "";
+          if (file) handleOpenFile(file);
+        }}
       />
+      {selectedTool === "lasso" && (
+        <SelectionOverlay
+          view={view}
+          lasso={lassoPath}
+          bounds={strokeBounds(selectedStrokes)}
+          matrix={selectionMatrix ?? IDENTITY}
+          canPaste={clipboard.length > 0}
+          convertToTextUnavailable={convertToTextUnavailable}
+          onTransform={setSelectionMatrix}
+          onTransformEnd={handleTransformEnd}
+          onCopy={handleCopySelection}
+          onDuplicate={handleDuplicateSelection}
+          onPaste={handlePaste}
+          onConvertToText={handleConvertSelectionToText}
+          onDelete={handleDeleteSelection}
+        />
+      )}
+      {editingText?.text && (
+        <TextEditor
+          key={editingText.id}
+          view={view}
+          stroke={editingText}
+          text={editingText.text}
+          onChange={(content) => updateEditingText({ content })}
+          onClose={commitText}
+        />
+      )}
+      {replay ? (
+        <ReplayPlayer
+          time={replay.time}
+          duration={replay.timeline.duration}
+          isPlaying={isReplayPlaying}
+          speed={replaySpeed}
+          exportProgress={timelapseProgress}
+          onPlayPause={toggleReplayPlaying}
+          onSeek={seekReplay}
+          onSpeedChange={setReplaySpeed}
+          onExport={handleExportTimelapse}
+          onClose={closeReplay}
+        />
+      ) : (
+        <Toolbar
+          selectedTool={selectedTool}
+          eraserMode={eraserMode}
+          shapeKind={shapeKind}
+          selectedColor={selectedColor}
+          size={size}
+          stabilizer={stabilizer}
+          textSize={textSize}
+          textAlign={textAlign}
+          penOpacity={penOpacity}
+          highlighterOpacity={highlighterOpacity}
+          penOnly={penOnly}
+          onToolChange={handleToolChange}
+          onEraserModeChange={setEraserMode}
+          onColorChange={handleColorChange}
+          onOpenColorPicker={() => setIsColorPickerOpen(true)}
+          onSizeChange={setSize}
+          onStabilizerChange={setStabilizer}
+          onTextSizeChange={handleTextSizeChange}
+          onTextAlignChange={handleTextAlignChange}
+          onOpacityChange={handleOpacityChange}
+          onPenOnlyChange={handlePenOnlyChange}
+          onUndo={handleUndo}
+          onRedo={handleRedo}
+          onClear={handleClear}
+          onOpenGallery={onOpenGallery}
+          onExport={() => setIsExportOpen(true)}
+          onReplay={openReplay}
+          onImportBackground={() => backgroundInputRef.current?.click()}
+          isPaperPanelOpen={isPaperPanelOpen}
+          onTogglePaper={handleTogglePaper}
+          isLayerPanelOpen={isLayerPanelOpen}
+          onToggleLayers={handleToggleLayers}
+          isShared={session !== null}
+          isSessionPanelOpen={isSessionPanelOpen}
+          onToggleSession={handleToggleSession}
+          onFitView={() =>
+            setView(
+              fitView(visibleStrokes, canvasSize.width, canvasSize.height)
+            )
+          }
+          onResetView={() => setView(DEFAULT_VIEW)}
+          position={toolbarPosition}
+          onPositionChange={setToolbarPosition}
+        />
+      )}
+      {isCommandPaletteOpen && (
+        <CommandPalette
+          actions={actions}
+          shortcuts={shortcuts}
+          onRemap={(id, shortcut) =>
+            setShortcutOverrides((current) =>
+              remapShortcut(current, id, shortcut)
+            )
+          }
+          onClose={() => setIsCommandPaletteOpen(false)}
+        />
+      )}
+      {isColorPickerOpen && (
+        <ColorPicker
+          color={selectedColor}
+          onColorChange={handleColorChange}
+          onClose={() => setIsColorPickerOpen(false)}
+        />
+      )}
+      {isLayerPanelOpen && (
+        <LayerPanel
+          layers={displayedLayers}
+          activeLayerId={activeLayer.id}
+          canMoveSelection={hasSelection}
+          onSelect={handleLayerSelect}
+          onAdd={handleAddLayer}
+          onChange={handleLayerChange}
+          onPreview={setLayerDraft}
+          onMove={handleMoveLayer}
+          onDelete={handleDeleteLayer}
+          onMoveSelection={handleMoveSelectionToLayer}
+          hasBackground={background !== null}
+          onRemoveBackground={handleRemoveBackground}
+          onClose={() => setIsLayerPanelOpen(false)}
+        />
+      )}
+      {isSessionPanelOpen && (
+        <SessionPanel
+          session={session}
+          peers={peers}
+          name={sessionName}
+          relayUrl={relayUrl}
+          onNameChange={setSessionName}
+          onRelayUrlChange={setRelayUrl}
+          onJoin={(room) => joinSession(room)}
+          onLeave={leaveSession}
+          onClose={() => setIsSessionPanelOpen(false)}
+        />
+      )}
+      <PeerCursors view={view} peers={peers} />
+      {!replay && (
+        <SaveIndicator saveState={saveState} onClick={handleToggleVersions} />
+      )}
+      {isVersionsPanelOpen && (
+        <VersionsPanel
+          saveState={saveState}
+          snapshots={snapshots}
+          onRetrySave={() => autosaverRef.current?.flush()}
+          onSaveVersion={handleSaveVersion}
+          onRestore={handleRestoreSnapshot}
+          onDelete={handleDeleteSnapshot}
+          onClose={() => setIsVersionsPanelOpen(false)}
+        />
+      )}
+      {isPaperPanelOpen && (
+        <PaperPanel
+          paper={paper}
+          onChange={handlePaperChange}
+          onClose={() => setIsPaperPanelOpen(false)}
+        />
+      )}
+      {pdf && (
+        <PdfPagePicker
+          pdf={pdf}
+          onPick={(pageNumber) => handlePdfPagePick(pdf, pageNumber)}
+          onClose={handleClosePdf}
+        />
+      )}
+      {isExportOpen && (
+        <ExportDialog
+          hasPaper={
+            paper.pattern !== "plain" || paper.color !== DEFAULT_PAPER.color
+          }
+          onExport={handleExport}
+          onSaveFile={handleSaveFile}
+          onClose={() => setIsExportOpen(false)}
+        />
+      )}
+      {recognition && (
+        <RecognitionDialog
+          text={recognition.text}
+          limits={handwritingRecognitionLimits()}
+          onKeepInk={handleKeepInk}
+          onReplaceInk={handleReplaceInk}
+          onClose={() => setRecognition(null)}
+        />
+      )}
     </>
   );
 };
 
+// Images opened with the installed app become new drawings, each with the
+// file as its background.
+const createDrawingFromFile = async (file: File): Promise<string | null> => {
+  try {
+    const background = await createBackground(
+      file,
+      DEFAULT_VIEW,
+      { width: window.innerWidth, height: window.innerHeight },
+      window.devicePixelRatio || 1
+    );
+    const drawing = await createDrawing(
+      file.name.replace(/\.[^.]+$/, "") || "Untitled"
+    );
+    await updateDrawing(drawing.id, {
+      background: storedBackground(background),
+      thumbnail: renderThumbnail([], background),
+    });
+    return drawing.id;
+  } catch (error) {
+    console.error("Failed to open file:", error);
+    return null;
+  }
+};
+
 export function App() {
-  return <DrawingCanvas />;
+  const [activeDrawingId, setActiveDrawingId] = useState<string | null>(null);
+  const [isGalleryOpen, setIsGalleryOpen] = useState(false);
+  // Lives above the canvas so strokes can be pasted into another drawing.
+  const [clipboard, setClipboard] = useState<Stroke[]>([]);
+  // A session link (?room=…&relay=…) opens its room in a new drawing.
+  const [invite, setInvite] = useState<
+    (SessionInvite & { drawingId: string }) | null
+  >(null);
+
+  useEffect(() => {
+    initializeLibrary().then(async (id) => {
+      const params = new URLSearchParams(window.location.search);
+      const room = params.get("room");
+      if (room) {
+        window.history.replaceState(null, "", window.location.pathname);
+        const drawing = await createDrawing(room);
+        setInvite({
+          drawingId: drawing.id,
+          room,
+          relayUrl: params.get("relay") ?? "",
+        });
+        setActiveDrawingId(drawing.id);
+        setActiveDrawing(drawing.id);
+      } else if (id) {
+        setActiveDrawingId(id);
+      } else {
+        setIsGalleryOpen(true);
+      }
+    });
+  }, []);
+
+  const handleOpenDrawing = (id: string) => {
+    setInvite(null);
+    setActiveDrawingId(id);
+    setActiveDrawing(id);
+    setIsGalleryOpen(false);
+  };
+
+  useEffect(() => {
+    handleLaunchFiles(async (files) => {
+      let opened: string | null = null;
+      for (const file of files) {
+        if (isDoodleFile(file)) {
+          opened = (await openDoodleFile(file)) ?? opened;
+        } else if (file.type.startsWith("image/")) {
+          opened = (await createDrawingFromFile(file)) ?? opened;
+        }
+      }
+      if (!opened) return;
+      setActiveDrawingId(opened);
+      setActiveDrawing(opened);
+      setIsGalleryOpen(false);
+    });
+  }, []);
+
+  if (isGalleryOpen) {
+    return (
+      <Gallery
+        activeDrawingId={activeDrawingId}
+        onOpenDrawing={handleOpenDrawing}
+        onDrawingDeleted={(id) => {
+          if (id === activeDrawingId) setActiveDrawingId(null);
+        }}
+        onClose={activeDrawingId ? () => setIsGalleryOpen(false) : undefined}
+      />
+    );
+  }
+
+  if (!activeDrawingId) return null;
+
+  return (
+    <DrawingCanvas
+      key={activeDrawingId}
+      drawingId={activeDrawingId}
+      clipboard={clipboard}
+      onClipboardChange={setClipboard}
+      onOpenGallery={() => setIsGalleryOpen(true)}
+      onOpenDrawing={handleOpenDrawing}
+      invite={invite?.drawingId === activeDrawingId ? invite : null}
+    />
+  );
 }
@@ -0,0 +1,472 @@
+import { useEffect, useRef, useState } from "react";
+import {
+  ChevronDown,
+  ChevronUp,
+  Download,
+  Plus,
+  Trash2,
+  Upload,
+  X,
+} from "lucide-react";
+import { hexToHsv, hsvToHex, normalizeHex, type Hsv } from "./color";
+import { downloadBlob } from "./export";
+import { createId } from "./id";
+import {
+  addRecentColor,
+  loadPalettes,
+  loadRecentColors,
+  palettesFromJson,
+  palettesToJson,
+  savePalettes,
+} from "./palettes";
+import type { Palette } from "./types";
+
+interface ColorPickerProps {
+  color: string;
+  onColorChange: (color: string) => void;
+  onClose: () => void;
+}
+
+const PICKER_WIDTH = 240;
+const SATURATION_HEIGHT = 150;
+
+const iconButtonStyle: React.CSSProperties = {
+  width: 28,
+  height: 28,
+  borderRadius: "50%",
+  border: "none",
+  backgroundColor: "#f0f0f0",
+  cursor: "pointer",
+  display: "flex",
+  alignItems: "center",
+  justifyContent: "center",
+  flexShrink: 0,
+};
+
+const sectionLabelStyle: React.CSSProperties = {
+  flex: 1,
+  fontSize: 12,
+  fontWeight: 600,
+  color: "#666",
+  textTransform: "uppercase",
+};
+
+const Swatch = ({
+  color,
+  selected,
+  title,
+  onClick,
+  onContextMenu,
+}: {
+  color: string;
+  selected: boolean;
+  title?: string;
+  onClick: () => void;
+  onContextMenu?: (e: React.MouseEvent) => void;
+}) => (
+  <button
+    onClick={onClick}
+    onContextMenu={onContextMenu}
+    title={title ?? color}
+    style={{
+      width: 24,
+      height: 24,
+      borderRadius: "50%",
+      border: selected ? "2px solid #007AFF" : "2px solid #e0e0e0",
+      backgroundColor: color,
+      cursor: "pointer",
+      padding: 0,
+    }}
+  />
+);
+
+// Tracks a drag that starts on `e.currentTarget`, reporting the pointer's
+// position within it as fractions of its size.
+const trackDrag = (
+  e: React.PointerEvent,
+  onMove: (x: number, y: number) => void,
+  onEnd: () => void
+) => {
+  e.preventDefault();
+  const rect = e.currentTarget.getBoundingClientRect();
+  const report = (event: { clientX: number; clientY: number }) =>
+    onMove(
+      Math.min(1, Math.max(0, (event.clientX - rect.left) / rect.width)),
+      Math.min(1, Math.max(0, (event.clientY - rect.top) / rect.height))
+    );
+
+  const handlePointerMove = (event: PointerEvent) => report(event);
+  const handlePointerUp = () => {
+    document.removeEventListener("pointermove", handlePointerMove);
+    document.removeEventListener("pointerup", handlePointerUp);
+    onEnd();
+  };
+
+  report(e);
+  document.addEventListener("pointermove", handlePointerMove);
+  document.addEventListener("pointerup", handlePointerUp);
+};
+
+// The color is only reported when a drag ends or a value is entered, so a
+// drag across the picker recolors a selection in one undo step.
+export const ColorPicker = ({ color, onColorChange, onClose }: ColorPickerProps) => {
+  const [hsv, setHsv] = useState<Hsv>(() => hexToHsv(color));
+  const [hexInput, setHexInput] = useState(color);
+  const [initialColor] = useState(color);
+  const [recentColors, setRecentColors] = useState<string[]>([]);
+  const [palettes, setPalettes] = useState<Palette[]>([]);
+  const [importError, setImportError] = useState<string | null>(null);
+  const hsvRef = useRef(hsv);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    loadRecentColors().then(setRecentColors);
+    loadPalettes().then(setPalettes);
+  }, []);
+
+  const previewHsv = (next: Hsv) => {
+    hsvRef.current = next;
+    setHsv(next);
+    setHexInput(hsvToHex(next));
+  };
+
+  const pickColor = (next: string) => {
+    previewHsv(hexToHsv(next));
+    onColorChange(next);
+  };
+
+  const handleClose = async () => {
+    if (color !== initialColor) await addRecentColor(color);
+    onClose();
+  };
+
+  const updatePalettes = (next: Palette[]) => {
+    setPalettes(next);
+    savePalettes(next);
+  };
+
+  const movePalette = (index: number, offset: number) => {
+    const target = index + offset;
+    if (target < 0 || target >= palettes.length) return;
+    const next = [...palettes];
+    [next[index], next[target]] = [next[target], next[index]];
+    updatePalettes(next);
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (!file) return;
+    try {
+      const imported = palettesFromJson(await file.text());
+      updatePalettes([...palettes, ...imported]);
+      setImportError(null);
+    } catch (error) {
+      setImportError(error instanceof Error ? error.message : String(error));
+    }
+  };
+
+  const handleExport = () => {
+    downloadBlob(
+      new Blob([palettesToJson(palettes)], { type: "application/json" }),
+      "palettes.json"
+    );
+  };
+
+  const currentColor = hsvToHex(hsv);
+
+  return (
+    <div
+      style={{
+        position: "fixed",
+        top: "50%",
+        left: "50%",
+        transform: "translate(-50%, -50%)",
+        width: PICKER_WIDTH + 40,
+        maxHeight: "calc(100vh - 40px)",
+        overflowY: "auto",
+        boxSizing: "border-box",
+        backgroundColor: "rgba(255, 255, 255, 0.95)",
+        borderRadius: 20,
+        padding: 20,
+        display: "flex",
+        flexDirection: "column",
+        gap: 12,
+        boxShadow: "0 2px 20px rgba(0, 0, 0, 0.1)",
+        backdropFilter: "blur(10px)",
+        fontFamily: "-apple-system, BlinkMacSystemFont, sans-serif",
+        fontSize: 14,
+      }}
+    >
+      <div style={{ display: "flex", alignItems: "center" }}>
+        <strong style={{ flex: 1 }}>Color</strong>
+        <button
+          onClick={handleClose}
+          style={{ border: "none", background: "none", cursor: "pointer" }}
+        >
+          <X size={18} />
+        </button>
+      </div>
+
+      <div
+        onPointerDown={(e) =>
+          trackDrag(
+            e,
+            (x, y) => previewHsv({ ...hsvRef.current, s: x, v: 1 - y }),
+            () => onColorChange(hsvToHex(hsvRef.current))
+          )
+        }
+        style={{
+          position: "relative",
+          width: PICKER_WIDTH,
+          height: SATURATION_HEIGHT,
+          borderRadius: 10,
+          backgroundColor: `hsl(${hsv.h}, 100%, 50%)`,
+          backgroundImage:
+            "linear-gradient(to top, #000, transparent), linear-gradient(to right, #fff, transparent)",
+          cursor: "crosshair",
+          touchAction: "none",
+        }}
+      >
+        <div
+          style={{
+            position: "absolute",
+            left: hsv.s * PICKER_WIDTH - 7,
+            top: (1 - hsv.v) * SATURATION_HEIGHT - 7,
+            width: 10,
+            height: 10,
+            borderRadius: "50%",
+            border: "2px solid white",
+            boxShadow: "0 0 2px rgba(0, 0, 0, 0.6)",
+            pointerEvents: "none",
+          }}
+        />
+      </div>
+
+      <div
+        onPointerDown={(e) =>
+          trackDrag(
+            e,
+            (x) => previewHsv({ ...hsvRef.current, h: Math.min(359.9, x * 360) }),
+            () => onColorChange(hsvToHex(hsvRef.current))
+          )
+        }
+        style={{
+          position: "relative",
+          width: PICKER_WIDTH,
+          height: 14,
+          borderRadius: 7,
+          background:
+            "linear-gradient(to right, #f00, #ff0, #0f0, #0ff, #00f, #f0f, #f00)",
+          cursor: "pointer",
+          touchAction: "none",
+        }}
+      >
+        <div
+          style={{
+            position: "absolute",
+            left: (hsv.h / 360) * PICKER_WIDTH - 7,
+            top: -2,
+            width: 14,
+            height: 14,
+            borderRadius: "50%",
+            border: "2px solid white",
+            boxShadow: "0 0 2px rgba(0, 0, 0, 0.6)",
+            pointerEvents: "none",
+          }}
+        />
+      </div>
+
+      <div style={{ display: "flex", alignItems: "center", gap: 10 }}>
+        <div
+          style={{
+            width: 32,
+            height: 32,
+            borderRadius: "50%",
+            border: "2px solid #e0e0e0",
+            backgroundColor: currentColor,
+            flexShrink: 0,
+          }}
+        />
+        <input
+          value={hexInput}
+          onChange={(e) => setHexInput(e.target.value)}
+          onBlur={() => {
+            const hex = normalizeHex(hexInput);
+            if (hex) pickColor(hex);
+            else setHexInput(currentColor);
+          }}
+          onKeyDown={(e) => {
+            if (e.key === "Enter") e.currentTarget.blur();
+          }}
+          spellCheck={false}
+          style={{
+            flex: 1,
+            minWidth: 0,
+            height: 32,
+            borderRadius: 8,
+            border: "1px solid #e0e0e0",
+            padding: "0 10px",
+            fontFamily: "monospace",
+            fontSize: 14,
+          }}
+        />
+      </div>
+
+      {recentColors.length > 0 && (
+        <>
+          <span style={sectionLabelStyle}>Recent</span>
+          <div style={{ display: "flex", flexWrap: "wrap", gap: 6 }}>
+            {recentColors.map((recent) => (
+              <Swatch
+                key={recent}
+                color={recent}
+                selected={recent === color}
+                onClick={() => pickColor(recent)}
+              />
+            ))}
+          </div>
+        </>
+      )}
+
+      <div style={{ display: "flex", alignItems: "center", gap: 6 }}>
+        <span style={sectionLabelStyle}>Palettes</span>
+        <button
+          onClick={() =>
+            updatePalettes([
+              ...palettes,
+              { id: createId(), name: "New palette", colors: [color] },
+            ])
+          }
+          title="New palette"
+          style={iconButtonStyle}
+        >
+          <Plus size={14} />
+        </button>
+        <button
+          onClick={() => fileInputRef.current?.click()}
+          title="Import palettes"
+          style={iconButtonStyle}
+        >
+          <Upload size={14} />
+        </button>
+        <button
+          onClick={handleExport}
+          disabled={palettes.length === 0}
+          title="Export palettes"
+          style={{ ...iconButtonStyle, opacity: palettes.length === 0 ? 0.4 : 1 }}
+        >
+          <Download size={14} />
+        </button>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept="application/json,.json"
+          onChange={handleImport}
+          style={{ display: "none" }}
+        />
+      </div>
+      {importError && (
+        <span style={{ color: "#ff3b30", fontSize: 12 }}>{importError}</span>
+      )}
+
+      {palettes.map((palette, index) => (
+        <div
+          key={palette.id}
+          style={{ display: "flex", flexDirection: "column", gap: 6 }}
+        >
+          <div style={{ display: "flex", alignItems: "center", gap: 4 }}>
+            <input
+              value={palette.name}
+              onChange={(e) =>
+                setPalettes(
+                  palettes.map((entry) =>
+                    entry.id === palette.id
+                      ? { ...entry, name: e.target.value }
+                      : entry
+                  )
+                )
+              }
+              onBlur={() => savePalettes(palettes)}
+              style={{
+                flex: 1,
+                minWidth: 0,
+                border: "none",
+                background: "none",
+                fontSize: 14,
+                fontWeight: 600,
+              }}
+            />
+            <button
+              onClick={() => movePalette(index, -1)}
+              disabled={index === 0}
+              title="Move up"
+              style={iconButtonStyle}
+            >
+              <ChevronUp size={14} />
+            </button>
+            <button
+              onClick={() => movePalette(index, 1)}
+              disabled={index === palettes.length - 1}
+              title="Move down"
+              style={iconButtonStyle}
+            >
+              <ChevronDown size={14} />
+            </button>
+            <button
+              onClick={() => {
+                if (!window.confirm(`Delete "${palette.name}"?`)) return;
+                updatePalettes(palettes.filter((entry) => entry.id !== palette.id));
+              }}
+              title="Delete palette"
+              style={{ ...iconButtonStyle, color: "#ff0000" }}
+            >
+              <Trash2 size={14} />
+            </button>
+          </div>
+          <div style={{ display: "flex", flexWrap: "wrap", gap: 6 }}>
+            {palette.colors.map((paletteColor, colorIndex) => (
+              <Swatch
+                key={`${paletteColor}-${colorIndex}`}
+                color={paletteColor}
+                selected={paletteColor === color}
+                title={`${paletteColor} (right-click to remove)`}
+                onClick={() => pickColor(paletteColor)}
+                onContextMenu={(e) => {
+                  e.preventDefault();
+                  updatePalettes(
+                    palettes.map((entry) =>
+                      entry.id === palette.id
+                        ? {
+                            ...entry,
+                            colors: entry.colors.filter(
+                              (_, i) => i !== colorIndex
+                            ),
+                          }
+                        : entry
+                    )
+                  );
+                }}
+              />
+            ))}
+            <button
+              onClick={() =>
+                updatePalettes(
+                  palettes.map((entry) =>
+                    entry.id === palette.id
+                      ? { ...entry, colors: [...entry.colors, color] }
+                      : entry
+                  )
+                )
+              }
+              title="Add the current color"
+              style={{ ...iconButtonStyle, width: 24, height: 24 }}
+            >
+              <Plus size={12} />
+            </button>
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+};
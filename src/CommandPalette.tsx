@@ -0,0 +1,167 @@
+import { useEffect, useState } from "react";
+import {
+  eventToShortcut,
+  formatShortcut,
+  type Action,
+  type ActionId,
+  type ShortcutMap,
+} from "./shortcuts";
+
+interface CommandPaletteProps {
+  actions: Action[];
+  shortcuts: ShortcutMap;
+  onRemap: (id: ActionId, shortcut: string) => void;
+  onClose: () => void;
+}
+
+const shortcutChipStyle = (capturing: boolean): React.CSSProperties => ({
+  minWidth: 40,
+  height: 24,
+  padding: "0 8px",
+  borderRadius: 6,
+  border: capturing ? "1px solid #007AFF" : "1px solid #e0e0e0",
+  backgroundColor: capturing ? "#e8f1ff" : "#f5f5f7",
+  color: "#333",
+  fontSize: 12,
+  cursor: "pointer",
+  whiteSpace: "nowrap",
+});
+
+// Every word of the query has to appear somewhere in the label.
+const matches = (label: string, query: string) => {
+  const text = label.toLowerCase();
+  return query
+    .toLowerCase()
+    .split(/\s+/)
+    .every((word) => text.includes(word));
+};
+
+// Lists every action with its shortcuts. Clicking a shortcut waits for the
+// next key combination and binds it to that action instead.
+export const CommandPalette = ({
+  actions,
+  shortcuts,
+  onRemap,
+  onClose,
+}: CommandPaletteProps) => {
+  const [query, setQuery] = useState("");
+  const [activeIndex, setActiveIndex] = useState(0);
+  const [capturingId, setCapturingId] = useState<ActionId | null>(null);
+
+  const filtered = actions.filter((action) => matches(action.label, query));
+
+  useEffect(() => {
+    if (!capturingId) return;
+    // Registered in the capture phase so the combination being recorded
+    // doesn't also trigger its current action.
+    const handleKeyDown = (e: KeyboardEvent) => {
+      const shortcut = eventToShortcut(e);
+      if (!shortcut) return;
+      e.preventDefault();
+      e.stopPropagation();
+      if (shortcut !== "Escape") onRemap(capturingId, shortcut);
+      setCapturingId(null);
+    };
+
+    window.addEventListener("keydown", handleKeyDown, true);
+    return () => window.removeEventListener("keydown", handleKeyDown, true);
+  }, [capturingId, onRemap]);
+
+  const runAction = (action: Action) => {
+    if (action.enabled === false) return;
+    onClose();
+    action.run();
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === "ArrowDown") {
+      e.preventDefault();
+      setActiveIndex((index) => Math.min(filtered.length - 1, index + 1));
+    } else if (e.key === "ArrowUp") {
+      e.preventDefault();
+      setActiveIndex((index) => Math.max(0, index - 1));
+    } else if (e.key === "Enter") {
+      const action = filtered[activeIndex];
+      if (action) runAction(action);
+    } else if (e.key === "Escape") {
+      onClose();
+    }
+  };
+
+  return (
+    <div
+      style={{
+        position: "fixed",
+        top: 60,
+        left: "50%",
+        transform: "translateX(-50%)",
+        width: "min(420px, calc(100vw - 40px))",
+        backgroundColor: "rgba(255, 255, 255, 0.95)",
+        borderRadius: 20,
+        padding: 12,
+        display: "flex",
+        flexDirection: "column",
+        gap: 8,
+        boxShadow: "0 2px 20px rgba(0, 0, 0, 0.1)",
+        backdropFilter: "blur(10px)",
+        fontFamily: "-apple-system, BlinkMacSystemFont, sans-serif",
+        fontSize: 14,
+      }}
+    >
+      <input
+        autoFocus
+        value={query}
+        placeholder="Search actions"
+        onChange={(e) => {
+          setQuery(e.target.value);
+          setActiveIndex(0);
+        }}
+        onKeyDown={handleKeyDown}
+        style={{
+          height: 36,
+          borderRadius: 10,
+          border: "1px solid #e0e0e0",
+          padding: "0 12px",
+          fontSize: 15,
+        }}
+      />
+      <div style={{ maxHeight: "50vh", overflowY: "auto" }}>
+        {filtered.map((action, index) => (
+          <div
+            key={action.id}
+            onClick={() => runAction(action)}
+            onPointerMove={() => setActiveIndex(index)}
+            style={{
+              display: "flex",
+              alignItems: "center",
+              gap: 6,
+              height: 36,
+              padding: "0 10px",
+              borderRadius: 8,
+              backgroundColor: index === activeIndex ? "#f0f0f0" : "transparent",
+              color: action.enabled === false ? "#aaa" : "black",
+              cursor: action.enabled === false ? "default" : "pointer",
+            }}
+          >
+            <span style={{ flex: 1 }}>{action.label}</span>
+            <button
+              onClick={(e) => {
+                e.stopPropagation();
+                setCapturingId(action.id);
+              }}
+              title="Change shortcut"
+              style={shortcutChipStyle(capturingId === action.id)}
+            >
+              {capturingId === action.id
+                ? "Press keys…"
+                : shortcuts[action.id].map(formatShortcut).join(" / ") || "—"}
+            </button>
+          </div>
+        ))}
+        {filtered.length === 0 && (
+          <div style={{ padding: 10, color: "#999" }}>No matching actions</div>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,158 @@
+import { useState } from "react";
+import { X } from "lucide-react";
+import type { ExportFormat } from "./export";
+
+// Images, or the drawing itself as a .doodle file.
+type DialogFormat = ExportFormat | "doodle";
+
+interface ExportDialogProps {
+  // Whether the drawing has a paper pattern or color worth offering.
+  hasPaper: boolean;
+  onExport: (
+    format: ExportFormat,
+    scale: number,
+    transparent: boolean,
+    includePaper: boolean
+  ) => void;
+  onSaveFile: (compress: boolean) => void;
+  onClose: () => void;
+}
+
+const formats: DialogFormat[] = ["png", "jpeg", "svg", "doodle"];
+const scales = [1, 2, 3, 4];
+
+const optionButtonStyle = (selected: boolean): React.CSSProperties => ({
+  flex: 1,
+  height: 32,
+  borderRadius: 8,
+  border: "none",
+  backgroundColor: selected ? "#007AFF" : "#f0f0f0",
+  color: selected ? "white" : "black",
+  cursor: "pointer",
+  textTransform: "uppercase",
+  fontSize: 12,
+  fontWeight: 600,
+});
+
+export const ExportDialog = ({
+  hasPaper,
+  onExport,
+  onSaveFile,
+  onClose,
+}: ExportDialogProps) => {
+  const [format, setFormat] = useState<DialogFormat>("png");
+  const [scale, setScale] = useState(2);
+  const [transparent, setTransparent] = useState(false);
+  const [includePaper, setIncludePaper] = useState(true);
+  const [compress, setCompress] = useState(true);
+
+  return (
+    <div
+      style={{
+        position: "fixed",
+        top: "50%",
+        left: "50%",
+        transform: "translate(-50%, -50%)",
+        width: 280,
+        backgroundColor: "rgba(255, 255, 255, 0.95)",
+        borderRadius: 20,
+        padding: 20,
+        display: "flex",
+        flexDirection: "column",
+        gap: 14,
+        boxShadow: "0 2px 20px rgba(0, 0, 0, 0.1)",
+        backdropFilter: "blur(10px)",
+        fontFamily: "-apple-system, BlinkMacSystemFont, sans-serif",
+        fontSize: 14,
+      }}
+    >
+      <div style={{ display: "flex", alignItems: "center" }}>
+        <strong style={{ flex: 1 }}>Export</strong>
+        <button
+          onClick={onClose}
+          style={{ border: "none", background: "none", cursor: "pointer" }}
+        >
+          <X size={18} />
+        </button>
+      </div>
+
+      <div style={{ display: "flex", gap: 8 }}>
+        {formats.map((option) => (
+          <button
+            key={option}
+            onClick={() => setFormat(option)}
+            style={optionButtonStyle(format === option)}
+          >
+            {option}
+          </button>
+        ))}
+      </div>
+
+      {format !== "svg" && format !== "doodle" && (
+        <div style={{ display: "flex", gap: 8 }}>
+          {scales.map((option) => (
+            <button
+              key={option}
+              onClick={() => setScale(option)}
+              style={optionButtonStyle(scale === option)}
+            >
+              {option}x
+            </button>
+          ))}
+        </div>
+      )}
+
+      {(format === "png" || format === "svg") && (
+        <label style={{ display: "flex", alignItems: "center", gap: 8 }}>
+          <input
+            type="checkbox"
+            checked={transparent}
+            onChange={(e) => setTransparent(e.target.checked)}
+          />
+          Transparent background
+        </label>
+      )}
+
+      {hasPaper && format !== "doodle" && (
+        <label style={{ display: "flex", alignItems: "center", gap: 8 }}>
+          <input
+            type="checkbox"
+            checked={includePaper}
+            onChange={(e) => setIncludePaper(e.target.checked)}
+          />
+          Include paper
+        </label>
+      )}
+
+      {format === "doodle" && (
+        <label style={{ display: "flex", alignItems: "center", gap: 8 }}>
+          <input
+            type="checkbox"
+            checked={compress}
+            onChange={(e) => setCompress(e.target.checked)}
+          />
+          Compress
+        </label>
+      )}
+
+      <button
+        onClick={() =>
+          format === "doodle"
+            ? onSaveFile(compress)
+            : onExport(format, scale, transparent, includePaper)
+        }
+        style={{
+          height: 40,
+          borderRadius: 10,
+          border: "none",
+          backgroundColor: "#007AFF",
+          color: "white",
+          fontWeight: 600,
+          cursor: "pointer",
+        }}
+      >
+        Export
+      </button>
+    </div>
+  );
+};
@@ -0,0 +1,321 @@
+import { useEffect, useRef, useState } from "react";
+import {
+  Copy,
+  Download,
+  FolderOpen,
+  Plus,
+  Search,
+  Trash2,
+  X,
+} from "lucide-react";
+import { downloadBlob } from "./export";
+import {
+  DOODLE_EXTENSION,
+  DOODLE_MIME_TYPE,
+  doodleFilename,
+  drawingToDoodle,
+  openDoodleFile,
+  writeDoodleFile,
+} from "./doodleFile";
+import {
+  createDrawing,
+  deleteDrawing,
+  duplicateDrawing,
+  listDrawings,
+  loadDrawing,
+  renameDrawing,
+} from "./storage";
+import type { DrawingSummary } from "./types";
+
+interface GalleryProps {
+  activeDrawingId: string | null;
+  onOpenDrawing: (id: string) => void;
+  onDrawingDeleted: (id: string) => void;
+  onClose?: () => void;
+}
+
+const iconButtonStyle: React.CSSProperties = {
+  width: 32,
+  height: 32,
+  borderRadius: "50%",
+  border: "none",
+  backgroundColor: "#f0f0f0",
+  cursor: "pointer",
+  display: "flex",
+  alignItems: "center",
+  justifyContent: "center",
+};
+
+// A drawing matches when every word of the query appears in its title or in
+// the text typed or recognized in it.
+const matches = ({ title, searchText = "" }: DrawingSummary, query: string) => {
+  const text = `${title}\n${searchText}`.toLowerCase();
+  return query
+    .toLowerCase()
+    .split(/\s+/)
+    .every((word) => text.includes(word));
+};
+
+export const Gallery = ({
+  activeDrawingId,
+  onOpenDrawing,
+  onDrawingDeleted,
+  onClose,
+}: GalleryProps) => {
+  const [drawings, setDrawings] = useState<DrawingSummary[]>([]);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editingTitle, setEditingTitle] = useState("");
+  const [query, setQuery] = useState("");
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const refresh = async () => {
+    setDrawings(await listDrawings());
+  };
+
+  useEffect(() => {
+    refresh();
+  }, []);
+
+  const handleCreate = async () => {
+    try {
+      const drawing = await createDrawing();
+      onOpenDrawing(drawing.id);
+    } catch (error) {
+      console.error("Failed to create drawing:", error);
+    }
+  };
+
+  const handleImport = async (file: File) => {
+    const id = await openDoodleFile(file);
+    if (id) onOpenDrawing(id);
+  };
+
+  const handleDownload = async (id: string) => {
+    try {
+      const drawing = await loadDrawing(id);
+      if (!drawing) return;
+      const blob = await writeDoodleFile(drawingToDoodle(drawing), true);
+      downloadBlob(blob, `${doodleFilename(drawing.title)}${DOODLE_EXTENSION}`);
+    } catch (error) {
+      console.error("Failed to save drawing to file:", error);
+    }
+  };
+
+  const handleDuplicate = async (id: string) => {
+    await duplicateDrawing(id);
+    await refresh();
+  };
+
+  const handleDelete = async (drawing: DrawingSummary) => {
+    if (!window.confirm(`Delete "${drawing.title}"?`)) return;
+    await deleteDrawing(drawing.id);
+    onDrawingDeleted(drawing.id);
+    await refresh();
+  };
+
+  const startRename = (drawing: DrawingSummary) => {
+    setEditingId(drawing.id);
+    setEditingTitle(drawing.title);
+  };
+
+  const filtered = drawings.filter((drawing) => matches(drawing, query));
+
+  const commitRename = async () => {
+    if (!editingId) return;
+    const title = editingTitle.trim();
+    if (title) await renameDrawing(editingId, title);
+    setEditingId(null);
+    await refresh();
+  };
+
+  return (
+    <div
+      style={{
+        position: "fixed",
+        inset: 0,
+        overflowY: "auto",
+        backgroundColor: "#f5f5f7",
+        padding: 20,
+        boxSizing: "border-box",
+        fontFamily: "-apple-system, BlinkMacSystemFont, sans-serif",
+      }}
+    >
+      <div
+        style={{
+          display: "flex",
+          alignItems: "center",
+          gap: 10,
+          marginBottom: 20,
+        }}
+      >
+        <h1 style={{ flex: 1, margin: 0, fontSize: 24 }}>Drawings</h1>
+        <label
+          style={{
+            display: "flex",
+            alignItems: "center",
+            gap: 6,
+            height: 32,
+            padding: "0 10px",
+            borderRadius: 16,
+            backgroundColor: "#e8e8ed",
+            color: "#666",
+          }}
+        >
+          <Search size={14} />
+          <input
+            type="search"
+            value={query}
+            placeholder="Search"
+            onChange={(e) => setQuery(e.target.value)}
+            style={{
+              width: 160,
+              border: "none",
+              outline: "none",
+              background: "none",
+              fontSize: 14,
+            }}
+          />
+        </label>
+        <button onClick={handleCreate} style={iconButtonStyle} title="New drawing">
+          <Plus size={18} />
+        </button>
+        <button
+          onClick={() => fileInputRef.current?.click()}
+          style={iconButtonStyle}
+          title="Open .doodle file"
+        >
+          <FolderOpen size={18} />
+        </button>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept={`${DOODLE_EXTENSION},${DOODLE_MIME_TYPE}`}
+          style={{ display: "none" }}
+          onChange={(e) => {
+            const file = e.target.files?.[0];
+            e.target.value = "";
+            if (file) handleImport(file);
+          }}
+        />
+        {onClose && (
+          <button onClick={onClose} style={iconButtonStyle} title="Close">
+            <X size={18} />
+          </button>
+        )}
+      </div>
+
+      <div
+        style={{
+          display: "grid",
+          gridTemplateColumns: "repeat(auto-fill, minmax(200px, 1fr))",
+          gap: 16,
+        }}
+      >
+        {filtered.map((drawing) => (
+          <div
+            key={drawing.id}
+            style={{
+              backgroundColor: "white",
+              borderRadius: 12,
+              overflow: "hidden",
+              boxShadow: "0 2px 10px rgba(0, 0, 0, 0.08)",
+              border:
+                drawing.id === activeDrawingId
+                  ? "2px solid #007AFF"
+                  : "2px solid transparent",
+            }}
+          >
+            <button
+              onClick={() => onOpenDrawing(drawing.id)}
+              style={{
+                display: "block",
+                width: "100%",
+                aspectRatio: "4 / 3",
+                padding: 0,
+                border: "none",
+                backgroundColor: "white",
+                cursor: "pointer",
+              }}
+            >
+              {drawing.thumbnail && (
+                <img
+                  src={drawing.thumbnail}
+                  alt={drawing.title}
+                  style={{ width: "100%", height: "100%", objectFit: "contain" }}
+                />
+              )}
+            </button>
+            <div
+              style={{
+                display: "flex",
+                alignItems: "center",
+                gap: 6,
+                padding: 10,
+                borderTop: "1px solid #e0e0e0",
+              }}
+            >
+              <div style={{ flex: 1, minWidth: 0 }}>
+                {editingId === drawing.id ? (
+                  <input
+                    autoFocus
+                    value={editingTitle}
+                    onChange={(e) => setEditingTitle(e.target.value)}
+                    onBlur={commitRename}
+                    onKeyDown={(e) => {
+                      if (e.key === "Enter") commitRename();
+                      if (e.key === "Escape") setEditingId(null);
+                    }}
+                    style={{ width: "100%", fontSize: 14 }}
+                  />
+                ) : (
+                  <div
+                    onClick={() => startRename(drawing)}
+                    style={{
+                      fontSize: 14,
+                      fontWeight: 600,
+                      overflow: "hidden",
+                      textOverflow: "ellipsis",
+                      whiteSpace: "nowrap",
+                      cursor: "text",
+                    }}
+                  >
+                    {drawing.title}
+                  </div>
+                )}
+                <div style={{ fontSize: 12, color: "#666" }}>
+                  {new Date(drawing.lastModified).toLocaleString()}
+                </div>
+              </div>
+              <button
+                onClick={() => handleDownload(drawing.id)}
+                style={iconButtonStyle}
+                title="Save to file"
+              >
+                <Download size={14} />
+              </button>
+              <button
+                onClick={() => handleDuplicate(drawing.id)}
+                style={iconButtonStyle}
+                title="Duplicate"
+              >
+                <Copy size={14} />
+              </button>
+              <button
+                onClick={() => handleDelete(drawing)}
+                style={{ ...iconButtonStyle, backgroundColor: "#ffb3b3", color: "#ff0000" }}
+                title="Delete"
+              >
+                <Trash2 size={14} />
+              </button>
+            </div>
+          </div>
+        ))}
+      </div>
+      {filtered.length === 0 && query.trim() && (
+        <div style={{ color: "#666", fontSize: 14, textAlign: "center" }}>
+          No drawings match "{query.trim()}".
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,314 @@
+import { useState } from "react";
+import {
+  ChevronDown,
+  ChevronUp,
+  Eye,
+  EyeOff,
+  ImageIcon,
+  Lock,
+  LockOpen,
+  Plus,
+  Trash2,
+  X,
+} from "lucide-react";
+import type { BlendMode, Layer } from "./types";
+
+interface LayerPanelProps {
+  // Bottom to top, as stored; the panel lists them top first.
+  layers: Layer[];
+  activeLayerId: string;
+  canMoveSelection: boolean;
+  onSelect: (id: string) => void;
+  onAdd: () => void;
+  onChange: (id: string, changes: Partial<Layer>) => void;
+  // Shows a change on the canvas without recording it, while a slider is
+  // being dragged.
+  onPreview: (layer: Layer | null) => void;
+  onMove: (id: string, offset: number) => void;
+  onDelete: (id: string) => void;
+  onMoveSelection: (id: string) => void;
+  hasBackground: boolean;
+  onRemoveBackground: () => void;
+  onClose: () => void;
+}
+
+const BLEND_MODES: { mode: BlendMode; label: string }[] = [
+  { mode: "normal", label: "Normal" },
+  { mode: "multiply", label: "Multiply" },
+  { mode: "screen", label: "Screen" },
+];
+
+const iconButtonStyle: React.CSSProperties = {
+  width: 24,
+  height: 24,
+  borderRadius: "50%",
+  border: "none",
+  backgroundColor: "transparent",
+  cursor: "pointer",
+  display: "flex",
+  alignItems: "center",
+  justifyContent: "center",
+  flexShrink: 0,
+};
+
+export const LayerPanel = ({
+  layers,
+  activeLayerId,
+  canMoveSelection,
+  onSelect,
+  onAdd,
+  onChange,
+  onPreview,
+  onMove,
+  onDelete,
+  onMoveSelection,
+  hasBackground,
+  onRemoveBackground,
+  onClose,
+}: LayerPanelProps) => {
+  const [renaming, setRenaming] = useState<{ id: string; name: string } | null>(
+    null
+  );
+  const activeIndex = layers.findIndex((layer) => layer.id === activeLayerId);
+  const activeLayer = layers[activeIndex];
+
+  const finishRename = () => {
+    if (!renaming) return;
+    const name = renaming.name.trim();
+    if (name) onChange(renaming.id, { name });
+    setRenaming(null);
+  };
+
+  const commitOpacity = (e: React.SyntheticEvent<HTMLInputElement>) => {
+    if (!activeLayer) return;
+    onChange(activeLayer.id, { opacity: e.currentTarget.valueAsNumber });
+  };
+
+  return (
+    <div
+      style={{
+        position: "fixed",
+        top: 20,
+        right: 20,
+        width: 240,
+        maxHeight: "calc(100vh - 40px)",
+        overflowY: "auto",
+        boxSizing: "border-box",
+        backgroundColor: "rgba(255, 255, 255, 0.95)",
+        borderRadius: 20,
+        padding: 16,
+        display: "flex",
+        flexDirection: "column",
+        gap: 8,
+        boxShadow: "0 2px 20px rgba(0, 0, 0, 0.1)",
+        backdropFilter: "blur(10px)",
+        fontFamily: "-apple-system, BlinkMacSystemFont, sans-serif",
+        fontSize: 14,
+      }}
+    >
+      <div style={{ display: "flex", alignItems: "center", gap: 4 }}>
+        <strong style={{ flex: 1 }}>Layers</strong>
+        <button onClick={onAdd} title="New layer" style={iconButtonStyle}>
+          <Plus size={16} />
+        </button>
+        <button onClick={onClose} title="Close" style={iconButtonStyle}>
+          <X size={16} />
+        </button>
+      </div>
+
+      {[...layers].reverse().map((layer) => (
+        <div
+          key={layer.id}
+          onClick={() => onSelect(layer.id)}
+          style={{
+            display: "flex",
+            alignItems: "center",
+            gap: 4,
+            height: 32,
+            padding: "0 6px",
+            borderRadius: 8,
+            backgroundColor:
+              layer.id === activeLayerId ? "#e8f1ff" : "transparent",
+            cursor: "pointer",
+          }}
+        >
+          <button
+            onClick={(e) => {
+              e.stopPropagation();
+              onChange(layer.id, { visible: !layer.visible });
+            }}
+            title={layer.visible ? "Hide layer" : "Show layer"}
+            style={iconButtonStyle}
+          >
+            {layer.visible ? <Eye size={14} /> : <EyeOff size={14} color="#999" />}
+          </button>
+          {renaming?.id === layer.id ? (
+            <input
+              autoFocus
+              value={renaming.name}
+              onChange={(e) => setRenaming({ id: layer.id, name: e.target.value })}
+              onBlur={finishRename}
+              onKeyDown={(e) => {
+                if (e.key === "Enter") finishRename();
+                if (e.key === "Escape") setRenaming(null);
+              }}
+              onClick={(e) => e.stopPropagation()}
+              style={{ flex: 1, minWidth: 0, fontSize: 14 }}
+            />
+          ) : (
+            <span
+              onDoubleClick={() => setRenaming({ id: layer.id, name: layer.name })}
+              title="Double-click to rename"
+              style={{
+                flex: 1,
+                minWidth: 0,
+                overflow: "hidden",
+                textOverflow: "ellipsis",
+                whiteSpace: "nowrap",
+                color: layer.visible ? "black" : "#999",
+              }}
+            >
+              {layer.name}
+            </span>
+          )}
+          {canMoveSelection &&
+            layer.id !== activeLayerId &&
+            layer.visible &&
+            !layer.locked && (
+            <button
+              onClick={(e) => {
+                e.stopPropagation();
+                onMoveSelection(layer.id);
+              }}
+              title="Move selection to this layer"
+              style={{ ...iconButtonStyle, width: "auto", fontSize: 11, color: "#007AFF" }}
+            >
+              Move here
+            </button>
+          )}
+          <button
+            onClick={(e) => {
+              e.stopPropagation();
+              onChange(layer.id, { locked: !layer.locked });
+            }}
+            title={layer.locked ? "Unlock layer" : "Lock layer"}
+            style={iconButtonStyle}
+          >
+            {layer.locked ? <Lock size={14} /> : <LockOpen size={14} color="#999" />}
+          </button>
+        </div>
+      ))}
+
+      {hasBackground && (
+        <div
+          style={{
+            display: "flex",
+            alignItems: "center",
+            gap: 4,
+            height: 32,
+            padding: "0 6px",
+            color: "#666",
+          }}
+        >
+          <span style={{ ...iconButtonStyle, cursor: "default" }}>
+            <ImageIcon size={14} />
+          </span>
+          <span style={{ flex: 1 }}>Background</span>
+          <button
+            onClick={onRemoveBackground}
+            title="Remove background"
+            style={{ ...iconButtonStyle, color: "#ff0000" }}
+          >
+            <Trash2 size={14} />
+          </button>
+          <span
+            title="The background is always locked"
+            style={{ ...iconButtonStyle, cursor: "default" }}
+          >
+            <Lock size={14} />
+          </span>
+        </div>
+      )}
+
+      {activeLayer && (
+        <div
+          style={{
+            display: "flex",
+            flexDirection: "column",
+            gap: 8,
+            paddingTop: 8,
+            borderTop: "1px solid #e0e0e0",
+          }}
+        >
+          <label style={{ display: "flex", alignItems: "center", gap: 8 }}>
+            <span style={{ width: 56, color: "#666" }}>Opacity</span>
+            <input
+              type="range"
+              min={0}
+              max={100}
+              value={activeLayer.opacity}
+              onChange={(e) =>
+                onPreview({ ...activeLayer, opacity: e.target.valueAsNumber })
+              }
+              onPointerUp={commitOpacity}
+              onKeyUp={commitOpacity}
+              style={{ flex: 1, minWidth: 0 }}
+            />
+            <span style={{ width: 32, textAlign: "right", color: "#666" }}>
+              {activeLayer.opacity}%
+            </span>
+          </label>
+          <label style={{ display: "flex", alignItems: "center", gap: 8 }}>
+            <span style={{ width: 56, color: "#666" }}>Blend</span>
+            <select
+              value={activeLayer.blendMode}
+              onChange={(e) =>
+                onChange(activeLayer.id, {
+                  blendMode: e.target.value as BlendMode,
+                })
+              }
+              style={{ flex: 1, minWidth: 0 }}
+            >
+              {BLEND_MODES.map(({ mode, label }) => (
+                <option key={mode} value={mode}>
+                  {label}
+                </option>
+              ))}
+            </select>
+          </label>
+          <div style={{ display: "flex", gap: 4, justifyContent: "flex-end" }}>
+            <button
+              onClick={() => onMove(activeLayer.id, 1)}
+              disabled={activeIndex === layers.length - 1}
+              title="Move layer up"
+              style={iconButtonStyle}
+            >
+              <ChevronUp size={16} />
+            </button>
+            <button
+              onClick={() => onMove(activeLayer.id, -1)}
+              disabled={activeIndex === 0}
+              title="Move layer down"
+              style={iconButtonStyle}
+            >
+              <ChevronDown size={16} />
+            </button>
+            <button
+              onClick={() => {
+                if (!window.confirm(`Delete "${activeLayer.name}" and its strokes?`)) {
+                  return;
+                }
+                onDelete(activeLayer.id);
+              }}
+              disabled={layers.length === 1}
+              title="Delete layer"
+              style={{ ...iconButtonStyle, color: "#ff0000" }}
+            >
+              <Trash2 size={16} />
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,135 @@
+import { X } from "lucide-react";
+import {
+  DARK_PAPER,
+  LIGHT_PAPER,
+  MAX_PAPER_SPACING,
+  MIN_PAPER_SPACING,
+  PAPER_PATTERNS,
+} from "./paper";
+import type { Paper } from "./types";
+
+interface PaperPanelProps {
+  paper: Paper;
+  onChange: (paper: Paper) => void;
+  onClose: () => void;
+}
+
+const optionButtonStyle = (selected: boolean): React.CSSProperties => ({
+  flex: 1,
+  height: 32,
+  borderRadius: 8,
+  border: "none",
+  backgroundColor: selected ? "#007AFF" : "#f0f0f0",
+  color: selected ? "white" : "black",
+  cursor: "pointer",
+  fontSize: 12,
+  fontWeight: 600,
+});
+
+const labelStyle: React.CSSProperties = { width: 72, color: "#666" };
+
+export const PaperPanel = ({ paper, onChange, onClose }: PaperPanelProps) => {
+  const isDark =
+    paper.color === DARK_PAPER.color && paper.lineColor === DARK_PAPER.lineColor;
+  const isLight =
+    paper.color === LIGHT_PAPER.color &&
+    paper.lineColor === LIGHT_PAPER.lineColor;
+
+  return (
+    <div
+      style={{
+        position: "fixed",
+        top: 20,
+        right: 20,
+        width: 260,
+        boxSizing: "border-box",
+        backgroundColor: "rgba(255, 255, 255, 0.95)",
+        borderRadius: 20,
+        padding: 16,
+        display: "flex",
+        flexDirection: "column",
+        gap: 12,
+        boxShadow: "0 2px 20px rgba(0, 0, 0, 0.1)",
+        backdropFilter: "blur(10px)",
+        fontFamily: "-apple-system, BlinkMacSystemFont, sans-serif",
+        fontSize: 14,
+      }}
+    >
+      <div style={{ display: "flex", alignItems: "center" }}>
+        <strong style={{ flex: 1 }}>Paper</strong>
+        <button
+          onClick={onClose}
+          title="Close"
+          style={{ border: "none", background: "none", cursor: "pointer" }}
+        >
+          <X size={16} />
+        </button>
+      </div>
+
+      <div style={{ display: "flex", flexWrap: "wrap", gap: 6 }}>
+        {PAPER_PATTERNS.map(({ pattern, label }) => (
+          <button
+            key={pattern}
+            onClick={() => onChange({ ...paper, pattern })}
+            style={{ ...optionButtonStyle(paper.pattern === pattern), flexBasis: 70 }}
+          >
+            {label}
+          </button>
+        ))}
+      </div>
+
+      {paper.pattern !== "plain" && (
+        <label style={{ display: "flex", alignItems: "center", gap: 8 }}>
+          <span style={labelStyle}>Spacing</span>
+          <input
+            type="range"
+            min={MIN_PAPER_SPACING}
+            max={MAX_PAPER_SPACING}
+            value={paper.spacing}
+            onChange={(e) =>
+              onChange({ ...paper, spacing: e.target.valueAsNumber })
+            }
+            style={{ flex: 1, minWidth: 0 }}
+          />
+          <span style={{ width: 28, textAlign: "right", color: "#666" }}>
+            {paper.spacing}
+          </span>
+        </label>
+      )}
+
+      <div style={{ display: "flex", gap: 6 }}>
+        <button
+          onClick={() => onChange({ ...paper, ...LIGHT_PAPER })}
+          style={optionButtonStyle(isLight)}
+        >
+          Light
+        </button>
+        <button
+          onClick={() => onChange({ ...paper, ...DARK_PAPER })}
+          style={optionButtonStyle(isDark)}
+        >
+          Dark
+        </button>
+      </div>
+
+      <label style={{ display: "flex", alignItems: "center", gap: 8 }}>
+        <span style={labelStyle}>Paper</span>
+        <input
+          type="color"
+          value={paper.color.toLowerCase()}
+          onChange={(e) => onChange({ ...paper, color: e.target.value })}
+        />
+      </label>
+      {paper.pattern !== "plain" && (
+        <label style={{ display: "flex", alignItems: "center", gap: 8 }}>
+          <span style={labelStyle}>Lines</span>
+          <input
+            type="color"
+            value={paper.lineColor.toLowerCase()}
+            onChange={(e) => onChange({ ...paper, lineColor: e.target.value })}
+          />
+        </label>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,111 @@
+import { useEffect, useState } from "react";
+import { X } from "lucide-react";
+import type { PDFDocumentProxy } from "pdfjs-dist";
+import { renderPdfPage } from "./background";
+
+interface PdfPagePickerProps {
+  pdf: PDFDocumentProxy;
+  onPick: (pageNumber: number) => void;
+  onClose: () => void;
+}
+
+const PREVIEW_SIZE = 160;
+
+// Lists a PDF's pages as previews, rendered one after another so a long
+// document doesn't hold up the first ones.
+export const PdfPagePicker = ({ pdf, onPick, onClose }: PdfPagePickerProps) => {
+  const [previews, setPreviews] = useState<string[]>([]);
+
+  useEffect(() => {
+    let cancelled = false;
+    const renderPreviews = async () => {
+      for (let page = 1; page <= pdf.numPages && !cancelled; page++) {
+        try {
+          const { canvas } = await renderPdfPage(pdf, page, PREVIEW_SIZE);
+          const preview = canvas.toDataURL("image/jpeg", 0.8);
+          if (!cancelled) setPreviews((current) => [...current, preview]);
+        } catch (error) {
+          console.error("Failed to render PDF page:", error);
+          return;
+        }
+      }
+    };
+    renderPreviews();
+    return () => {
+      cancelled = true;
+    };
+  }, [pdf]);
+
+  return (
+    <div
+      style={{
+        position: "fixed",
+        top: "50%",
+        left: "50%",
+        transform: "translate(-50%, -50%)",
+        width: 420,
+        maxWidth: "calc(100vw - 40px)",
+        maxHeight: "calc(100vh - 40px)",
+        boxSizing: "border-box",
+        backgroundColor: "rgba(255, 255, 255, 0.95)",
+        borderRadius: 20,
+        padding: 20,
+        display: "flex",
+        flexDirection: "column",
+        gap: 14,
+        boxShadow: "0 2px 20px rgba(0, 0, 0, 0.1)",
+        backdropFilter: "blur(10px)",
+        fontFamily: "-apple-system, BlinkMacSystemFont, sans-serif",
+        fontSize: 14,
+      }}
+    >
+      <div style={{ display: "flex", alignItems: "center" }}>
+        <strong style={{ flex: 1 }}>Choose a page</strong>
+        <button
+          onClick={onClose}
+          style={{ border: "none", background: "none", cursor: "pointer" }}
+        >
+          <X size={18} />
+        </button>
+      </div>
+
+      <div
+        style={{
+          display: "grid",
+          gridTemplateColumns: "repeat(auto-fill, minmax(110px, 1fr))",
+          gap: 12,
+          overflowY: "auto",
+        }}
+      >
+        {Array.from({ length: pdf.numPages }, (_, i) => (
+          <button
+            key={i}
+            onClick={() => onPick(i + 1)}
+            style={{
+              display: "flex",
+              flexDirection: "column",
+              alignItems: "center",
+              gap: 6,
+              padding: 6,
+              borderRadius: 10,
+              border: "none",
+              backgroundColor: "#f0f0f0",
+              cursor: "pointer",
+            }}
+          >
+            {previews[i] ? (
+              <img
+                src={previews[i]}
+                alt={`Page ${i + 1}`}
+                style={{ width: "100%", display: "block" }}
+              />
+            ) : (
+              <div style={{ width: "100%", aspectRatio: "3 / 4" }} />
+            )}
+            <span style={{ fontSize: 12, color: "#666" }}>{i + 1}</span>
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,58 @@
+import { peerColor, type RemotePeer } from "./collab";
+import type { View } from "./viewport";
+
+interface PeerCursorsProps {
+  view: View;
+  peers: Record<string, RemotePeer>;
+}
+
+// Marks where the other peers in a shared session are pointing, with their
+// names. Their ink in progress is drawn on the canvas.
+export const PeerCursors = ({ view, peers }: PeerCursorsProps) => (
+  <>
+    {Object.entries(peers).map(([peer, { name, cursor }]) =>
+      cursor ? (
+        <div
+          key={peer}
+          style={{
+            position: "fixed",
+            left: cursor.x * view.zoom + view.x,
+            top: cursor.y * view.zoom + view.y,
+            pointerEvents: "none",
+            display: "flex",
+            alignItems: "flex-start",
+            gap: 4,
+            fontFamily: "-apple-system, BlinkMacSystemFont, sans-serif",
+          }}
+        >
+          <div
+            style={{
+              width: 10,
+              height: 10,
+              marginLeft: -5,
+              marginTop: -5,
+              borderRadius: "50%",
+              border: "2px solid white",
+              backgroundColor: peerColor(peer),
+              boxShadow: "0 1px 4px rgba(0, 0, 0, 0.3)",
+            }}
+          />
+          <div
+            style={{
+              marginTop: 4,
+              padding: "2px 6px",
+              borderRadius: 6,
+              backgroundColor: peerColor(peer),
+              color: "white",
+              fontSize: 11,
+              fontWeight: 600,
+              whiteSpace: "nowrap",
+            }}
+          >
+            {name}
+          </div>
+        </div>
+      ) : null
+    )}
+  </>
+);
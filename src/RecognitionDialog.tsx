@@ -0,0 +1,136 @@
+import { useState } from "react";
+import { X } from "lucide-react";
+
+interface RecognitionDialogProps {
+  // Null while the handwriting is still being recognized.
+  text: string | null;
+  // What to keep in mind about the result, if anything.
+  limits: string | null;
+  onKeepInk: (text: string) => void;
+  onReplaceInk: (text: string) => void;
+  onClose: () => void;
+}
+
+const buttonStyle = (primary: boolean): React.CSSProperties => ({
+  flex: 1,
+  height: 40,
+  borderRadius: 10,
+  border: "none",
+  backgroundColor: primary ? "#007AFF" : "#f0f0f0",
+  color: primary ? "white" : "black",
+  fontWeight: 600,
+  cursor: "pointer",
+});
+
+// The recognized text can be corrected before it is used.
+const RecognizedTextForm = ({
+  text,
+  onKeepInk,
+  onReplaceInk,
+}: Omit<RecognitionDialogProps, "text" | "limits" | "onClose"> & {
+  text: string;
+}) => {
+  const [draft, setDraft] = useState(text);
+  const hasText = draft.trim().length > 0;
+
+  const copyText = async () => {
+    try {
+      await navigator.clipboard.writeText(draft);
+    } catch (error) {
+      console.error("Failed to copy text:", error);
+    }
+  };
+
+  return (
+    <>
+      <textarea
+        value={draft}
+        autoFocus
+        rows={4}
+        placeholder="No text found"
+        onChange={(e) => setDraft(e.target.value)}
+        style={{
+          resize: "vertical",
+          borderRadius: 8,
+          border: "1px solid #ddd",
+          padding: 8,
+          fontFamily: "inherit",
+          fontSize: 14,
+        }}
+      />
+      <div style={{ display: "flex", gap: 8 }}>
+        <button
+          onClick={copyText}
+          disabled={!hasText}
+          style={buttonStyle(false)}
+        >
+          Copy
+        </button>
+        <button
+          onClick={() => onKeepInk(draft.trim())}
+          disabled={!hasText}
+          title="Keep the ink and make the drawing searchable by this text"
+          style={buttonStyle(false)}
+        >
+          Keep ink
+        </button>
+      </div>
+      <button
+        onClick={() => onReplaceInk(draft.trim())}
+        disabled={!hasText}
+        style={buttonStyle(true)}
+      >
+        Replace ink with text
+      </button>
+    </>
+  );
+};
+
+export const RecognitionDialog = ({
+  text,
+  limits,
+  onKeepInk,
+  onReplaceInk,
+  onClose,
+}: RecognitionDialogProps) => (
+  <div
+    style={{
+      position: "fixed",
+      top: "50%",
+      left: "50%",
+      transform: "translate(-50%, -50%)",
+      width: 300,
+      backgroundColor: "rgba(255, 255, 255, 0.95)",
+      borderRadius: 20,
+      padding: 20,
+      display: "flex",
+      flexDirection: "column",
+      gap: 14,
+      boxShadow: "0 2px 20px rgba(0, 0, 0, 0.1)",
+      backdropFilter: "blur(10px)",
+      fontFamily: "-apple-system, BlinkMacSystemFont, sans-serif",
+      fontSize: 14,
+    }}
+  >
+    <div style={{ display: "flex", alignItems: "center" }}>
+      <strong style={{ flex: 1 }}>Convert to text</strong>
+      <button
+        onClick={onClose}
+        title="Close"
+        style={{ border: "none", background: "none", cursor: "pointer" }}
+      >
+        <X size={18} />
+      </button>
+    </div>
+    {text === null ? (
+      <div style={{ color: "#666" }}>Recognizing…</div>
+    ) : (
+      <RecognizedTextForm
+        text={text}
+        onKeepInk={onKeepInk}
+        onReplaceInk={onReplaceInk}
+      />
+    )}
+    {limits && <div style={{ color: "#666", fontSize: 12 }}>{limits}</div>}
+  </div>
+);
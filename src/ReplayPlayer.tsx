@@ -0,0 +1,161 @@
+import { Film, Pause, Play, X } from "lucide-react";
+import type { TimelapseFormat } from "./timelapse";
+
+interface ReplayPlayerProps {
+  time: number;
+  duration: number;
+  isPlaying: boolean;
+  speed: number;
+  // Between 0 and 1 while a timelapse is being exported.
+  exportProgress: number | null;
+  onPlayPause: () => void;
+  onSeek: (time: number) => void;
+  onSpeedChange: (speed: number) => void;
+  onExport: (format: TimelapseFormat) => void;
+  onClose: () => void;
+}
+
+const SPEEDS = [1, 2, 4, 8];
+
+const formatTime = (ms: number) => {
+  const seconds = Math.floor(ms / 1000);
+  return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, "0")}`;
+};
+
+const roundButtonStyle: React.CSSProperties = {
+  width: 40,
+  height: 40,
+  flexShrink: 0,
+  borderRadius: "50%",
+  border: "none",
+  backgroundColor: "#f0f0f0",
+  cursor: "pointer",
+  display: "flex",
+  alignItems: "center",
+  justifyContent: "center",
+};
+
+const chipStyle = (active: boolean): React.CSSProperties => ({
+  height: 28,
+  padding: "0 8px",
+  borderRadius: 8,
+  border: "none",
+  backgroundColor: active ? "#007AFF" : "#f0f0f0",
+  color: active ? "white" : "black",
+  cursor: "pointer",
+  fontSize: 12,
+  fontWeight: 600,
+  display: "flex",
+  alignItems: "center",
+  gap: 4,
+});
+
+// Stands in for the toolbar while the drawing is being replayed.
+export const ReplayPlayer = ({
+  time,
+  duration,
+  isPlaying,
+  speed,
+  exportProgress,
+  onPlayPause,
+  onSeek,
+  onSpeedChange,
+  onExport,
+  onClose,
+}: ReplayPlayerProps) => {
+  const isExporting = exportProgress !== null;
+
+  return (
+    <div
+      style={{
+        position: "fixed",
+        bottom: 20,
+        left: "50%",
+        transform: "translateX(-50%)",
+        width: "min(640px, calc(100vw - 40px))",
+        boxSizing: "border-box",
+        backgroundColor: "rgba(255, 255, 255, 0.95)",
+        borderRadius: 20,
+        padding: "10px 16px",
+        display: "flex",
+        flexWrap: "wrap",
+        alignItems: "center",
+        gap: 10,
+        boxShadow: "0 2px 20px rgba(0, 0, 0, 0.1)",
+        backdropFilter: "blur(10px)",
+        fontFamily: "-apple-system, BlinkMacSystemFont, sans-serif",
+        fontSize: 12,
+        userSelect: "none",
+        WebkitUserSelect: "none",
+      }}
+    >
+      <button
+        onClick={onPlayPause}
+        title={isPlaying ? "Pause" : "Play"}
+        style={{
+          ...roundButtonStyle,
+          backgroundColor: "#007AFF",
+          color: "white",
+        }}
+      >
+        {isPlaying ? <Pause size={18} /> : <Play size={18} />}
+      </button>
+      <input
+        type="range"
+        min={0}
+        max={duration}
+        value={time}
+        onChange={(e) => onSeek(Number(e.target.value))}
+        style={{ flex: 1, minWidth: 120 }}
+      />
+      <span style={{ color: "#666", fontVariantNumeric: "tabular-nums" }}>
+        {formatTime(time)} / {formatTime(duration)}
+      </span>
+      <div style={{ display: "flex", gap: 4 }}>
+        {SPEEDS.map((option) => (
+          <button
+            key={option}
+            onClick={() => onSpeedChange(option)}
+            style={chipStyle(option === speed)}
+          >
+            {option}×
+          </button>
+        ))}
+      </div>
+      <div style={{ display: "flex", gap: 4 }}>
+        {isExporting ? (
+          <span style={{ color: "#666" }}>
+            Exporting… {Math.round(exportProgress * 100)}%
+          </span>
+        ) : (
+          <>
+            <button
+              onClick={() => onExport("webm")}
+              title={`Export as WebM at ${speed}×`}
+              style={chipStyle(false)}
+            >
+              <Film size={14} />
+              WebM
+            </button>
+            <button
+              onClick={() => onExport("gif")}
+              title={`Export as GIF at ${speed}×`}
+              style={chipStyle(false)}
+            >
+              <Film size={14} />
+              GIF
+            </button>
+          </>
+        )}
+      </div>
+      <button
+        onClick={onClose}
+        title="Close replay"
+        disabled={isExporting}
+        style={{ ...roundButtonStyle, width: 32, height: 32 }}
+      >
+        <X size={16} />
+      </button>
+    </div>
+  );
+};
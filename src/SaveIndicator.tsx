@@ -0,0 +1,53 @@
+import { AlertTriangle, Check, Loader } from "lucide-react";
+import { saveErrorMessage, type SaveState } from "./autosave";
+
+interface SaveIndicatorProps {
+  saveState: SaveState;
+  onClick: () => void;
+}
+
+const LABELS = {
+  saved: "Saved",
+  saving: "Saving…",
+  failed: "Not saved",
+};
+
+// Shows whether the latest changes are in storage, and opens the versions.
+export const SaveIndicator = ({ saveState, onClick }: SaveIndicatorProps) => {
+  const failed = saveState.status === "failed";
+  const Icon = failed
+    ? AlertTriangle
+    : saveState.status === "saving"
+      ? Loader
+      : Check;
+
+  return (
+    <button
+      onClick={onClick}
+      title={failed ? saveErrorMessage(saveState) : "Versions"}
+      style={{
+        position: "fixed",
+        top: 20,
+        left: 20,
+        height: 28,
+        padding: "0 10px",
+        borderRadius: 14,
+        border: "none",
+        backgroundColor: failed ? "#FF3B30" : "rgba(255, 255, 255, 0.95)",
+        color: failed ? "white" : "#666",
+        boxShadow: "0 2px 20px rgba(0, 0, 0, 0.1)",
+        backdropFilter: "blur(10px)",
+        fontFamily: "-apple-system, BlinkMacSystemFont, sans-serif",
+        fontSize: 12,
+        fontWeight: failed ? 600 : 400,
+        cursor: "pointer",
+        display: "flex",
+        alignItems: "center",
+        gap: 6,
+      }}
+    >
+      <Icon size={14} />
+      {saveState.quotaExceeded ? "Storage full" : LABELS[saveState.status]}
+    </button>
+  );
+};
@@ -0,0 +1,297 @@
+import { ClipboardPaste, Copy, CopyPlus, Trash2, Type } from "lucide-react";
+import {
+  applyMatrix,
+  IDENTITY,
+  rotateAbout,
+  scaleAbout,
+  translate,
+  type Matrix,
+} from "./matrix";
+import type { Bounds } from "./selection";
+import type { Point } from "./types";
+import { screenToWorld, type View } from "./viewport";
+
+interface SelectionOverlayProps {
+  view: View;
+  lasso: Point[] | null;
+  bounds: Bounds | null;
+  matrix: Matrix;
+  canPaste: boolean;
+  // Explains why the selection can't be converted to text, if it can't.
+  convertToTextUnavailable: string | null;
+  onTransform: (matrix: Matrix) => void;
+  onTransformEnd: (matrix: Matrix) => void;
+  onCopy: () => void;
+  onDuplicate: () => void;
+  onPaste: () => void;
+  onConvertToText: () => void;
+  onDelete: () => void;
+}
+
+const HANDLE_RADIUS = 7;
+const ROTATE_HANDLE_DISTANCE = 28;
+const ROTATE_SNAP = Math.PI / 12;
+const MIN_SCALE = 0.05;
+
+const actionButtonStyle = (enabled: boolean): React.CSSProperties => ({
+  width: 36,
+  height: 36,
+  borderRadius: "50%",
+  border: "none",
+  backgroundColor: "#f0f0f0",
+  cursor: enabled ? "pointer" : "default",
+  opacity: enabled ? 1 : 0.4,
+  display: "flex",
+  alignItems: "center",
+  justifyContent: "center",
+});
+
+// Draws the lasso while it is being dragged out and the transform box around
+// the selection. Handle drags report a world-space matrix relative to where
+// the drag started; the canvas previews it and commits it on release.
+export const SelectionOverlay = ({
+  view,
+  lasso,
+  bounds,
+  matrix,
+  canPaste,
+  convertToTextUnavailable,
+  onTransform,
+  onTransformEnd,
+  onCopy,
+  onDuplicate,
+  onPaste,
+  onConvertToText,
+  onDelete,
+}: SelectionOverlayProps) => {
+  const toScreen = (point: { x: number; y: number }) => ({
+    x: point.x * view.zoom + view.x,
+    y: point.y * view.zoom + view.y,
+  });
+
+  const startDrag = (
+    e: React.PointerEvent,
+    toMatrix: (start: Point, current: Point, snap: boolean) => Matrix
+  ) => {
+    e.preventDefault();
+    e.stopPropagation();
+    const start = screenToWorld(view, e.clientX, e.clientY);
+    let current = IDENTITY;
+
+    const handlePointerMove = (event: PointerEvent) => {
+      if (event.pointerId !== e.pointerId) return;
+      current = toMatrix(
+        start,
+        screenToWorld(view, event.clientX, event.clientY),
+        event.shiftKey
+      );
+      onTransform(current);
+    };
+
+    const handlePointerUp = (event: PointerEvent) => {
+      if (event.pointerId !== e.pointerId) return;
+      document.removeEventListener("pointermove", handlePointerMove);
+      document.removeEventListener("pointerup", handlePointerUp);
+      document.removeEventListener("pointercancel", handlePointerUp);
+      onTransformEnd(current);
+    };
+
+    document.addEventListener("pointermove", handlePointerMove);
+    document.addEventListener("pointerup", handlePointerUp);
+    document.addEventListener("pointercancel", handlePointerUp);
+  };
+
+  const corners = bounds
+    ? [
+        { x: bounds.minX, y: bounds.minY },
+        { x: bounds.maxX, y: bounds.minY },
+        { x: bounds.maxX, y: bounds.maxY },
+        { x: bounds.minX, y: bounds.maxY },
+      ]
+    : [];
+  const screenCorners = corners.map((corner) =>
+    toScreen(applyMatrix(matrix, corner))
+  );
+
+  let rotateHandle: { x: number; y: number } | null = null;
+  if (screenCorners.length > 0) {
+    const [topLeft, topRight] = screenCorners;
+    const dx = topRight.x - topLeft.x;
+    const dy = topRight.y - topLeft.y;
+    const length = Math.max(1, Math.hypot(dx, dy));
+    rotateHandle = {
+      x: (topLeft.x + topRight.x) / 2 + (dy / length) * ROTATE_HANDLE_DISTANCE,
+      y: (topLeft.y + topRight.y) / 2 - (dx / length) * ROTATE_HANDLE_DISTANCE,
+    };
+  }
+
+  const center = bounds && {
+    x: (bounds.minX + bounds.maxX) / 2,
+    y: (bounds.minY + bounds.maxY) / 2,
+  };
+
+  const actionBarPosition =
+    screenCorners.length > 0
+      ? {
+          left: Math.min(...screenCorners.map((corner) => corner.x)),
+          top: Math.max(
+            10,
+            Math.min(...screenCorners.map((corner) => corner.y)) - 100
+          ),
+        }
+      : { left: "50%", top: 20, transform: "translateX(-50%)" };
+
+  return (
+    <>
+      <svg
+        style={{
+          position: "fixed",
+          top: 0,
+          left: 0,
+          width: "100%",
+          height: "100%",
+          pointerEvents: "none",
+          touchAction: "none",
+        }}
+      >
+        {lasso && (
+          <polyline
+            points={lasso
+              .map(toScreen)
+              .map((point) => `${point.x},${point.y}`)
+              .join(" ")}
+            fill="rgba(0, 122, 255, 0.05)"
+            stroke="#007AFF"
+            strokeWidth={1.5}
+            strokeDasharray="6 4"
+          />
+        )}
+        {bounds && center && rotateHandle && (
+          <>
+            <polygon
+              points={screenCorners
+                .map((corner) => `${corner.x},${corner.y}`)
+                .join(" ")}
+              fill="rgba(0, 122, 255, 0.04)"
+              stroke="#007AFF"
+              strokeWidth={1.5}
+              style={{ pointerEvents: "all", cursor: "move" }}
+              onPointerDown={(e) =>
+                startDrag(e, (start, current) =>
+                  translate(current.x - start.x, current.y - start.y)
+                )
+              }
+            />
+            <line
+              x1={(screenCorners[0].x + screenCorners[1].x) / 2}
+              y1={(screenCorners[0].y + screenCorners[1].y) / 2}
+              x2={rotateHandle.x}
+              y2={rotateHandle.y}
+              stroke="#007AFF"
+              strokeWidth={1.5}
+            />
+            <circle
+              cx={rotateHandle.x}
+              cy={rotateHandle.y}
+              r={HANDLE_RADIUS}
+              fill="#007AFF"
+              style={{ pointerEvents: "all", cursor: "grab" }}
+              onPointerDown={(e) =>
+                startDrag(e, (start, current, snap) => {
+                  let angle =
+                    Math.atan2(current.y - center.y, current.x - center.x) -
+                    Math.atan2(start.y - center.y, start.x - center.x);
+                  // Shift snaps to 15 degree steps.
+                  if (snap) angle = Math.round(angle / ROTATE_SNAP) * ROTATE_SNAP;
+                  return rotateAbout(center, angle);
+                })
+              }
+            />
+            {screenCorners.map((corner, i) => (
+              <circle
+                key={i}
+                cx={corner.x}
+                cy={corner.y}
+                r={HANDLE_RADIUS}
+                fill="white"
+                stroke="#007AFF"
+                strokeWidth={2}
+                style={{
+                  pointerEvents: "all",
+                  cursor: i % 2 === 0 ? "nwse-resize" : "nesw-resize",
+                }}
+                onPointerDown={(e) =>
+                  // Scales uniformly about the opposite corner.
+                  startDrag(e, (start, current) => {
+                    const anchor = corners[(i + 2) % 4];
+                    const from = { x: start.x - anchor.x, y: start.y - anchor.y };
+                    const to = { x: current.x - anchor.x, y: current.y - anchor.y };
+                    const scale =
+                      (from.x * to.x + from.y * to.y) /
+                      Math.max(1e-6, from.x * from.x + from.y * from.y);
+                    return scaleAbout(anchor, Math.max(MIN_SCALE, scale));
+                  })
+                }
+              />
+            ))}
+          </>
+        )}
+      </svg>
+
+      <div
+        style={{
+          position: "fixed",
+          ...actionBarPosition,
+          backgroundColor: "rgba(255, 255, 255, 0.95)",
+          borderRadius: 20,
+          padding: 6,
+          display: "flex",
+          gap: 6,
+          boxShadow: "0 2px 20px rgba(0, 0, 0, 0.1)",
+          backdropFilter: "blur(10px)",
+        }}
+      >
+        <button
+          onClick={onCopy}
+          disabled={!bounds}
+          title="Copy"
+          style={actionButtonStyle(!!bounds)}
+        >
+          <Copy size={16} />
+        </button>
+        <button
+          onClick={onDuplicate}
+          disabled={!bounds}
+          title="Duplicate"
+          style={actionButtonStyle(!!bounds)}
+        >
+          <CopyPlus size={16} />
+        </button>
+        <button
+          onClick={onPaste}
+          disabled={!canPaste}
+          title="Paste"
+          style={actionButtonStyle(canPaste)}
+        >
+          <ClipboardPaste size={16} />
+        </button>
+        <button
+          onClick={onConvertToText}
+          disabled={!bounds || !!convertToTextUnavailable}
+          title={convertToTextUnavailable ?? "Convert to text"}
+          style={actionButtonStyle(!!bounds && !convertToTextUnavailable)}
+        >
+          <Type size={16} />
+        </button>
+        <button
+          onClick={onDelete}
+          disabled={!bounds}
+          title="Delete"
+          style={{ ...actionButtonStyle(!!bounds), color: "#ff0000" }}
+        >
+          <Trash2 size={16} />
+        </button>
+      </div>
+    </>
+  );
+};
@@ -0,0 +1,211 @@
+import { useState } from "react";
+import { Link, X } from "lucide-react";
+import {
+  DEFAULT_RELAY_URL,
+  peerColor,
+  type RemotePeer,
+  type SessionStatus,
+} from "./collab";
+
+interface SessionPanelProps {
+  // The room this drawing is shared in, if any.
+  session: { room: string; status: SessionStatus } | null;
+  peers: Record<string, RemotePeer>;
+  name: string;
+  relayUrl: string;
+  onNameChange: (name: string) => void;
+  onRelayUrlChange: (url: string) => void;
+  onJoin: (room: string) => void;
+  onLeave: () => void;
+  onClose: () => void;
+}
+
+const STATUS_LABELS: Record<SessionStatus, string> = {
+  connecting: "Connecting…",
+  connected: "Connected",
+  offline: "Offline, reconnecting…",
+};
+
+const labelStyle: React.CSSProperties = { width: 56, color: "#666" };
+
+const inputStyle: React.CSSProperties = {
+  flex: 1,
+  minWidth: 0,
+  height: 28,
+  borderRadius: 6,
+  border: "1px solid #ddd",
+  padding: "0 8px",
+  fontSize: 13,
+};
+
+const buttonStyle = (primary: boolean): React.CSSProperties => ({
+  flex: 1,
+  height: 32,
+  borderRadius: 8,
+  border: "none",
+  backgroundColor: primary ? "#007AFF" : "#f0f0f0",
+  color: primary ? "white" : "black",
+  cursor: "pointer",
+  fontSize: 12,
+  fontWeight: 600,
+  display: "flex",
+  alignItems: "center",
+  justifyContent: "center",
+  gap: 6,
+});
+
+const randomRoom = () => Math.random().toString(36).slice(2, 8);
+
+// Opens the room in a new drawing, through the same relay.
+const sessionLink = (room: string, relayUrl: string) => {
+  const params = new URLSearchParams({ room });
+  if (relayUrl) params.set("relay", relayUrl);
+  return `${window.location.origin}${window.location.pathname}?${params}`;
+};
+
+export const SessionPanel = ({
+  session,
+  peers,
+  name,
+  relayUrl,
+  onNameChange,
+  onRelayUrlChange,
+  onJoin,
+  onLeave,
+  onClose,
+}: SessionPanelProps) => {
+  const [room, setRoom] = useState(randomRoom);
+
+  const copyLink = async (shared: string) => {
+    try {
+      await navigator.clipboard.writeText(sessionLink(shared, relayUrl));
+    } catch (error) {
+      console.error("Failed to copy session link:", error);
+    }
+  };
+
+  return (
+    <div
+      style={{
+        position: "fixed",
+        top: 20,
+        right: 20,
+        width: 260,
+        boxSizing: "border-box",
+        backgroundColor: "rgba(255, 255, 255, 0.95)",
+        borderRadius: 20,
+        padding: 16,
+        display: "flex",
+        flexDirection: "column",
+        gap: 12,
+        boxShadow: "0 2px 20px rgba(0, 0, 0, 0.1)",
+        backdropFilter: "blur(10px)",
+        fontFamily: "-apple-system, BlinkMacSystemFont, sans-serif",
+        fontSize: 14,
+      }}
+    >
+      <div style={{ display: "flex", alignItems: "center" }}>
+        <strong style={{ flex: 1 }}>Shared session</strong>
+        <button
+          onClick={onClose}
+          title="Close"
+          style={{ border: "none", background: "none", cursor: "pointer" }}
+        >
+          <X size={16} />
+        </button>
+      </div>
+
+      {session ? (
+        <>
+          <div>
+            <div>
+              Room <strong>{session.room}</strong>
+            </div>
+            <div style={{ fontSize: 12, color: "#666" }}>
+              {STATUS_LABELS[session.status]}
+            </div>
+          </div>
+          <div style={{ display: "flex", flexDirection: "column", gap: 6 }}>
+            <div style={{ display: "flex", alignItems: "center", gap: 8 }}>
+              <span
+                style={{
+                  width: 10,
+                  height: 10,
+                  borderRadius: "50%",
+                  backgroundColor: "#8E8E93",
+                }}
+              />
+              {name || "Guest"} (you)
+            </div>
+            {Object.entries(peers).map(([peer, { name }]) => (
+              <div
+                key={peer}
+                style={{ display: "flex", alignItems: "center", gap: 8 }}
+              >
+                <span
+                  style={{
+                    width: 10,
+                    height: 10,
+                    borderRadius: "50%",
+                    backgroundColor: peerColor(peer),
+                  }}
+                />
+                {name}
+              </div>
+            ))}
+          </div>
+          <div style={{ display: "flex", gap: 6 }}>
+            <button
+              onClick={() => copyLink(session.room)}
+              style={buttonStyle(false)}
+            >
+              <Link size={14} />
+              Copy link
+            </button>
+            <button onClick={onLeave} style={buttonStyle(false)}>
+              Leave
+            </button>
+          </div>
+        </>
+      ) : (
+        <>
+          <label style={{ display: "flex", alignItems: "center", gap: 8 }}>
+            <span style={labelStyle}>Name</span>
+            <input
+              value={name}
+              placeholder="Guest"
+              onChange={(e) => onNameChange(e.target.value)}
+              style={inputStyle}
+            />
+          </label>
+          <label style={{ display: "flex", alignItems: "center", gap: 8 }}>
+            <span style={labelStyle}>Room</span>
+            <input
+              value={room}
+              onChange={(e) => setRoom(e.target.value)}
+              style={inputStyle}
+            />
+          </label>
+          <label style={{ display: "flex", alignItems: "center", gap: 8 }}>
+            <span style={labelStyle}>Relay</span>
+            <input
+              value={relayUrl}
+              placeholder={DEFAULT_RELAY_URL}
+              onChange={(e) => onRelayUrlChange(e.target.value)}
+              style={inputStyle}
+            />
+          </label>
+          <div style={{ fontSize: 12, color: "#666" }}>
+            Joining a room that already has a drawing replaces this one.
+          </div>
+          <button
+            onClick={() => room.trim() && onJoin(room.trim())}
+            style={buttonStyle(true)}
+          >
+            Join
+          </button>
+        </>
+      )}
+    </div>
+  );
+};
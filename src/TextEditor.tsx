@@ -0,0 +1,63 @@
+import { TEXT_LINE_HEIGHT, textFont, textLayout } from "./text";
+import type { Stroke, TextBox } from "./types";
+import type { View } from "./viewport";
+
+interface TextEditorProps {
+  view: View;
+  stroke: Stroke;
+  text: TextBox;
+  onChange: (content: string) => void;
+  onClose: () => void;
+}
+
+// A textarea laid over the text box being edited, matching its font, zoom
+// and rotation so the label doesn't jump when editing ends. The canvas hides
+// the stroke while it is open.
+export const TextEditor = ({
+  view,
+  stroke,
+  text,
+  onChange,
+  onClose,
+}: TextEditorProps) => {
+  const { origin, rotation, width, height } = textLayout(stroke);
+
+  return (
+    <textarea
+      autoFocus
+      value={text.content}
+      placeholder="Text"
+      spellCheck={false}
+      onChange={(e) => onChange(e.target.value)}
+      onKeyDown={(e) => {
+        if (e.key === "Escape" || (e.key === "Enter" && (e.metaKey || e.ctrlKey))) {
+          e.preventDefault();
+          onClose();
+        }
+      }}
+      style={{
+        position: "fixed",
+        left: view.x + origin.x * view.zoom,
+        top: view.y + origin.y * view.zoom,
+        // A couple of pixels past the measured width keep the caret visible.
+        width: width + 2,
+        height,
+        transform: `rotate(${rotation}rad) scale(${view.zoom})`,
+        transformOrigin: "0 0",
+        margin: 0,
+        padding: 0,
+        border: "none",
+        outline: "1px dashed #007AFF",
+        background: "transparent",
+        color: stroke.color,
+        opacity: stroke.opacity / 100,
+        font: textFont(text.fontSize),
+        lineHeight: TEXT_LINE_HEIGHT,
+        textAlign: text.align,
+        whiteSpace: "pre",
+        overflow: "hidden",
+        resize: "none",
+      }}
+    />
+  );
+};
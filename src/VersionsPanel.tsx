@@ -0,0 +1,164 @@
+import { History, Trash2, X } from "lucide-react";
+import { saveErrorMessage, type SaveState } from "./autosave";
+import type { SnapshotSummary } from "./types";
+
+interface VersionsPanelProps {
+  saveState: SaveState;
+  snapshots: SnapshotSummary[];
+  onRetrySave: () => void;
+  onSaveVersion: () => void;
+  onRestore: (snapshot: SnapshotSummary) => void;
+  onDelete: (snapshot: SnapshotSummary) => void;
+  onClose: () => void;
+}
+
+const buttonStyle = (primary: boolean): React.CSSProperties => ({
+  height: 32,
+  padding: "0 12px",
+  borderRadius: 8,
+  border: "none",
+  backgroundColor: primary ? "#007AFF" : "#f0f0f0",
+  color: primary ? "white" : "black",
+  cursor: "pointer",
+  fontSize: 12,
+  fontWeight: 600,
+  display: "flex",
+  alignItems: "center",
+  justifyContent: "center",
+  gap: 6,
+});
+
+const formatTime = (time: number) =>
+  new Date(time).toLocaleString(undefined, {
+    dateStyle: "medium",
+    timeStyle: "short",
+  });
+
+// Versions are saved every few minutes while drawing. Restoring one is a
+// step in the history like any other, so it can be undone.
+export const VersionsPanel = ({
+  saveState,
+  snapshots,
+  onRetrySave,
+  onSaveVersion,
+  onRestore,
+  onDelete,
+  onClose,
+}: VersionsPanelProps) => (
+  <div
+    style={{
+      position: "fixed",
+      top: 20,
+      right: 20,
+      width: 260,
+      maxHeight: "calc(100vh - 140px)",
+      boxSizing: "border-box",
+      backgroundColor: "rgba(255, 255, 255, 0.95)",
+      borderRadius: 20,
+      padding: 16,
+      display: "flex",
+      flexDirection: "column",
+      gap: 12,
+      boxShadow: "0 2px 20px rgba(0, 0, 0, 0.1)",
+      backdropFilter: "blur(10px)",
+      fontFamily: "-apple-system, BlinkMacSystemFont, sans-serif",
+      fontSize: 14,
+    }}
+  >
+    <div style={{ display: "flex", alignItems: "center" }}>
+      <strong style={{ flex: 1 }}>Versions</strong>
+      <button
+        onClick={onClose}
+        title="Close"
+        style={{ border: "none", background: "none", cursor: "pointer" }}
+      >
+        <X size={16} />
+      </button>
+    </div>
+
+    {saveState.status === "failed" && (
+      <div
+        style={{
+          display: "flex",
+          flexDirection: "column",
+          gap: 8,
+          padding: 10,
+          borderRadius: 8,
+          backgroundColor: "#FFF0EF",
+          color: "#C4271D",
+          fontSize: 12,
+        }}
+      >
+        {saveErrorMessage(saveState)}
+        <button onClick={onRetrySave} style={buttonStyle(false)}>
+          Try again
+        </button>
+      </div>
+    )}
+
+    <button
+      onClick={onSaveVersion}
+      disabled={saveState.status === "failed"}
+      style={buttonStyle(true)}
+    >
+      <History size={14} />
+      Save version now
+    </button>
+
+    <div
+      style={{
+        display: "flex",
+        flexDirection: "column",
+        gap: 8,
+        overflowY: "auto",
+      }}
+    >
+      {snapshots.length === 0 && (
+        <div style={{ fontSize: 12, color: "#666" }}>
+          No versions yet. One is saved every few minutes while you draw.
+        </div>
+      )}
+      {snapshots.map((snapshot) => (
+        <div
+          key={snapshot.id}
+          style={{ display: "flex", alignItems: "center", gap: 8 }}
+        >
+          <div
+            style={{
+              width: 64,
+              height: 48,
+              flexShrink: 0,
+              borderRadius: 6,
+              overflow: "hidden",
+              backgroundColor: "#f0f0f0",
+            }}
+          >
+            {snapshot.thumbnail && (
+              <img
+                src={snapshot.thumbnail}
+                alt=""
+                style={{ width: "100%", height: "100%", objectFit: "cover" }}
+              />
+            )}
+          </div>
+          <span style={{ flex: 1, fontSize: 12 }}>
+            {formatTime(snapshot.createdAt)}
+          </span>
+          <button
+            onClick={() => onRestore(snapshot)}
+            style={buttonStyle(false)}
+          >
+            Restore
+          </button>
+          <button
+            onClick={() => onDelete(snapshot)}
+            title="Delete version"
+            style={{ border: "none", background: "none", cursor: "pointer" }}
+          >
+            <Trash2 size={14} />
+          </button>
+        </div>
+      ))}
+    </div>
+  </div>
+);
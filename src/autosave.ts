@@ -0,0 +1,186 @@
+import {
+  createSnapshot,
+  isQuotaError,
+  listSnapshots,
+  updateDrawing,
+  type DrawingUpdate,
+} from "./storage";
+import type { SnapshotSummary } from "./types";
+
+export type SaveStatus = "saved" | "saving" | "failed";
+
+export interface SaveState {
+  status: SaveStatus;
+  // Set while writes fail because the browser's storage for the app is full.
+  quotaExceeded: boolean;
+}
+
+export interface Autosaver {
+  save: (changes: DrawingUpdate) => void;
+  // Writes whatever is waiting now, after the write in progress.
+  flush: () => Promise<void>;
+  // Saves a version of the drawing as it is after the pending changes.
+  snapshot: () => Promise<SnapshotSummary | null>;
+  hasUnsavedChanges: () => boolean;
+  // Stops reporting and writes what is left. A write that fails keeps being
+  // retried until the drawing is opened again, since nothing else would
+  // save it.
+  dispose: () => Promise<void>;
+}
+
+export const saveErrorMessage = ({ quotaExceeded }: SaveState) =>
+  quotaExceeded
+    ? "Storage is full, so changes aren't being saved. Delete drawings or versions you no longer need, or save this drawing to a file."
+    : "Changes couldn't be saved. Retrying…";
+
+// Changes arriving within this long of each other share one write, so a
+// burst of strokes is saved about once a second rather than every stroke.
+const SAVE_INTERVAL = 1000;
+const RETRY_DELAY = 5000;
+// A version is saved with the first write this long after the last one.
+const SNAPSHOT_INTERVAL = 5 * 60 * 1000;
+
+// How many autosavers each drawing has had. An autosaver that is no longer
+// the latest for its drawing stops retrying: the newer one loaded the
+// drawing without its changes and saves over them, so a late retry would
+// only undo the newer edits.
+const generations = new Map<string, number>();
+// The last writes of autosavers that have been disposed, by drawing.
+const closing = new Map<string, Promise<void>>();
+
+// Resolves once the autosavers that closed the drawing have written what
+// they had, so opening it again loads their changes.
+export const whenSaved = async (drawingId: string) => {
+  await closing.get(drawingId);
+};
+
+// Saves one drawing's changes in the order they were made, one write at a
+// time. Changes made while a write is in progress are merged and written
+// next; a write that fails keeps its changes to retry with the ones after it.
+export const createAutosaver = (
+  drawingId: string,
+  onStateChange: (state: SaveState) => void,
+  onSnapshot: (snapshot: SnapshotSummary) => void
+): Autosaver => {
+  let pending: DrawingUpdate | null = null;
+  let writing = false;
+  let queue = Promise.resolve();
+  let timer: ReturnType<typeof setTimeout> | null = null;
+  let state: SaveState = { status: "saved", quotaExceeded: false };
+  let disposed = false;
+  let changedSinceSnapshot = false;
+  let lastSnapshotAt: number | null = null;
+  const generation = (generations.get(drawingId) ?? 0) + 1;
+  generations.set(drawingId, generation);
+  const superseded = () => generations.get(drawingId) !== generation;
+  const snapshotsListed = listSnapshots(drawingId).then(([latest]) => {
+    lastSnapshotAt = latest?.createdAt ?? null;
+  });
+
+  const report = (next: SaveState) => {
+    state = next;
+    if (!disposed) onStateChange(state);
+  };
+
+  const schedule = (delay: number, task: () => void = run) => {
+    timer ??= setTimeout(task, delay);
+  };
+
+  const takeSnapshot = async () => {
+    const snapshot = await createSnapshot(drawingId);
+    lastSnapshotAt = Date.now();
+    changedSinceSnapshot = false;
+    if (snapshot && !disposed) onSnapshot(snapshot);
+    return snapshot;
+  };
+
+  const snapshotIfDue = async () => {
+    await snapshotsListed;
+    if (!changedSinceSnapshot) return;
+    if (lastSnapshotAt && Date.now() - lastSnapshotAt < SNAPSHOT_INTERVAL) {
+      return;
+    }
+    try {
+      await takeSnapshot();
+    } catch (error) {
+      console.error("Failed to save version:", error);
+    }
+  };
+
+  const write = async () => {
+    timer = null;
+    if (!pending) return;
+    const changes = pending;
+    pending = null;
+    writing = true;
+    if (state.status !== "failed") report({ ...state, status: "saving" });
+    try {
+      await updateDrawing(drawingId, changes);
+      if (changes.history) changedSinceSnapshot = true;
+      report({
+        status: pending ? "saving" : "saved",
+        quotaExceeded: false,
+      });
+      await snapshotIfDue();
+    } catch (error) {
+      console.error("Failed to save drawing:", error);
+      // Changes made during the write win over the ones that failed.
+      pending = Object.assign({}, changes, pending);
+      report({ status: "failed", quotaExceeded: isQuotaError(error) });
+      schedule(RETRY_DELAY, retry);
+    } finally {
+      writing = false;
+    }
+    if (pending) schedule(SAVE_INTERVAL);
+  };
+
+  const run = () => {
+    queue = queue.then(write);
+    return queue;
+  };
+
+  const retry = () => {
+    timer = null;
+    if (disposed && superseded()) {
+      pending = null;
+      return;
+    }
+    run();
+  };
+
+  const flush = () => {
+    if (timer) clearTimeout(timer);
+    timer = null;
+    return run();
+  };
+
+  return {
+    save: (changes) => {
+      pending = { ...pending, ...changes };
+      if (state.status === "saved") report({ ...state, status: "saving" });
+      schedule(SAVE_INTERVAL);
+    },
+
+    flush,
+
+    snapshot: async () => {
+      await flush();
+      if (pending) throw new Error("The drawing couldn't be saved.");
+      return takeSnapshot();
+    },
+
+    hasUnsavedChanges: () => pending !== null || writing,
+
+    dispose: async () => {
+      disposed = true;
+      const done = flush();
+      closing.set(drawingId, done);
+      await done;
+      if (closing.get(drawingId) === done) closing.delete(drawingId);
+      if (timer && superseded()) {
+        clearTimeout(timer);
+        timer = null;
+      }
+    },
+  };
+};
@@ -0,0 +1,146 @@
+import type { PDFDocumentProxy } from "pdfjs-dist";
+import type { Background } from "./types";
+import type { View } from "./viewport";
+
+// A background with its image decoded, ready to draw.
+export interface BackgroundImage extends Background {
+  image: HTMLImageElement;
+}
+
+// Imported backgrounds are fitted inside this share of the visible area.
+const FIT_MARGIN = 0.9;
+
+// PDF pages are rendered at this many device pixels per CSS pixel, capped so
+// the longer side stays within what textures and canvases handle everywhere.
+const PDF_RENDER_SCALE = 3;
+const MAX_PDF_RENDER_SIZE = 4096;
+
+// PDF user space is in points; CSS pixels are 1/96 of an inch.
+const PDF_POINTS_TO_PIXELS = 96 / 72;
+
+export const isPdfFile = (file: Blob) => file.type === "application/pdf";
+
+export const isBackgroundFile = (file: Blob) =>
+  file.type.startsWith("image/") || isPdfFile(file);
+
+export const decodeBackground = async (
+  background: Background
+): Promise<BackgroundImage> => {
+  const url = URL.createObjectURL(background.blob);
+  try {
+    const image = new Image();
+    image.src = url;
+    await image.decode();
+    return { ...background, image };
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+};
+
+// Drops the decoded image, for storage.
+export const storedBackground = ({
+  blob,
+  x,
+  y,
+  width,
+  height,
+}: BackgroundImage): Background => ({ blob, x, y, width, height });
+
+// Places a new background centered in the visible area. Images keep their
+// size in CSS pixels unless they would not fit.
+export const createBackground = async (
+  blob: Blob,
+  view: View,
+  viewport: { width: number; height: number },
+  pixelRatio: number
+): Promise<BackgroundImage> => {
+  const decoded = await decodeBackground({ blob, x: 0, y: 0, width: 0, height: 0 });
+  const naturalWidth = decoded.image.naturalWidth / pixelRatio;
+  const naturalHeight = decoded.image.naturalHeight / pixelRatio;
+  const visibleWidth = viewport.width / view.zoom;
+  const visibleHeight = viewport.height / view.zoom;
+  const scale = Math.min(
+    1,
+    (visibleWidth * FIT_MARGIN) / naturalWidth,
+    (visibleHeight * FIT_MARGIN) / naturalHeight
+  );
+  const width = naturalWidth * scale;
+  const height = naturalHeight * scale;
+  return {
+    ...decoded,
+    x: (viewport.width / 2 - view.x) / view.zoom - width / 2,
+    y: (viewport.height / 2 - view.y) / view.zoom - height / 2,
+    width,
+    height,
+  };
+};
+
+// pdf.js is only loaded once a PDF is picked.
+const loadPdfJs = async () => {
+  const [pdfjs, worker] = await Promise.all([
+    import("pdfjs-dist"),
+    import("pdfjs-dist/build/pdf.worker.min.mjs?url"),
+  ]);
+  pdfjs.GlobalWorkerOptions.workerSrc = worker.default;
+  return pdfjs;
+};
+
+export const openPdf = async (file: Blob): Promise<PDFDocumentProxy> => {
+  const pdfjs = await loadPdfJs();
+  return pdfjs.getDocument({ data: await file.arrayBuffer() }).promise;
+};
+
+// Renders a page onto a canvas whose longer side is at most `maxSize`
+// pixels. `pixelRatio` is how many of them there are per CSS pixel of the
+// printed page.
+export const renderPdfPage = async (
+  pdf: PDFDocumentProxy,
+  pageNumber: number,
+  maxSize = MAX_PDF_RENDER_SIZE
+): Promise<{ canvas: HTMLCanvasElement; pixelRatio: number }> => {
+  const page = await pdf.getPage(pageNumber);
+  const size = page.getViewport({ scale: PDF_POINTS_TO_PIXELS });
+  const pixelRatio = Math.min(
+    PDF_RENDER_SCALE,
+    maxSize / Math.max(size.width, size.height)
+  );
+  const viewport = page.getViewport({
+    scale: PDF_POINTS_TO_PIXELS * pixelRatio,
+  });
+  const canvas = document.createElement("canvas");
+  canvas.width = Math.round(viewport.width);
+  canvas.height = Math.round(viewport.height);
+  const ctx = canvas.getContext("2d");
+  if (!ctx) throw new Error("2D canvas not supported");
+  // Pages without a background of their own would otherwise be transparent.
+  ctx.fillStyle = "#FFFFFF";
+  ctx.fillRect(0, 0, canvas.width, canvas.height);
+  await page.render({ canvas, viewport }).promise;
+  page.cleanup();
+  return { canvas, pixelRatio };
+};
+
+// Rendered pages are stored as PNGs so the document doesn't depend on the
+// PDF or pdf.js once imported.
+export const pdfPageToBlob = async (
+  pdf: PDFDocumentProxy,
+  pageNumber: number
+): Promise<{ blob: Blob; pixelRatio: number }> => {
+  const { canvas, pixelRatio } = await renderPdfPage(pdf, pageNumber);
+  const blob = await new Promise<Blob>((resolve, reject) =>
+    canvas.toBlob(
+      (result) =>
+        result ? resolve(result) : reject(new Error("Failed to encode PDF page")),
+      "image/png"
+    )
+  );
+  return { blob, pixelRatio };
+};
+
+export const blobToDataUrl = (blob: Blob): Promise<string> =>
+  new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
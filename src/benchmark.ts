@@ -0,0 +1,107 @@
+import { DEFAULT_LAYERS } from "./layers";
+import { createStrokeRenderer } from "./renderer";
+import { tessellateStroke } from "./tessellate";
+import type { Point, Stroke } from "./types";
+import { DEFAULT_VIEW } from "./viewport";
+
+const BENCHMARK_WIDTH = 1920;
+const BENCHMARK_HEIGHT = 1080;
+const POINTS_PER_STROKE = 60;
+const REDRAW_RUNS = 10;
+
+// A small seeded generator keeps the synthetic document identical between
+// runs, so timings are comparable.
+const createRandom = (seed: number) => () => {
+  seed = (seed * 1664525 + 1013904223) % 4294967296;
+  return seed / 4294967296;
+};
+
+export const createSyntheticStrokes = (count: number): Stroke[] => {
+  const random = createRandom(42);
+  const colors = ["#000000", "#007AFF", "#34C759", "#FFCC00", "#FF3B30"];
+
+  return Array.from({ length: count }, (_, i) => {
+    const isPen = random() > 0.2;
+    const hasPressure = random() > 0.5;
+    let x = random() * BENCHMARK_WIDTH;
+    let y = random() * BENCHMARK_HEIGHT;
+    let angle = random() * Math.PI * 2;
+    const points: Point[] = [];
+    for (let j = 0; j < POINTS_PER_STROKE; j++) {
+      angle += (random() - 0.5) * 0.6;
+      x += Math.cos(angle) * 4;
+      y += Math.sin(angle) * 4;
+      points.push(
+        hasPressure ? { x, y, pressure: 0.3 + random() * 0.5 } : { x, y }
+      );
+    }
+    return {
+      id: `benchmark-${i}`,
+      points,
+      color: colors[Math.floor(random() * colors.length)],
+      tool: isPen ? "pen" : "highlighter",
+      lineWidth: 1 + Math.floor(random() * 12),
+      opacity: isPen ? 100 : 10,
+    };
+  });
+};
+
+const time = (run: () => void) => {
+  const start = performance.now();
+  run();
+  return performance.now() - start;
+};
+
+// Times tessellation, the first draw (which uploads every stroke's buffer)
+// and cached redraws of a synthetic document. Open the dev server with
+// `?benchmark` or `?benchmark=<strokes>` to run it.
+export const runRenderBenchmark = (strokeCount = 5000) => {
+  const strokes = createSyntheticStrokes(strokeCount);
+  const layers = [{ layer: DEFAULT_LAYERS[0], strokes }];
+  const canvas = document.createElement("canvas");
+  canvas.width = BENCHMARK_WIDTH;
+  canvas.height = BENCHMARK_HEIGHT;
+  const gl = canvas.getContext("webgl2", { antialias: true, stencil: true });
+  const renderer = gl && createStrokeRenderer(gl);
+  if (!gl || !renderer) {
+    console.error("WebGL2 not supported");
+    return null;
+  }
+
+  // Reading a pixel back waits for the GPU to finish the queued draws.
+  const sync = () =>
+    gl.readPixels(0, 0, 1, 1, gl.RGBA, gl.UNSIGNED_BYTE, new Uint8Array(4));
+
+  renderer.resize(BENCHMARK_WIDTH, BENCHMARK_HEIGHT, 1);
+  renderer.setView(DEFAULT_VIEW);
+
+  let vertexCount = 0;
+  const tessellation = time(() => {
+    strokes.forEach((stroke) => {
+      vertexCount += tessellateStroke(stroke).length / 3;
+    });
+  });
+  const firstDraw = time(() => {
+    renderer.drawLayers(layers);
+    sync();
+  });
+  const redraw =
+    Array.from({ length: REDRAW_RUNS }, () =>
+      time(() => {
+        renderer.drawLayers(layers);
+        sync();
+      })
+    ).reduce((total, run) => total + run, 0) / REDRAW_RUNS;
+
+  renderer.dispose();
+
+  const results = {
+    strokes: strokeCount,
+    vertices: vertexCount,
+    "tessellation (ms)": Math.round(tessellation),
+    "first draw (ms)": Math.round(firstDraw),
+    "cached redraw (ms)": Math.round(redraw),
+  };
+  console.table(results);
+  return results;
+};
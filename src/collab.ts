@@ -0,0 +1,273 @@
+import {
+  readSharedCommand,
+  readSharedInk,
+  readSharedPoint,
+} from "./doodleFile";
+import { applyCommand, applyLayerCommand, rebaseCommand } from "./history";
+import { DEFAULT_LAYERS } from "./layers";
+import type { Command, Layer, Point, Stroke } from "./types";
+
+// Shared sessions run through the relay in relay/server.js. Peers in a room
+// send every history command to the relay, which numbers them into one log
+// and broadcasts them to the whole room, sender included. Each peer applies
+// the log in that order, so all of them end up with the same drawing; their
+// own commands are shown straight away and rebased onto the log as it comes
+// back. Cursors and ink in progress are relayed without being logged.
+
+export interface SessionPeer {
+  peer: string;
+  name: string;
+}
+
+// A stroke still being drawn, without the id it gets when it is committed.
+export type InkStyle = Omit<Stroke, "id" | "points">;
+
+// What peers take from each other's ink in progress.
+export type PeerInkStyle = Pick<
+  InkStyle,
+  "tool" | "color" | "lineWidth" | "opacity"
+>;
+
+// A room to join, from a link to a shared session.
+export interface SessionInvite {
+  room: string;
+  relayUrl: string;
+}
+
+// What this peer knows of another one in the room.
+export interface RemotePeer {
+  name: string;
+  cursor: Point | null;
+  ink: Stroke | null;
+}
+
+// The relay's log as this peer has applied it.
+export interface SharedDrawing {
+  history: Command[];
+  strokes: Stroke[];
+  layers: Layer[];
+}
+
+export type RelayMessage =
+  | { type: "welcome"; peer: string; peers: SessionPeer[]; log: Command[] }
+  | { type: "joined"; peer: string; name: string }
+  | { type: "left"; peer: string }
+  | { type: "command"; peer: string; id: string; command: Command }
+  | { type: "cursor"; peer: string; point: Point | null }
+  | {
+      type: "ink";
+      peer: string;
+      style: PeerInkStyle;
+      points: Point[];
+      // Starts the stroke over instead of adding to it.
+      start: boolean;
+    }
+  | { type: "ink-end"; peer: string };
+
+export type SessionStatus = "connecting" | "connected" | "offline";
+
+export interface SessionConnection {
+  sendCommand: (id: string, command: Command) => void;
+  sendCursor: (point: Point | null) => void;
+  sendInk: (style: InkStyle, points: Point[], start: boolean) => void;
+  endInk: () => void;
+  close: () => void;
+}
+
+// Cursor and ink updates are batched to this many milliseconds.
+const PRESENCE_INTERVAL = 50;
+const RECONNECT_DELAY = 2000;
+
+const PEER_COLORS = [
+  "#FF3B30",
+  "#FF9500",
+  "#34C759",
+  "#00C7BE",
+  "#007AFF",
+  "#5856D6",
+  "#AF52DE",
+  "#FF2D55",
+];
+
+// The relay runs next to the dev server unless VITE_RELAY_URL says otherwise.
+export const DEFAULT_RELAY_URL: string =
+  import.meta.env.VITE_RELAY_URL ??
+  `${location.protocol === "https:" ? "wss" : "ws"}://${
+    location.hostname || "localhost"
+  }:8787`;
+
+export const EMPTY_SHARED_DRAWING: SharedDrawing = {
+  history: [],
+  strokes: [],
+  layers: DEFAULT_LAYERS,
+};
+
+// Commands are rebased onto the log before them, since their sender may not
+// have seen all of it yet. Every peer does the same with the same log, so
+// every peer ends up with the same drawing.
+export const applySharedCommand = (
+  shared: SharedDrawing,
+  command: Command
+): SharedDrawing => {
+  const rebased = rebaseCommand(shared.strokes, shared.layers, command);
+  return {
+    history: [...shared.history, rebased],
+    strokes: applyCommand(shared.strokes, rebased),
+    layers: applyLayerCommand(shared.layers, rebased),
+  };
+};
+
+const readRelayCommand = (value: unknown): Command | null => {
+  try {
+    return readSharedCommand(value);
+  } catch (error) {
+    console.error("Ignored an invalid command from the relay:", error);
+    return null;
+  }
+};
+
+const readRelayPresence = <T>(read: () => T): T | null => {
+  try {
+    return read();
+  } catch (error) {
+    console.error("Ignored invalid presence from the relay:", error);
+    return null;
+  }
+};
+
+// Commands from the relay are checked like a file's history. One that a
+// peer garbled is dropped by every peer alike, rather than stopping anyone
+// from applying the log. Cursors and ink are checked too, since drawing a
+// garbled one would fail.
+const checkRelayMessage = (message: RelayMessage): RelayMessage | null => {
+  if (message.type === "welcome") {
+    return {
+      ...message,
+      log: message.log.flatMap((entry) => {
+        const command = readRelayCommand(entry);
+        return command ? [command] : [];
+      }),
+    };
+  }
+  if (message.type === "command") {
+    const command = readRelayCommand(message.command);
+    return command && { ...message, command };
+  }
+  if (message.type === "cursor" && message.point !== null) {
+    const point = readRelayPresence(() => readSharedPoint(message.point));
+    return point && { ...message, point };
+  }
+  if (message.type === "ink") {
+    const ink = readRelayPresence(() =>
+      readSharedInk(message.style, message.points)
+    );
+    return ink && { ...message, ...ink, start: message.start === true };
+  }
+  return message;
+};
+
+// Every peer sees the same color for a given peer.
+export const peerColor = (peer: string) => {
+  let hash = 0;
+  for (let i = 0; i < peer.length; i++) {
+    hash = (hash * 31 + peer.charCodeAt(i)) >>> 0;
+  }
+  return PEER_COLORS[hash % PEER_COLORS.length];
+};
+
+// Joins `room` on the relay at `url`, and joins again whenever the
+// connection drops. Each join is answered with a welcome carrying the log.
+export const connectSession = (
+  url: string,
+  room: string,
+  name: string,
+  onMessage: (message: RelayMessage) => void,
+  onStatus: (status: SessionStatus) => void
+): SessionConnection => {
+  let socket: WebSocket | null = null;
+  let closed = false;
+  let reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+  let presenceTimer: ReturnType<typeof setTimeout> | null = null;
+  // Undefined when there is no cursor move to send.
+  let cursor: Point | null | undefined;
+  let ink: { style: InkStyle; points: Point[]; start: boolean } | null = null;
+
+  const send = (message: object) => {
+    if (socket?.readyState === WebSocket.OPEN) {
+      socket.send(JSON.stringify(message));
+    }
+  };
+
+  const flushPresence = () => {
+    if (presenceTimer) clearTimeout(presenceTimer);
+    presenceTimer = null;
+    if (ink) send({ type: "ink", ...ink });
+    if (cursor !== undefined) send({ type: "cursor", point: cursor });
+    ink = null;
+    cursor = undefined;
+  };
+
+  const schedulePresence = () => {
+    presenceTimer ??= setTimeout(flushPresence, PRESENCE_INTERVAL);
+  };
+
+  const open = () => {
+    onStatus("connecting");
+    const next = new WebSocket(url);
+    socket = next;
+    next.onopen = () => send({ type: "join", room, name });
+    next.onmessage = (event) => {
+      try {
+        const message = checkRelayMessage(JSON.parse(event.data));
+        if (!message) return;
+        if (message.type === "welcome") onStatus("connected");
+        onMessage(message);
+      } catch (error) {
+        console.error("Failed to handle relay message:", error);
+      }
+    };
+    next.onclose = () => {
+      if (closed || socket !== next) return;
+      onStatus("offline");
+      reconnectTimer = setTimeout(open, RECONNECT_DELAY);
+    };
+  };
+
+  open();
+
+  return {
+    // Ink still waiting to go out is sent first, so peers see the whole
+    // stroke before it is committed.
+    sendCommand: (id, command) => {
+      flushPresence();
+      send({ type: "command", id, command });
+    },
+
+    sendCursor: (point) => {
+      cursor = point;
+      schedulePresence();
+    },
+
+    sendInk: (style, points, start) => {
+      if (start || !ink) {
+        ink = { style, points: [...points], start };
+      } else {
+        ink.points.push(...points);
+      }
+      schedulePresence();
+    },
+
+    endInk: () => {
+      ink = null;
+      send({ type: "ink-end" });
+    },
+
+    close: () => {
+      closed = true;
+      if (reconnectTimer) clearTimeout(reconnectTimer);
+      if (presenceTimer) clearTimeout(presenceTimer);
+      socket?.close();
+      socket = null;
+    },
+  };
+};
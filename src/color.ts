@@ -0,0 +1,51 @@
+// Hue in degrees [0, 360), saturation and value in [0, 1].
+export interface Hsv {
+  h: number;
+  s: number;
+  v: number;
+}
+
+const toHexByte = (value: number) =>
+  Math.round(Math.min(1, Math.max(0, value)) * 255)
+    .toString(16)
+    .padStart(2, "0");
+
+// Accepts "#rgb", "#rrggbb" and either without the hash, and returns the
+// lowercase "#rrggbb" form, or null for anything else.
+export const normalizeHex = (input: string): string | null => {
+  const match = /^#?([\da-f]{3}|[\da-f]{6})$/i.exec(input.trim());
+  if (!match) return null;
+  const digits =
+    match[1].length === 3
+      ? [...match[1]].map((digit) => digit + digit).join("")
+      : match[1];
+  return `#${digits.toLowerCase()}`;
+};
+
+export const hsvToHex = ({ h, s, v }: Hsv): string => {
+  const channel = (n: number) => {
+    const k = (n + h / 60) % 6;
+    return v - v * s * Math.max(0, Math.min(k, 4 - k, 1));
+  };
+  return `#${toHexByte(channel(5))}${toHexByte(channel(3))}${toHexByte(channel(1))}`;
+};
+
+export const hexToHsv = (hex: string): Hsv => {
+  const normalized = normalizeHex(hex) ?? "#000000";
+  const [r, g, b] = [1, 3, 5].map(
+    (i) => parseInt(normalized.slice(i, i + 2), 16) / 255
+  );
+  const max = Math.max(r, g, b);
+  const delta = max - Math.min(r, g, b);
+  let h = 0;
+  if (delta > 0) {
+    if (max === r) h = ((g - b) / delta) % 6;
+    else if (max === g) h = (b - r) / delta + 2;
+    else h = (r - g) / delta + 4;
+  }
+  return {
+    h: (h * 60 + 360) % 360,
+    s: max === 0 ? 0 : delta / max,
+    v: max,
+  };
+};
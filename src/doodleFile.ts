@@ -0,0 +1,530 @@
+import { decodeBackground, blobToDataUrl } from "./background";
+import { drawingText } from "./handwriting";
+import { replayHistory, replayLayers } from "./history";
+import { visibleLayerContents } from "./layers";
+import { PAPER_PATTERNS } from "./paper";
+import { addDrawing } from "./storage";
+import { renderThumbnail } from "./thumbnail";
+import type {
+  Background,
+  Command,
+  CommandType,
+  Layer,
+  Paper,
+  Point,
+  RecognizedText,
+  Shape,
+  StoredDrawing,
+  Stroke,
+  TextBox,
+} from "./types";
+
+// A .doodle file is one JSON object, optionally gzip-compressed:
+//
+//   format        "doodle"
+//   version       the file format version, DOODLE_FILE_VERSION when written
+//   title         the drawing's title
+//   history       the drawing's commands, oldest first (see Command)
+//   historyIndex  the last applied command, -1 when everything is undone
+//   paper         optional page settings (see Paper)
+//   background    optional { image, x, y, width, height }, where image is a
+//                 base64 data URL and the rest place it in world units
+//   recognizedText
+//                 optional text kept for handwriting, a list of
+//                 { strokeIds, text } (see RecognizedText)
+//
+// Readers accept any older version and refuse newer ones. Fields outside
+// the schema are errors, so a file that reads cleanly holds nothing the app
+// would silently drop. The version goes up whenever the schema grows, so an
+// older app reports a newer file as such instead of as invalid:
+//
+//   1  the first version
+//   2  adds "restore" commands
+//   3  adds "convert" commands and recognizedText
+export const DOODLE_FILE_VERSION = 3;
+export const DOODLE_EXTENSION = ".doodle";
+export const DOODLE_MIME_TYPE = "application/x-doodle";
+
+// What a file holds: everything about a drawing except its library
+// bookkeeping.
+export type DoodleDocument = Pick<
+  StoredDrawing,
+  | "title"
+  | "history"
+  | "historyIndex"
+  | "paper"
+  | "background"
+  | "recognizedText"
+>;
+
+const GZIP_MAGIC = [0x1f, 0x8b];
+
+// Browsers rarely know the type, so the extension decides.
+export const isDoodleFile = (file: File) =>
+  file.type === DOODLE_MIME_TYPE ||
+  file.name.toLowerCase().endsWith(DOODLE_EXTENSION);
+
+const COMMAND_TYPES: CommandType[] = [
+  "add",
+  "erase",
+  "transform",
+  "property",
+  "clear",
+  "layer",
+  "restore",
+  "convert",
+];
+
+// Problems name the value they were found in, such as "history[2].type".
+const invalid = (path: string, problem: string): never => {
+  throw new Error(`${path} ${problem}.`);
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+const readRecord = (
+  value: unknown,
+  path: string,
+  fields: string[]
+): Record<string, unknown> => {
+  if (!isRecord(value)) return invalid(path, "must be an object");
+  Object.keys(value).forEach((key) => {
+    if (!fields.includes(key)) invalid(`${path}.${key}`, "is not a known field");
+  });
+  return value;
+};
+
+const readNumber = (value: unknown, path: string): number =>
+  typeof value === "number" && Number.isFinite(value)
+    ? value
+    : invalid(path, "must be a number");
+
+const readInteger = (value: unknown, path: string): number =>
+  Number.isInteger(value)
+    ? (value as number)
+    : invalid(path, "must be an integer");
+
+const readString = (value: unknown, path: string): string =>
+  typeof value === "string" ? value : invalid(path, "must be a string");
+
+const readBoolean = (value: unknown, path: string): boolean =>
+  typeof value === "boolean" ? value : invalid(path, "must be true or false");
+
+const readColor = (value: unknown, path: string): string => {
+  const color = readString(value, path);
+  return /^#[0-9a-f]{6}$/i.test(color)
+    ? color
+    : invalid(path, "must be a #rrggbb color");
+};
+
+const readOption = <T extends string>(
+  value: unknown,
+  path: string,
+  options: readonly T[]
+): T =>
+  options.includes(value as T)
+    ? (value as T)
+    : invalid(
+        path,
+        `must be one of ${options.map((option) => `"${option}"`).join(", ")}`
+      );
+
+const readArray = <T>(
+  value: unknown,
+  path: string,
+  readItem: (item: unknown, path: string) => T
+): T[] =>
+  Array.isArray(value)
+    ? value.map((item, i) => readItem(item, `${path}[${i}]`))
+    : invalid(path, "must be an array");
+
+// Optional fields are only set when present, so a read object compares
+// equal to the one that was written.
+const readOptional = <T>(
+  record: Record<string, unknown>,
+  key: string,
+  path: string,
+  read: (value: unknown, path: string) => T
+): Partial<Record<string, T>> =>
+  record[key] === undefined ? {} : { [key]: read(record[key], `${path}.${key}`) };
+
+const readPoint = (value: unknown, path: string): Point => {
+  const point = readRecord(value, path, [
+    "x",
+    "y",
+    "pressure",
+    "tiltX",
+    "tiltY",
+    "timestamp",
+  ]);
+  return {
+    x: readNumber(point.x, `${path}.x`),
+    y: readNumber(point.y, `${path}.y`),
+    ...readOptional(point, "pressure", path, readNumber),
+    ...readOptional(point, "tiltX", path, readNumber),
+    ...readOptional(point, "tiltY", path, readNumber),
+    ...readOptional(point, "timestamp", path, readNumber),
+  };
+};
+
+const readShape = (value: unknown, path: string): Shape => {
+  const shape = readRecord(value, path, ["kind", "points"]);
+  return {
+    kind: readOption(shape.kind, `${path}.kind`, [
+      "line",
+      "rectangle",
+      "ellipse",
+      "arrow",
+    ]),
+    points: readArray(shape.points, `${path}.points`, readPoint),
+  };
+};
+
+const readTextBox = (value: unknown, path: string): TextBox => {
+  const text = readRecord(value, path, ["content", "fontSize", "align"]);
+  return {
+    content: readString(text.content, `${path}.content`),
+    fontSize: readNumber(text.fontSize, `${path}.fontSize`),
+    align: readOption(text.align, `${path}.align`, ["left", "center", "right"]),
+  };
+};
+
+const readStroke = (value: unknown, path: string): Stroke => {
+  const stroke = readRecord(value, path, [
+    "id",
+    "points",
+    "color",
+    "tool",
+    "lineWidth",
+    "opacity",
+    "shape",
+    "text",
+    "layerId",
+  ]);
+  return {
+    id: readString(stroke.id, `${path}.id`),
+    points: readArray(stroke.points, `${path}.points`, readPoint),
+    color: readColor(stroke.color, `${path}.color`),
+    tool: readOption(stroke.tool, `${path}.tool`, ["pen", "highlighter"]),
+    lineWidth: readNumber(stroke.lineWidth, `${path}.lineWidth`),
+    opacity: readNumber(stroke.opacity, `${path}.opacity`),
+    ...readOptional(stroke, "shape", path, readShape),
+    ...readOptional(stroke, "text", path, readTextBox),
+    ...readOptional(stroke, "layerId", path, readString),
+  };
+};
+
+const readLayer = (value: unknown, path: string): Layer => {
+  const layer = readRecord(value, path, [
+    "id",
+    "name",
+    "visible",
+    "locked",
+    "opacity",
+    "blendMode",
+  ]);
+  return {
+    id: readString(layer.id, `${path}.id`),
+    name: readString(layer.name, `${path}.name`),
+    visible: readBoolean(layer.visible, `${path}.visible`),
+    locked: readBoolean(layer.locked, `${path}.locked`),
+    opacity: readNumber(layer.opacity, `${path}.opacity`),
+    blendMode: readOption(layer.blendMode, `${path}.blendMode`, [
+      "normal",
+      "multiply",
+      "screen",
+    ]),
+  };
+};
+
+const readLayers = (value: unknown, path: string): Layer[] => {
+  const layers = readArray(value, path, readLayer);
+  if (layers.length === 0) invalid(path, "must list at least one layer");
+  return layers;
+};
+
+const readCommand = (value: unknown, path: string): Command => {
+  const command = readRecord(value, path, ["type", "changes", "layers"]);
+  return {
+    type: readOption(command.type, `${path}.type`, COMMAND_TYPES),
+    changes: readArray(command.changes, `${path}.changes`, (change, changePath) => {
+      const record = readRecord(change, changePath, ["index", "before", "after"]);
+      return {
+        index: readInteger(record.index, `${changePath}.index`),
+        before: readArray(record.before, `${changePath}.before`, readStroke),
+        after: readArray(record.after, `${changePath}.after`, readStroke),
+      };
+    }),
+    ...readOptional(command, "layers", path, (layers, layersPath) => {
+      const record = readRecord(layers, layersPath, ["before", "after"]);
+      return {
+        before: readLayers(record.before, `${layersPath}.before`),
+        after: readLayers(record.after, `${layersPath}.after`),
+      };
+    }),
+  };
+};
+
+const readPaper = (value: unknown, path: string): Paper => {
+  const paper = readRecord(value, path, ["pattern", "spacing", "color", "lineColor"]);
+  return {
+    pattern: readOption(
+      paper.pattern,
+      `${path}.pattern`,
+      PAPER_PATTERNS.map((entry) => entry.pattern)
+    ),
+    spacing: readNumber(paper.spacing, `${path}.spacing`),
+    color: readColor(paper.color, `${path}.color`),
+    lineColor: readColor(paper.lineColor, `${path}.lineColor`),
+  };
+};
+
+const dataUrlToBlob = (url: string, path: string): Blob => {
+  const match = /^data:(image\/[a-z0-9.+-]+);base64,([a-z0-9+/]*={0,2})$/i.exec(url);
+  if (!match) return invalid(path, "must be a base64 image data URL");
+  const binary = atob(match[2]);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return new Blob([bytes], { type: match[1] });
+};
+
+const readBackground = (value: unknown, path: string): Background => {
+  const background = readRecord(value, path, ["image", "x", "y", "width", "height"]);
+  return {
+    blob: dataUrlToBlob(
+      readString(background.image, `${path}.image`),
+      `${path}.image`
+    ),
+    x: readNumber(background.x, `${path}.x`),
+    y: readNumber(background.y, `${path}.y`),
+    width: readNumber(background.width, `${path}.width`),
+    height: readNumber(background.height, `${path}.height`),
+  };
+};
+
+const readRecognizedText = (value: unknown, path: string): RecognizedText => {
+  const entry = readRecord(value, path, ["strokeIds", "text"]);
+  return {
+    strokeIds: readArray(entry.strokeIds, `${path}.strokeIds`, readString),
+    text: readString(entry.text, `${path}.text`),
+  };
+};
+
+// Replays the whole history, redo steps included, checking that every
+// change replaces strokes that are really there.
+const checkHistory = (history: Command[]) => {
+  let strokes: Stroke[] = [];
+  history.forEach((command, i) =>
+    command.changes.forEach((change, j) => {
+      const { index, before, after } = change;
+      const fits =
+        index >= 0 &&
+        index + before.length <= strokes.length &&
+        before.every((stroke, k) => strokes[index + k].id === stroke.id);
+      if (!fits) {
+        invalid(
+          `history[${i}].changes[${j}]`,
+          "does not match the strokes the earlier history leaves"
+        );
+      }
+      strokes = [
+        ...strokes.slice(0, index),
+        ...after,
+        ...strokes.slice(index + before.length),
+      ];
+    })
+  );
+};
+
+const readContents = (value: Record<string, unknown>): DoodleDocument => {
+  if (readInteger(value.version, "version") < 1) {
+    invalid("version", "must be at least 1");
+  }
+  const file = readRecord(value, "file", [
+    "format",
+    "version",
+    "title",
+    "history",
+    "historyIndex",
+    "paper",
+    "background",
+    "recognizedText",
+  ]);
+  const history = readArray(file.history, "history", readCommand);
+  const historyIndex = readInteger(file.historyIndex, "historyIndex");
+  if (historyIndex < -1 || historyIndex >= history.length) {
+    invalid("historyIndex", `must be between -1 and ${history.length - 1}`);
+  }
+  checkHistory(history);
+  return {
+    title: readString(file.title, "title"),
+    history,
+    historyIndex,
+    ...readOptional(file, "paper", "file", readPaper),
+    ...readOptional(file, "background", "file", readBackground),
+    ...readOptional(file, "recognizedText", "file", (entries, path) =>
+      readArray(entries, path, readRecognizedText)
+    ),
+  };
+};
+
+const readDocument = (value: unknown): DoodleDocument => {
+  if (!isRecord(value) || value.format !== "doodle") {
+    throw new Error("Not a .doodle file.");
+  }
+  const { version } = value;
+  if (typeof version === "number" && version > DOODLE_FILE_VERSION) {
+    throw new Error(
+      `This drawing was saved by a newer version of DoodleDo (file version ${version}). Update the app to open it.`
+    );
+  }
+  try {
+    return readContents(value);
+  } catch (error) {
+    throw new Error(
+      `Invalid .doodle file: ${error instanceof Error ? error.message : error}`
+    );
+  }
+};
+
+// Checks a command that comes from outside the app, such as a peer's edit
+// in a shared session, against the same schema as a file's history.
+export const readSharedCommand = (value: unknown): Command =>
+  readCommand(value, "command");
+
+// Checks a peer's ink in progress. Only what drawing it on screen takes is
+// kept, so a peer can't slip other stroke fields in with it.
+export const readSharedInk = (
+  style: unknown,
+  points: unknown
+): {
+  style: Pick<Stroke, "tool" | "color" | "lineWidth" | "opacity">;
+  points: Point[];
+} => {
+  if (!isRecord(style)) return invalid("style", "must be an object");
+  return {
+    style: {
+      tool: readOption(style.tool, "style.tool", ["pen", "highlighter"]),
+      color: readColor(style.color, "style.color"),
+      lineWidth: readNumber(style.lineWidth, "style.lineWidth"),
+      opacity: readNumber(style.opacity, "style.opacity"),
+    },
+    points: readArray(points, "points", readPoint),
+  };
+};
+
+// Checks a peer's cursor position.
+export const readSharedPoint = (value: unknown): Point =>
+  readPoint(value, "point");
+
+const isGzip = (bytes: Uint8Array) =>
+  GZIP_MAGIC.every((byte, i) => bytes[i] === byte);
+
+const streamBytes = async (
+  bytes: Uint8Array,
+  transform: CompressionStream | DecompressionStream
+) =>
+  new Uint8Array(
+    await new Response(new Blob([bytes]).stream().pipeThrough(transform)).arrayBuffer()
+  );
+
+export const writeDoodleFile = async (
+  doodle: DoodleDocument,
+  compress: boolean
+): Promise<Blob> => {
+  const { background, paper, recognizedText } = doodle;
+  const json = JSON.stringify({
+    format: "doodle",
+    version: DOODLE_FILE_VERSION,
+    title: doodle.title,
+    history: doodle.history,
+    historyIndex: doodle.historyIndex,
+    ...(paper ? { paper } : {}),
+    ...(background
+      ? {
+          background: {
+            image: await blobToDataUrl(background.blob),
+            x: background.x,
+            y: background.y,
+            width: background.width,
+            height: background.height,
+          },
+        }
+      : {}),
+    ...(recognizedText?.length ? { recognizedText } : {}),
+  });
+  const bytes = new TextEncoder().encode(json);
+  return new Blob(
+    [compress ? await streamBytes(bytes, new CompressionStream("gzip")) : bytes],
+    { type: DOODLE_MIME_TYPE }
+  );
+};
+
+// Throws with a message meant for the user when the file can't be opened.
+export const readDoodleFile = async (file: Blob): Promise<DoodleDocument> => {
+  let bytes = new Uint8Array(await file.arrayBuffer());
+  let value: unknown;
+  try {
+    if (isGzip(bytes)) {
+      bytes = await streamBytes(bytes, new DecompressionStream("gzip"));
+    }
+    value = JSON.parse(new TextDecoder("utf-8", { fatal: true }).decode(bytes));
+  } catch {
+    throw new Error("Not a .doodle file: it isn't valid JSON or gzip.");
+  }
+  return readDocument(value);
+};
+
+// Adds the drawing in a file to the library as a new drawing, with a
+// thumbnail rendered from its history.
+export const importDoodleFile = async (file: Blob): Promise<StoredDrawing> => {
+  const doodle = await readDoodleFile(file);
+  const { history, historyIndex } = doodle;
+  const background = doodle.background
+    ? await decodeBackground(doodle.background)
+    : null;
+  const strokes = replayHistory(history, historyIndex);
+  return addDrawing({
+    ...doodle,
+    thumbnail: renderThumbnail(
+      visibleLayerContents(replayLayers(history, historyIndex), strokes),
+      background,
+      doodle.paper
+    ),
+    searchText: drawingText(strokes, doodle.recognizedText ?? []),
+  });
+};
+
+// Opens a .doodle file as a new drawing. Its problems are shown to the user,
+// since a file that doesn't open needs an explanation.
+export const openDoodleFile = async (file: Blob): Promise<string | null> => {
+  try {
+    return (await importDoodleFile(file)).id;
+  } catch (error) {
+    console.error("Failed to open file:", error);
+    window.alert(error instanceof Error ? error.message : "Failed to open file.");
+    return null;
+  }
+};
+
+// A file name for a drawing, without the extension, with the characters
+// file systems reject replaced.
+export const doodleFilename = (title: string) =>
+  title.replace(/[\\/:*?"<>|]/g, "_") || "doodle";
+
+export const drawingToDoodle = ({
+  title,
+  history,
+  historyIndex,
+  paper,
+  background,
+  recognizedText,
+}: StoredDrawing): DoodleDocument => ({
+  title,
+  history,
+  historyIndex,
+  ...(paper ? { paper } : {}),
+  ...(background ? { background } : {}),
+  ...(recognizedText ? { recognizedText } : {}),
+});
@@ -0,0 +1,191 @@
+import { createId } from "./id";
+import { pointInPolygon } from "./selection";
+import { pointWidth } from "./stroke";
+import type { EraserMode, Point, Stroke } from "./types";
+
+const distanceToSegment = (p: Point, a: Point, b: Point): number => {
+  const dx = b.x - a.x;
+  const dy = b.y - a.y;
+  const lengthSquared = dx * dx + dy * dy;
+  const t =
+    lengthSquared === 0
+      ? 0
+      : Math.max(
+          0,
+          Math.min(1, ((p.x - a.x) * dx + (p.y - a.y) * dy) / lengthSquared)
+        );
+  return Math.hypot(p.x - (a.x + dx * t), p.y - (a.y + dy * t));
+};
+
+const distanceToPath = (p: Point, path: Point[]): number => {
+  if (path.length === 1) return Math.hypot(p.x - path[0].x, p.y - path[0].y);
+  let distance = Infinity;
+  for (let i = 1; i < path.length; i++) {
+    distance = Math.min(distance, distanceToSegment(p, path[i - 1], path[i]));
+  }
+  return distance;
+};
+
+const crossesSegment = (a: Point, b: Point, c: Point, d: Point): boolean => {
+  const orientation = (p: Point, q: Point, r: Point) =>
+    Math.sign((q.x - p.x) * (r.y - p.y) - (q.y - p.y) * (r.x - p.x));
+  return (
+    orientation(a, b, c) * orientation(a, b, d) < 0 &&
+    orientation(c, d, a) * orientation(c, d, b) < 0
+  );
+};
+
+const boundsOverlap = (
+  points: Point[],
+  path: Point[],
+  margin: number
+): boolean => {
+  const bounds = (list: Point[]) => ({
+    minX: Math.min(...list.map((p) => p.x)),
+    minY: Math.min(...list.map((p) => p.y)),
+    maxX: Math.max(...list.map((p) => p.x)),
+    maxY: Math.max(...list.map((p) => p.y)),
+  });
+  const a = bounds(points);
+  const b = bounds(path);
+  return (
+    a.minX - margin <= b.maxX &&
+    b.minX <= a.maxX + margin &&
+    a.minY - margin <= b.maxY &&
+    b.minY <= a.maxY + margin
+  );
+};
+
+// A stroke is touched when the eraser's circle overlaps any of its ink, so
+// the reach is the eraser radius plus half the stroke's widest point.
+const eraserReach = (stroke: Stroke, radius: number) =>
+  radius +
+  Math.max(...stroke.points.map((p) => pointWidth(p, stroke.lineWidth))) / 2;
+
+export const strokeTouched = (
+  stroke: Stroke,
+  path: Point[],
+  radius: number
+): boolean => {
+  if (stroke.points.length === 0 || path.length === 0) return false;
+  const reach = eraserReach(stroke, radius);
+  if (!boundsOverlap(stroke.points, path, reach)) return false;
+
+  if (stroke.points.length === 1) {
+    return distanceToPath(stroke.points[0], path) <= reach;
+  }
+  for (let i = 1; i < stroke.points.length; i++) {
+    const a = stroke.points[i - 1];
+    const b = stroke.points[i];
+    if (path.some((p) => distanceToSegment(p, a, b) <= reach)) return true;
+    for (let j = 1; j < path.length; j++) {
+      if (distanceToSegment(path[j], a, b) <= reach) return true;
+      if (crossesSegment(a, b, path[j - 1], path[j])) return true;
+    }
+  }
+  return false;
+};
+
+const lerp = (a: number | undefined, b: number | undefined, t: number) =>
+  a === undefined || b === undefined ? a : a + (b - a) * t;
+
+const interpolatePoint = (a: Point, b: Point, t: number): Point => {
+  const point: Point = { x: a.x + (b.x - a.x) * t, y: a.y + (b.y - a.y) * t };
+  if (a.pressure !== undefined) point.pressure = lerp(a.pressure, b.pressure, t);
+  if (a.tiltX !== undefined) point.tiltX = lerp(a.tiltX, b.tiltX, t);
+  if (a.tiltY !== undefined) point.tiltY = lerp(a.tiltY, b.tiltY, t);
+  if (a.timestamp !== undefined) {
+    point.timestamp = lerp(a.timestamp, b.timestamp, t);
+  }
+  return point;
+};
+
+// Resamples a stroke so no two neighbouring points are further apart than
+// `spacing`, which lets the eraser cut a long straight segment in the middle.
+const resample = (points: Point[], spacing: number): Point[] => {
+  const result: Point[] = [points[0]];
+  for (let i = 1; i < points.length; i++) {
+    const a = points[i - 1];
+    const b = points[i];
+    const steps = Math.ceil(Math.hypot(b.x - a.x, b.y - a.y) / spacing);
+    for (let step = 1; step < steps; step++) {
+      result.push(interpolatePoint(a, b, step / steps));
+    }
+    result.push(b);
+  }
+  return result;
+};
+
+// Splits a stroke into the runs of ink left outside the eraser path. Returns
+// null when nothing was erased.
+export const splitStroke = (
+  stroke: Stroke,
+  path: Point[],
+  radius: number
+): Stroke[] | null => {
+  const spacing = Math.max(0.5, Math.min(radius, stroke.lineWidth) / 2);
+  const points = resample(stroke.points, spacing);
+  const erased = points.map(
+    (p) => distanceToPath(p, path) <= radius + pointWidth(p, stroke.lineWidth) / 2
+  );
+  if (!erased.includes(true)) return null;
+
+  const fragments: Point[][] = [];
+  let run: Point[] = [];
+  points.forEach((point, i) => {
+    if (erased[i]) {
+      if (run.length > 0) fragments.push(run);
+      run = [];
+    } else {
+      run.push(point);
+    }
+  });
+  if (run.length > 0) fragments.push(run);
+
+  // Single leftover samples at the eraser's edge would show up as specks.
+  // What remains of a shape is freehand ink, on the layer the shape was on.
+  return fragments
+    .filter((fragment) => fragment.length > 1)
+    .map(
+      (fragment): Stroke => ({
+        id: createId(),
+        points: fragment,
+        color: stroke.color,
+        tool: stroke.tool,
+        lineWidth: stroke.lineWidth,
+        opacity: stroke.opacity,
+        ...(stroke.layerId ? { layerId: stroke.layerId } : {}),
+      })
+    );
+};
+
+// Text is touched anywhere inside its box as well as along its edges.
+const textTouched = (stroke: Stroke, path: Point[], radius: number) =>
+  path.some((point) => pointInPolygon(point, stroke.points)) ||
+  strokeTouched(stroke, path, radius);
+
+// Returns the replacements an eraser pass makes, keyed by the id of each
+// stroke it touched. Stroke mode removes touched strokes whole, and so does
+// erasing text.
+export const eraseStrokes = (
+  strokes: Stroke[],
+  path: Point[],
+  radius: number,
+  mode: EraserMode
+): Record<string, Stroke[]> => {
+  const replaced: Record<string, Stroke[]> = {};
+  strokes.forEach((stroke) => {
+    if (stroke.text) {
+      if (textTouched(stroke, path, radius)) replaced[stroke.id] = [];
+      return;
+    }
+    if (!strokeTouched(stroke, path, radius)) return;
+    if (mode === "stroke") {
+      replaced[stroke.id] = [];
+      return;
+    }
+    const fragments = splitStroke(stroke, path, radius);
+    if (fragments) replaced[stroke.id] = fragments;
+  });
+  return replaced;
+};
@@ -0,0 +1,108 @@
+import { describe, expect, it } from "vitest";
+import { strokesToSvg } from "./export";
+import type { LayerContent } from "./layers";
+import type { Layer, Stroke } from "./types";
+
+const layer = (id: string, overrides: Partial<Layer> = {}): Layer => ({
+  id,
+  name: id,
+  visible: true,
+  locked: false,
+  opacity: 100,
+  blendMode: "normal",
+  ...overrides,
+});
+
+const pen: Stroke = {
+  id: "pen",
+  points: [
+    { x: 10, y: 10, pressure: 0.5 },
+    { x: 40.004, y: 25.5, pressure: 0.75 },
+    { x: 80, y: 12.25, pressure: 1 },
+  ],
+  color: "#1a2b3c",
+  tool: "pen",
+  lineWidth: 4,
+  opacity: 100,
+};
+
+const highlighter: Stroke = {
+  id: "highlighter",
+  points: [
+    { x: 0, y: 60 },
+    { x: 120, y: 60 },
+  ],
+  color: "#ffcc00",
+  tool: "highlighter",
+  lineWidth: 16,
+  opacity: 40,
+  layerId: "top",
+};
+
+const rectangle: Stroke = {
+  id: "rectangle",
+  points: [
+    { x: 20, y: 80 },
+    { x: 100, y: 80 },
+    { x: 100, y: 120 },
+    { x: 20, y: 120 },
+    { x: 20, y: 80 },
+  ],
+  shape: {
+    kind: "rectangle",
+    points: [
+      { x: 20, y: 80 },
+      { x: 100, y: 80 },
+      { x: 100, y: 120 },
+      { x: 20, y: 120 },
+    ],
+  },
+  color: "#007aff",
+  tool: "pen",
+  lineWidth: 2,
+  opacity: 100,
+};
+
+const drawing: LayerContent[] = [
+  { layer: layer("base"), strokes: [pen, rectangle] },
+  {
+    layer: layer("top", { opacity: 50, blendMode: "multiply" }),
+    strokes: [highlighter],
+  },
+];
+
+const options = { transparent: false, pixelRatio: 2, paper: null };
+
+describe("strokesToSvg", () => {
+  it("writes the same SVG for the same drawing", () => {
+    expect(strokesToSvg(drawing, options)).toMatchSnapshot();
+  });
+
+  it("ignores floating point noise in the points", () => {
+    const noisy = drawing.map(({ layer, strokes }) => ({
+      layer,
+      strokes: strokes.map((stroke) => ({
+        ...stroke,
+        points: stroke.points.map((point) => ({
+          ...point,
+          x: point.x + 1e-9,
+          y: point.y - 1e-9,
+        })),
+      })),
+    }));
+    expect(strokesToSvg(noisy, options)).toBe(strokesToSvg(drawing, options));
+  });
+
+  it("draws the paper unless the background is transparent", () => {
+    const paper = {
+      pattern: "grid" as const,
+      spacing: 24,
+      color: "#fffdf5",
+      lineColor: "#d0d7e1",
+    };
+    expect(strokesToSvg(drawing, { ...options, paper })).toMatchSnapshot();
+    expect(
+      strokesToSvg(drawing, { ...options, transparent: true, paper })
+    ).toMatchSnapshot();
+  });
+});
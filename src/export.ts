@@ -0,0 +1,422 @@
+import { blobToDataUrl, type BackgroundImage } from "./background";
+import type { LayerContent } from "./layers";
+import { ISOMETRIC_NORMALS, isometricLineSpacing } from "./paper";
+import { ellipseAxes } from "./shapes";
+import { pointWidth, strokeAlpha } from "./stroke";
+import {
+  TEXT_BASELINE,
+  TEXT_FONT_FAMILY,
+  TEXT_LINE_HEIGHT,
+  textLayout,
+  textLines,
+} from "./text";
+import type { Paper, Point, Shape, Stroke, TextBox } from "./types";
+
+export type ExportFormat = "png" | "jpeg" | "svg";
+
+export interface ExportOptions {
+  format: ExportFormat;
+  scale: number;
+  transparent: boolean;
+  // Geometry is exported in CSS pixels; the ratio of the screen being matched
+  // only affects how translucent strokes accumulate (see coverageAlpha).
+  pixelRatio: number;
+  // The page's color and pattern, or null for plain white paper.
+  paper: Paper | null;
+}
+
+interface Bounds {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+// The background as written into the SVG, with its image inlined as a data
+// URL so the file stands alone.
+interface EmbeddedBackground extends Bounds {
+  href: string;
+}
+
+const EXPORT_PADDING = 20;
+// Browsers refuse canvases beyond these, and Safari on iOS caps the area
+// at 4096 × 4096 pixels.
+const MAX_RASTER_SIZE = 8192;
+const MAX_RASTER_AREA = 4096 * 4096;
+
+// Fixed precision keeps the SVG output byte-for-byte stable for the same
+// strokes, regardless of floating point noise in the recorded points.
+const roundNumber = (value: number): number => Number(value.toFixed(2));
+
+const formatNumber = (value: number): string => {
+  const rounded = roundNumber(value);
+  return Object.is(rounded, -0) ? "0" : rounded.toString();
+};
+
+const TEXT_ANCHORS = { left: "start", center: "middle", right: "end" };
+
+const escapeAttribute = (value: string): string =>
+  value
+    .replace(/&/g, "&amp;")
+    .replace(/"/g, "&quot;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;");
+
+const getBounds = (
+  strokes: Stroke[],
+  background: Bounds | null = null
+): Bounds => {
+  let minX = background?.x ?? Infinity;
+  let minY = background?.y ?? Infinity;
+  let maxX = background ? background.x + background.width : -Infinity;
+  let maxY = background ? background.y + background.height : -Infinity;
+
+  strokes.forEach((stroke) =>
+    stroke.points.forEach((point) => {
+      const radius = pointWidth(point, stroke.lineWidth) / 2;
+      minX = Math.min(minX, point.x - radius);
+      minY = Math.min(minY, point.y - radius);
+      maxX = Math.max(maxX, point.x + radius);
+      maxY = Math.max(maxY, point.y + radius);
+    })
+  );
+
+  if (minX === Infinity) return { x: 0, y: 0, width: 1, height: 1 };
+
+  // Rounded like the rest of the output first, so that noise can't tip the
+  // bounds over a whole unit.
+  return {
+    x: Math.floor(roundNumber(minX) - EXPORT_PADDING),
+    y: Math.floor(roundNumber(minY) - EXPORT_PADDING),
+    width: Math.ceil(roundNumber(maxX - minX) + EXPORT_PADDING * 2),
+    height: Math.ceil(roundNumber(maxY - minY) + EXPORT_PADDING * 2),
+  };
+};
+
+const pathData = (points: Point[]): string =>
+  points
+    .map(
+      (point, i) =>
+        `${i === 0 ? "M" : "L"}${formatNumber(point.x)} ${formatNumber(point.y)}`
+    )
+    .join(" ");
+
+// Closed shapes are written as the SVG primitives they are, rather than as
+// their sampled outline.
+const shapeToSvg = (shape: Shape, attributes: string): string | null => {
+  if (shape.kind === "rectangle") {
+    return `<path d="${pathData(shape.points)} Z" ${attributes}/>`;
+  }
+  if (shape.kind === "ellipse") {
+    const { center, rx, ry, rotation } = ellipseAxes(shape.points);
+    const cx = formatNumber(center.x);
+    const cy = formatNumber(center.y);
+    return `<ellipse cx="${cx}" cy="${cy}" rx="${formatNumber(
+      rx
+    )}" ry="${formatNumber(ry)}" transform="rotate(${formatNumber(
+      (rotation * 180) / Math.PI
+    )} ${cx} ${cy})" ${attributes}/>`;
+  }
+  return null;
+};
+
+// Text stays selectable text in the SVG, one tspan per line.
+const textToSvg = (stroke: Stroke, text: TextBox, opacity: string): string => {
+  const { origin, rotation, width } = textLayout(stroke);
+  const x = formatNumber(
+    text.align === "left" ? 0 : text.align === "center" ? width / 2 : width
+  );
+  const lines = textLines(text).map(
+    (line, i) =>
+      `<tspan x="${x}" y="${formatNumber(
+        (i * TEXT_LINE_HEIGHT + TEXT_BASELINE) * text.fontSize
+      )}">${escapeAttribute(line)}</tspan>`
+  );
+  return `<text transform="translate(${formatNumber(origin.x)} ${formatNumber(
+    origin.y
+  )}) rotate(${formatNumber((rotation * 180) / Math.PI)})" font-family="${escapeAttribute(
+    TEXT_FONT_FAMILY
+  )}" font-size="${formatNumber(text.fontSize)}" text-anchor="${
+    TEXT_ANCHORS[text.align]
+  }" fill="${escapeAttribute(stroke.color)}" stroke="none" opacity="${opacity}" xml:space="preserve">${lines.join(
+    ""
+  )}</text>`;
+};
+
+const strokeToSvg = (stroke: Stroke, pixelRatio: number): string => {
+  const color = escapeAttribute(stroke.color);
+  const opacity = formatNumber(strokeAlpha(stroke, pixelRatio));
+  const widthAt = (index: number) =>
+    pointWidth(stroke.points[index], stroke.lineWidth);
+  const attributes = `stroke="${color}" stroke-width="${formatNumber(
+    stroke.lineWidth
+  )}" opacity="${opacity}"`;
+
+  if (stroke.text) return textToSvg(stroke, stroke.text, opacity);
+
+  const shape = stroke.shape && shapeToSvg(stroke.shape, attributes);
+  if (shape) return shape;
+
+  if (stroke.points.length === 1) {
+    const [point] = stroke.points;
+    return `<circle cx="${formatNumber(point.x)}" cy="${formatNumber(
+      point.y
+    )}" r="${formatNumber(widthAt(0) / 2)}" fill="${color}" opacity="${opacity}"/>`;
+  }
+
+  const hasPressure = stroke.points.some(
+    (point) => point.pressure !== undefined
+  );
+
+  if (!hasPressure) {
+    return `<path d="${pathData(stroke.points)}" ${attributes}/>`;
+  }
+
+  // SVG strokes have a single width, so pressure strokes become a group of
+  // round-capped segments. Group opacity keeps the overlaps from darkening.
+  const segments = stroke.points.slice(1).map((to, i) => {
+    const from = stroke.points[i];
+    const width = (widthAt(i) + widthAt(i + 1)) / 2;
+    return `<line x1="${formatNumber(from.x)}" y1="${formatNumber(
+      from.y
+    )}" x2="${formatNumber(to.x)}" y2="${formatNumber(
+      to.y
+    )}" stroke-width="${formatNumber(width)}"/>`;
+  });
+  return `<g stroke="${color}" opacity="${opacity}">${segments.join("")}</g>`;
+};
+
+// One family of parallel paper lines across the bounds, given by its unit
+// normal, as a single path.
+const paperLines = (normal: Point, spacing: number, bounds: Bounds) => {
+  const direction = { x: -normal.y, y: normal.x };
+  const corners = [
+    { x: bounds.x, y: bounds.y },
+    { x: bounds.x + bounds.width, y: bounds.y },
+    { x: bounds.x, y: bounds.y + bounds.height },
+    { x: bounds.x + bounds.width, y: bounds.y + bounds.height },
+  ];
+  const along = (axis: Point) =>
+    corners.map((corner) => corner.x * axis.x + corner.y * axis.y);
+  const offsets = along(normal);
+  const extents = along(direction);
+  const start = Math.min(...extents);
+  const end = Math.max(...extents);
+  const segments: string[] = [];
+  for (
+    let k = Math.ceil(Math.min(...offsets) / spacing);
+    k * spacing <= Math.max(...offsets);
+    k++
+  ) {
+    const origin = { x: normal.x * k * spacing, y: normal.y * k * spacing };
+    segments.push(
+      pathData(
+        [start, end].map((t) => ({
+          x: origin.x + direction.x * t,
+          y: origin.y + direction.y * t,
+        }))
+      )
+    );
+  }
+  return segments.join(" ");
+};
+
+// The paper pattern over the exported area, in world units: lines are one
+// unit wide and dots have the same radius as on screen at 100%.
+const paperToSvg = (paper: Paper, bounds: Bounds): string[] => {
+  const { pattern, spacing } = paper;
+  const color = escapeAttribute(paper.lineColor);
+  if (pattern === "plain") return [];
+  if (pattern === "dots") {
+    const half = formatNumber(spacing / 2);
+    return [
+      `<defs><pattern id="paper-dots" x="-${half}" y="-${half}" width="${formatNumber(
+        spacing
+      )}" height="${formatNumber(
+        spacing
+      )}" patternUnits="userSpaceOnUse"><circle cx="${half}" cy="${half}" r="1.5" fill="${color}"/></pattern></defs>`,
+      `<rect x="${bounds.x}" y="${bounds.y}" width="${bounds.width}" height="${bounds.height}" fill="url(#paper-dots)"/>`,
+    ];
+  }
+  const families =
+    pattern === "grid"
+      ? [{ x: 1, y: 0 }, { x: 0, y: 1 }]
+      : pattern === "ruled"
+        ? [{ x: 0, y: 1 }]
+        : ISOMETRIC_NORMALS;
+  const lineSpacing =
+    pattern === "isometric" ? isometricLineSpacing(spacing) : spacing;
+  const d = families
+    .map((normal) => paperLines(normal, lineSpacing, bounds))
+    .filter(Boolean)
+    .join(" ");
+  return d ? [`<path d="${d}" fill="none" stroke="${color}" stroke-width="1"/>`] : [];
+};
+
+// Layers with their own opacity or blend mode become groups, so they fade
+// and blend as a whole like they do on the canvas.
+const layerToSvg = ({ layer, strokes }: LayerContent, pixelRatio: number) => {
+  const content = strokes
+    .filter((stroke) => stroke.points.length > 0)
+    .map((stroke) => strokeToSvg(stroke, pixelRatio));
+  if (layer.opacity === 100 && layer.blendMode === "normal") return content;
+  const blend =
+    layer.blendMode === "normal"
+      ? ""
+      : ` style="mix-blend-mode:${layer.blendMode}"`;
+  return [
+    `<g opacity="${formatNumber(layer.opacity / 100)}"${blend}>`,
+    ...content,
+    `</g>`,
+  ];
+};
+
+export const strokesToSvg = (
+  layers: LayerContent[],
+  {
+    transparent,
+    pixelRatio,
+    paper,
+  }: Pick<ExportOptions, "transparent" | "pixelRatio" | "paper">,
+  background: EmbeddedBackground | null = null
+): string => {
+  const bounds = getBounds(
+    layers.flatMap(({ strokes }) => strokes),
+    background
+  );
+  const viewBox = [bounds.x, bounds.y, bounds.width, bounds.height]
+    .map(formatNumber)
+    .join(" ");
+
+  const lines = [
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${bounds.width}" height="${bounds.height}" viewBox="${viewBox}">`,
+  ];
+  if (!transparent) {
+    lines.push(
+      `<rect x="${bounds.x}" y="${bounds.y}" width="${bounds.width}" height="${bounds.height}" fill="${escapeAttribute(
+        paper?.color ?? "#FFFFFF"
+      )}"/>`
+    );
+  }
+  if (paper) lines.push(...paperToSvg(paper, bounds));
+  if (background) {
+    lines.push(
+      `<image href="${background.href}" x="${formatNumber(
+        background.x
+      )}" y="${formatNumber(background.y)}" width="${formatNumber(
+        background.width
+      )}" height="${formatNumber(background.height)}" preserveAspectRatio="none"/>`
+    );
+  }
+  lines.push(
+    `<g fill="none" stroke-linecap="round" stroke-linejoin="round">`,
+    ...layers.flatMap((content) => layerToSvg(content, pixelRatio)),
+    `</g>`,
+    `</svg>`
+  );
+  return lines.join("\n");
+};
+
+const loadImage = (url: string): Promise<HTMLImageElement> =>
+  new Promise((resolve, reject) => {
+    const image = new Image();
+    image.onload = () => resolve(image);
+    image.onerror = () => reject(new Error("Failed to load exported image"));
+    image.src = url;
+  });
+
+const embedBackground = async (
+  background: BackgroundImage | null
+): Promise<EmbeddedBackground | null> => {
+  if (!background) return null;
+  const { x, y, width, height } = background;
+  return { x, y, width, height, href: await blobToDataUrl(background.blob) };
+};
+
+const rasterize = async (
+  layers: LayerContent[],
+  {
+    format,
+    scale: requestedScale,
+    transparent,
+    pixelRatio,
+    paper,
+  }: ExportOptions,
+  background: BackgroundImage | null
+): Promise<Blob> => {
+  // JPEG has no alpha channel, so it always gets the white background.
+  const keepAlpha = transparent && format === "png";
+  const embedded = await embedBackground(background);
+  const svg = strokesToSvg(
+    layers,
+    { transparent: keepAlpha, pixelRatio, paper },
+    embedded
+  );
+  const bounds = getBounds(
+    layers.flatMap(({ strokes }) => strokes),
+    embedded
+  );
+  // The background is exported at the resolution it was imported at. Either
+  // way the scale is lowered as far as the canvas size limits need.
+  const scale = Math.min(
+    background
+      ? Math.max(
+          requestedScale,
+          background.image.naturalWidth / background.width
+        )
+      : requestedScale,
+    MAX_RASTER_SIZE / Math.max(bounds.width, bounds.height),
+    Math.sqrt(MAX_RASTER_AREA / (bounds.width * bounds.height))
+  );
+  const url = URL.createObjectURL(new Blob([svg], { type: "image/svg+xml" }));
+
+  try {
+    const image = await loadImage(url);
+    const canvas = document.createElement("canvas");
+    // Rounded down, so the limits hold.
+    canvas.width = Math.max(1, Math.floor(bounds.width * scale));
+    canvas.height = Math.max(1, Math.floor(bounds.height * scale));
+    const ctx = canvas.getContext("2d");
+    if (!ctx) throw new Error("2D canvas not supported");
+    ctx.drawImage(image, 0, 0, canvas.width, canvas.height);
+
+    return await new Promise<Blob>((resolve, reject) =>
+      canvas.toBlob(
+        (blob) =>
+          blob
+            ? resolve(blob)
+            : reject(new Error("The image could not be created.")),
+        `image/${format}`,
+        0.92
+      )
+    );
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+};
+
+// Exports the visible layers over the background, if there is one.
+export const exportDrawing = async (
+  layers: LayerContent[],
+  options: ExportOptions,
+  background: BackgroundImage | null = null
+): Promise<Blob> => {
+  if (options.format === "svg") {
+    const embedded = await embedBackground(background);
+    return new Blob([strokesToSvg(layers, options, embedded)], {
+      type: "image/svg+xml",
+    });
+  }
+  return rasterize(layers, options, background);
+};
+
+export const downloadBlob = (blob: Blob, filename: string): void => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+};
@@ -0,0 +1,264 @@
+// A small animated GIF encoder. All frames share one palette of up to 256
+// colors, taken from a reference image, and each frame only covers the area
+// that changed since the one before. The animation loops forever.
+
+export interface GifEncoder {
+  // RGBA pixels the size of the animation, shown for `delay` milliseconds.
+  addFrame: (pixels: Uint8ClampedArray, delay: number) => void;
+  finish: () => Blob;
+}
+
+const PALETTE_SIZE = 256;
+const MIN_CODE_SIZE = 8;
+const MAX_CODE = 4096;
+const MAX_SUB_BLOCK = 255;
+// Colors are bucketed at five bits per channel.
+const BUCKETS = 1 << 15;
+// Popular colors closer than this to one already picked, in five-bit steps,
+// only get a palette entry once the distinct ones have theirs.
+const MIN_PALETTE_DISTANCE = 3;
+
+const bucketOf = (pixels: Uint8ClampedArray, i: number) =>
+  ((pixels[i] >> 3) << 10) | ((pixels[i + 1] >> 3) << 5) | (pixels[i + 2] >> 3);
+
+const bucketDistance = (a: number, b: number) =>
+  Math.max(
+    Math.abs((a >> 10) - (b >> 10)),
+    Math.abs(((a >> 5) & 31) - ((b >> 5) & 31)),
+    Math.abs((a & 31) - (b & 31))
+  );
+
+// Picks the most common colors, skipping near duplicates of the ones already
+// picked at first so that a small stroke in a color of its own keeps it.
+// Each entry is the average of the pixels in its bucket.
+const createPalette = (pixels: Uint8ClampedArray): number[][] => {
+  const counts = new Uint32Array(BUCKETS);
+  const sums = new Float64Array(BUCKETS * 3);
+  for (let i = 0; i < pixels.length; i += 4) {
+    const bucket = bucketOf(pixels, i);
+    counts[bucket] += 1;
+    sums[bucket * 3] += pixels[i];
+    sums[bucket * 3 + 1] += pixels[i + 1];
+    sums[bucket * 3 + 2] += pixels[i + 2];
+  }
+  const popular = [...counts.keys()]
+    .filter((bucket) => counts[bucket] > 0)
+    .sort((a, b) => counts[b] - counts[a]);
+  const picked: number[] = [];
+  const skipped: number[] = [];
+  popular.forEach((bucket) => {
+    if (picked.length >= PALETTE_SIZE) return;
+    if (picked.some((other) => bucketDistance(bucket, other) < MIN_PALETTE_DISTANCE)) {
+      skipped.push(bucket);
+    } else {
+      picked.push(bucket);
+    }
+  });
+  picked.push(...skipped.slice(0, PALETTE_SIZE - picked.length));
+  return picked.map((bucket) =>
+    [0, 1, 2].map((channel) =>
+      Math.round(sums[bucket * 3 + channel] / counts[bucket])
+    )
+  );
+};
+
+// Splits LZW output into the length-prefixed sub-blocks GIF stores it in.
+const subBlocks = (data: number[]): number[] => {
+  const blocks: number[] = [];
+  for (let i = 0; i < data.length; i += MAX_SUB_BLOCK) {
+    const block = data.slice(i, i + MAX_SUB_BLOCK);
+    blocks.push(block.length, ...block);
+  }
+  blocks.push(0);
+  return blocks;
+};
+
+// Variable-length LZW as GIF specifies it: codes start one bit wider than
+// the palette indices, grow with the table, and a clear code starts over
+// once 4096 codes are taken.
+const lzwEncode = (indices: Uint8Array): number[] => {
+  const clearCode = 1 << MIN_CODE_SIZE;
+  const endCode = clearCode + 1;
+  const output: number[] = [];
+  const table = new Map<number, number>();
+  let codeSize = MIN_CODE_SIZE + 1;
+  let nextCode = endCode + 1;
+  let bits = 0;
+  let bitCount = 0;
+
+  const emit = (code: number) => {
+    bits |= code << bitCount;
+    bitCount += codeSize;
+    while (bitCount >= 8) {
+      output.push(bits & 0xff);
+      bits >>>= 8;
+      bitCount -= 8;
+    }
+  };
+
+  emit(clearCode);
+  let prefix = indices[0];
+  for (let i = 1; i < indices.length; i++) {
+    const index = indices[i];
+    const key = (prefix << 8) | index;
+    const code = table.get(key);
+    if (code !== undefined) {
+      prefix = code;
+      continue;
+    }
+    emit(prefix);
+    if (nextCode < MAX_CODE) {
+      if (nextCode === 1 << codeSize) codeSize += 1;
+      table.set(key, nextCode);
+      nextCode += 1;
+    } else {
+      emit(clearCode);
+      table.clear();
+      codeSize = MIN_CODE_SIZE + 1;
+      nextCode = endCode + 1;
+    }
+    prefix = index;
+  }
+  emit(prefix);
+  emit(endCode);
+  if (bitCount > 0) output.push(bits & 0xff);
+  return output;
+};
+
+const word = (value: number) => [value & 0xff, (value >> 8) & 0xff];
+
+export const createGifEncoder = (
+  width: number,
+  height: number,
+  reference: Uint8ClampedArray
+): GifEncoder => {
+  const palette = createPalette(reference);
+  // The nearest palette entry for each bucket, found when first needed.
+  const nearest = new Int16Array(BUCKETS).fill(-1);
+  const paletteIndex = (bucket: number) => {
+    if (nearest[bucket] === -1) {
+      const r = ((bucket >> 10) << 3) + 4;
+      const g = (((bucket >> 5) & 31) << 3) + 4;
+      const b = ((bucket & 31) << 3) + 4;
+      let best = 0;
+      let bestDistance = Infinity;
+      palette.forEach(([pr, pg, pb], index) => {
+        const distance = (pr - r) ** 2 + (pg - g) ** 2 + (pb - b) ** 2;
+        if (distance < bestDistance) {
+          best = index;
+          bestDistance = distance;
+        }
+      });
+      nearest[bucket] = best;
+    }
+    return nearest[bucket];
+  };
+
+  const parts: Uint8Array[] = [];
+  const colorTable = new Array<number>(PALETTE_SIZE * 3).fill(0);
+  palette.forEach((color, index) => colorTable.splice(index * 3, 3, ...color));
+  parts.push(
+    new Uint8Array([
+      ...[..."GIF89a"].map((char) => char.charCodeAt(0)),
+      ...word(width),
+      ...word(height),
+      // A global color table of 256 entries.
+      0xf7,
+      0,
+      0,
+      ...colorTable,
+      // The NETSCAPE2.0 extension, looping forever.
+      0x21,
+      0xff,
+      0x0b,
+      ...[..."NETSCAPE2.0"].map((char) => char.charCodeAt(0)),
+      0x03,
+      0x01,
+      0,
+      0,
+      0,
+    ])
+  );
+
+  let previous: Uint8Array | null = null;
+  // Delays are stored in hundredths of a second; the rounding error is
+  // carried over so the animation keeps its length.
+  let elapsed = 0;
+  let written = 0;
+
+  const addFrame = (pixels: Uint8ClampedArray, delay: number) => {
+    const indices = new Uint8Array(width * height);
+    for (let i = 0; i < indices.length; i++) {
+      indices[i] = paletteIndex(bucketOf(pixels, i * 4));
+    }
+
+    let left = 0;
+    let top = 0;
+    let right = width - 1;
+    let bottom = height - 1;
+    if (previous) {
+      left = width;
+      top = height;
+      right = -1;
+      bottom = -1;
+      for (let y = 0; y < height; y++) {
+        for (let x = 0; x < width; x++) {
+          const i = y * width + x;
+          if (indices[i] === previous[i]) continue;
+          left = Math.min(left, x);
+          right = Math.max(right, x);
+          top = Math.min(top, y);
+          bottom = Math.max(bottom, y);
+        }
+      }
+      // Nothing changed: a single unchanged pixel still holds the delay.
+      if (right === -1) {
+        left = right = 0;
+        top = bottom = 0;
+      }
+    }
+    previous = indices;
+
+    const frameWidth = right - left + 1;
+    const frameHeight = bottom - top + 1;
+    const area = new Uint8Array(frameWidth * frameHeight);
+    for (let y = 0; y < frameHeight; y++) {
+      area.set(
+        indices.subarray((top + y) * width + left, (top + y) * width + right + 1),
+        y * frameWidth
+      );
+    }
+
+    elapsed += delay;
+    const centiseconds = Math.round(elapsed / 10) - written;
+    written += centiseconds;
+
+    parts.push(
+      new Uint8Array([
+        // Graphic control: keep this frame under the next one.
+        0x21,
+        0xf9,
+        0x04,
+        0x04,
+        ...word(centiseconds),
+        0,
+        0,
+        0x2c,
+        ...word(left),
+        ...word(top),
+        ...word(frameWidth),
+        ...word(frameHeight),
+        0,
+        MIN_CODE_SIZE,
+        ...subBlocks(lzwEncode(area)),
+      ])
+    );
+  };
+
+  const finish = () => {
+    parts.push(new Uint8Array([0x3b]));
+    return new Blob(parts as BlobPart[], { type: "image/gif" });
+  };
+
+  return { addFrame, finish };
+};
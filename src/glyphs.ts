@@ -0,0 +1,231 @@
+import type { Point } from "./types";
+
+// Printed characters as the handwriting recognizer compares ink against
+// them. Each glyph is a set of lines and arcs in a box where capitals and
+// ascenders reach from 0 to the baseline at 100, small letters start at 45
+// and descenders end at 140. Recognition only looks at where the ink is, so
+// the order and direction of the pieces don't matter, and only their shape
+// does: the recognizer scales every character to the same size.
+//
+// Letters whose capital has the same shape are listed once, in lower case,
+// and the recognizer tells the cases apart by size; "p" covers "P" too,
+// told apart by whether it reaches below the line. A plain upright bar is
+// "l", read as "I" or "1" from the characters around it.
+
+export interface Glyph {
+  char: string;
+  strokes: Point[][];
+}
+
+const line = (...coordinates: number[]): Point[] => {
+  const points: Point[] = [];
+  for (let i = 0; i < coordinates.length; i += 2) {
+    points.push({ x: coordinates[i], y: coordinates[i + 1] });
+  }
+  return points;
+};
+
+// Angles are in degrees, clockwise from the right as on screen, and the arc
+// runs from `from` to `to` whichever way round that is.
+const arc = (
+  cx: number,
+  cy: number,
+  rx: number,
+  ry: number,
+  from: number,
+  to: number
+): Point[] => {
+  const steps = Math.max(2, Math.ceil(Math.abs(to - from) / 15));
+  return Array.from({ length: steps + 1 }, (_, i) => {
+    const angle = ((from + ((to - from) * i) / steps) * Math.PI) / 180;
+    return { x: cx + rx * Math.cos(angle), y: cy + ry * Math.sin(angle) };
+  });
+};
+
+const dot = (x: number, y: number): Point[] => [{ x, y }];
+
+const glyph = (char: string, ...strokes: Point[][]): Glyph => ({
+  char,
+  strokes,
+});
+
+export const GLYPHS: Glyph[] = [
+  // Small letters.
+  glyph("a", arc(25, 72, 25, 27, 0, 360), line(50, 45, 50, 100)),
+  glyph(
+    "a",
+    arc(28, 58, 22, 13, 180, 360),
+    line(50, 58, 50, 100),
+    arc(30, 84, 20, 16, 90, 270),
+    line(30, 68, 50, 72),
+    line(30, 100, 50, 96)
+  ),
+  glyph("b", line(0, 0, 0, 100), arc(25, 72, 25, 27, 0, 360)),
+  glyph("c", arc(25, 72, 25, 27, -40, -320)),
+  glyph("d", arc(25, 72, 25, 27, 0, 360), line(50, 0, 50, 100)),
+  glyph("e", line(2, 72, 48, 72), arc(25, 72, 25, 27, 0, -310)),
+  glyph(
+    "f",
+    arc(45, 15, 20, 15, -30, -180),
+    line(25, 15, 25, 100),
+    line(5, 45, 50, 45)
+  ),
+  glyph(
+    "g",
+    arc(25, 70, 25, 25, 0, 360),
+    line(50, 45, 50, 120),
+    arc(27, 120, 23, 20, 0, 150)
+  ),
+  glyph(
+    "h",
+    line(0, 0, 0, 100),
+    arc(25, 65, 25, 20, 180, 360),
+    line(50, 65, 50, 100)
+  ),
+  glyph("i", line(25, 45, 25, 100), dot(25, 22)),
+  glyph(
+    "j",
+    line(30, 45, 30, 120),
+    arc(10, 120, 20, 20, 0, 150),
+    dot(30, 22)
+  ),
+  glyph("k", line(0, 0, 0, 100), line(45, 45, 0, 75), line(15, 66, 50, 100)),
+  glyph("k", line(0, 0, 0, 100), line(45, 45, 0, 75, 50, 100)),
+  glyph("l", line(10, 0, 10, 100)),
+  glyph(
+    "m",
+    line(0, 45, 0, 100),
+    arc(18, 62, 18, 17, 180, 360),
+    line(36, 62, 36, 100),
+    arc(54, 62, 18, 17, 180, 360),
+    line(72, 62, 72, 100)
+  ),
+  glyph(
+    "n",
+    line(0, 45, 0, 100),
+    arc(25, 65, 25, 20, 180, 360),
+    line(50, 65, 50, 100)
+  ),
+  glyph("o", arc(25, 72, 25, 27, 0, 360)),
+  glyph("p", line(0, 45, 0, 140), arc(25, 72, 25, 27, 0, 360)),
+  glyph(
+    "p",
+    line(0, 0, 0, 100),
+    line(0, 0, 20, 0),
+    arc(20, 25, 30, 25, -90, 90),
+    line(20, 50, 0, 50)
+  ),
+  glyph("q", arc(25, 72, 25, 27, 0, 360), line(50, 45, 50, 140)),
+  glyph("r", line(0, 45, 0, 100), arc(25, 65, 25, 18, 180, 300)),
+  glyph("s", arc(25, 59, 22, 14, -20, -270), arc(25, 86, 22, 14, -90, 160)),
+  glyph("t", line(20, 10, 20, 100), line(0, 45, 45, 45)),
+  glyph(
+    "t",
+    line(20, 10, 20, 85),
+    arc(35, 85, 15, 15, 180, 60),
+    line(0, 45, 45, 45)
+  ),
+  glyph(
+    "u",
+    line(0, 45, 0, 75),
+    arc(25, 75, 25, 25, 180, 0),
+    line(50, 45, 50, 100)
+  ),
+  glyph("u", line(0, 0, 0, 65), arc(35, 65, 35, 35, 180, 0), line(70, 65, 70, 0)),
+  glyph("v", line(0, 45, 25, 100, 50, 45)),
+  glyph("w", line(0, 45, 18, 100, 36, 60, 54, 100, 72, 45)),
+  glyph("x", line(0, 45, 50, 100), line(50, 45, 0, 100)),
+  glyph("y", line(0, 45, 25, 100), line(50, 45, 15, 140)),
+  glyph(
+    "y",
+    line(0, 45, 0, 75),
+    arc(25, 75, 25, 20, 180, 0),
+    line(50, 45, 50, 120),
+    arc(27, 120, 23, 20, 0, 150)
+  ),
+  glyph("z", line(0, 45, 50, 45, 0, 100, 50, 100)),
+
+  // Capitals.
+  glyph("A", line(0, 100, 35, 0, 70, 100), line(15, 60, 55, 60)),
+  glyph(
+    "B",
+    line(0, 0, 0, 100),
+    line(0, 0, 35, 0),
+    arc(35, 25, 25, 25, -90, 90),
+    line(35, 50, 0, 50),
+    line(0, 50, 40, 50),
+    arc(40, 75, 25, 25, -90, 90),
+    line(40, 100, 0, 100)
+  ),
+  glyph(
+    "D",
+    line(0, 0, 0, 100),
+    line(0, 0, 20, 0),
+    arc(20, 50, 45, 50, -90, 90),
+    line(20, 100, 0, 100)
+  ),
+  glyph("E", line(60, 0, 0, 0, 0, 100, 60, 100), line(0, 50, 50, 50)),
+  glyph("F", line(60, 0, 0, 0, 0, 100), line(0, 50, 50, 50)),
+  glyph(
+    "G",
+    arc(45, 50, 45, 50, -40, -340),
+    line(50, 55, 90, 55),
+    line(90, 55, 90, 90)
+  ),
+  glyph("H", line(0, 0, 0, 100), line(70, 0, 70, 100), line(0, 50, 70, 50)),
+  glyph("I", line(0, 0, 60, 0), line(30, 0, 30, 100), line(0, 100, 60, 100)),
+  glyph("J", line(60, 0, 60, 70), arc(32, 70, 28, 30, 0, 160)),
+  glyph(
+    "J",
+    line(20, 0, 90, 0),
+    line(60, 0, 60, 70),
+    arc(32, 70, 28, 30, 0, 160)
+  ),
+  glyph("K", line(0, 0, 0, 100), line(60, 0, 0, 55, 65, 100)),
+  glyph("L", line(0, 0, 0, 100, 60, 100)),
+  glyph("M", line(0, 100, 0, 0, 40, 70, 80, 0, 80, 100)),
+  glyph("N", line(0, 100, 0, 0, 70, 100, 70, 0)),
+  glyph("o", arc(40, 50, 40, 50, 0, 360)),
+  glyph("Q", arc(40, 50, 40, 50, 0, 360), line(50, 70, 85, 105)),
+  glyph(
+    "R",
+    line(0, 0, 0, 100),
+    line(0, 0, 20, 0),
+    arc(20, 25, 30, 25, -90, 90),
+    line(20, 50, 0, 50),
+    line(20, 50, 55, 100)
+  ),
+  glyph("T", line(0, 0, 70, 0), line(35, 0, 35, 100)),
+  glyph("Y", line(0, 0, 35, 50, 70, 0), line(35, 50, 35, 100)),
+
+  // Digits.
+  glyph("0", arc(25, 50, 25, 50, 0, 360)),
+  glyph("1", line(10, 20, 30, 0, 30, 100)),
+  glyph("1", line(10, 20, 30, 0, 30, 100), line(5, 100, 55, 100)),
+  glyph("2", arc(30, 28, 28, 26, -160, 20), line(56, 37, 0, 100, 60, 100)),
+  glyph("3", arc(30, 27, 27, 23, -150, 90), arc(30, 75, 30, 25, -90, 150)),
+  glyph("4", line(45, 0, 0, 70, 65, 70), line(45, 0, 45, 100)),
+  glyph("4", line(10, 0, 0, 60, 60, 60), line(45, 30, 45, 100)),
+  glyph("5", line(55, 0, 10, 0, 5, 45), arc(28, 70, 28, 30, -120, 150)),
+  glyph("6", arc(30, 72, 28, 28, 0, 360), arc(55, 70, 53, 70, -120, -180)),
+  glyph("7", line(0, 0, 60, 0, 20, 100)),
+  glyph("7", line(0, 0, 60, 0, 20, 100), line(15, 50, 50, 50)),
+  glyph("8", arc(30, 25, 22, 25, 0, 360), arc(30, 75, 28, 25, 0, 360)),
+  glyph("9", arc(28, 28, 28, 28, 0, 360), line(56, 28, 56, 100)),
+
+  // Punctuation. Dots, commas and apostrophes are told by size instead.
+  glyph("-", line(0, 50, 40, 50)),
+  glyph("=", line(0, 40, 50, 40), line(0, 60, 50, 60)),
+  glyph("+", line(0, 50, 50, 50), line(25, 25, 25, 75)),
+  glyph("/", line(40, 0, 0, 100)),
+  glyph("(", arc(40, 50, 35, 55, 120, 240)),
+  glyph(")", arc(0, 50, 35, 55, -60, 60)),
+  glyph(":", dot(0, 45), dot(0, 95)),
+  glyph(
+    "?",
+    arc(25, 22, 22, 20, -160, 90),
+    line(25, 42, 25, 70),
+    dot(25, 95)
+  ),
+  glyph("!", line(10, 0, 10, 70), dot(10, 95)),
+];
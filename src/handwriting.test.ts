@@ -0,0 +1,89 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { GLYPHS } from "./glyphs";
+import {
+  drawingText,
+  handwritingRecognitionLimits,
+  recognizeHandwriting,
+} from "./handwriting";
+import type { Point, Stroke } from "./types";
+
+let nextId = 0;
+
+const stroke = (points: Point[]): Stroke => ({
+  id: `stroke-${nextId++}`,
+  points,
+  color: "#000000",
+  tool: "pen",
+  lineWidth: 3,
+  opacity: 100,
+});
+
+// Writes `text` in print with the first glyph for each character, caps
+// `height` tall and a little apart, with a tilt so no two letters come out
+// exactly like the glyphs.
+const write = (text: string, x: number, y: number, height = 40) => {
+  const strokes: Stroke[] = [];
+  const scale = height / 100;
+  let left = x;
+  for (const char of text) {
+    if (char === " ") {
+      left += height * 0.8;
+      continue;
+    }
+    const glyph = GLYPHS.find((entry) => entry.char === char);
+    if (!glyph) throw new Error(`No glyph for ${char}`);
+    const points = glyph.strokes.flat();
+    const minX = Math.min(...points.map((point) => point.x));
+    const maxX = Math.max(...points.map((point) => point.x));
+    glyph.strokes.forEach((piece) =>
+      strokes.push(
+        stroke(
+          piece.map((point) => ({
+            x: left + (point.x - minX + (100 - point.y) * 0.1) * scale,
+            y: y + point.y * scale,
+          }))
+        )
+      )
+    );
+    left += (maxX - minX) * scale + height * 0.25;
+  }
+  return strokes;
+};
+
+describe("recognizeHandwriting", () => {
+  beforeEach(() => {
+    vi.stubGlobal("navigator", {});
+  });
+
+  it("reads printed words", async () => {
+    expect(await recognizeHandwriting(write("hello world", 10, 10))).toBe(
+      "hello world"
+    );
+  });
+
+  it("reads lines top to bottom", async () => {
+    const strokes = [...write("bed", 10, 100), ...write("red", 10, 10)];
+    expect(await recognizeHandwriting(strokes)).toBe("red\nbed");
+  });
+
+  it("tells digits from letters by the word they are in", async () => {
+    expect(await recognizeHandwriting(write("l0 lo", 10, 10))).toBe("10 lo");
+  });
+
+  it("warns about its limits unless the browser reads the ink", () => {
+    expect(handwritingRecognitionLimits()).not.toBeNull();
+    vi.stubGlobal("navigator", { createHandwritingRecognizer: vi.fn() });
+    expect(handwritingRecognitionLimits()).toBeNull();
+  });
+});
+
+describe("drawingText", () => {
+  it("keeps recognized text only while some of its ink is there", () => {
+    const ink = stroke([{ x: 0, y: 0 }]);
+    const recognized = [
+      { strokeIds: [ink.id], text: "kept" },
+      { strokeIds: ["erased"], text: "gone" },
+    ];
+    expect(drawingText([ink], recognized)).toBe("kept");
+  });
+});
@@ -0,0 +1,616 @@
+import { GLYPHS } from "./glyphs";
+import type { Bounds } from "./selection";
+import type { Point, RecognizedText, Stroke } from "./types";
+
+// Recognition runs on the device, from the points of the strokes, so ink
+// never leaves it. Browsers with their own handwriting model (the
+// Handwriting Recognition API, in Chrome on ChromeOS) use it. Everywhere
+// else the app reads the ink itself: it splits the ink into lines and
+// characters and compares each character with printed letters, digits and
+// punctuation drawn as strokes (see GLYPHS). That reads print written one
+// character at a time, not joined-up writing.
+
+interface HandwritingPoint {
+  x: number;
+  y: number;
+  // Milliseconds since the start of the drawing.
+  t: number;
+}
+
+interface HandwritingStroke {
+  addPoint: (point: HandwritingPoint) => void;
+}
+
+interface HandwritingDrawing {
+  addStroke: (stroke: HandwritingStroke) => void;
+  getPrediction: () => Promise<{ text: string }[]>;
+}
+
+interface HandwritingRecognizer {
+  startDrawing: (hints: {
+    recognitionType: "text";
+    inputType: "stylus";
+    alternatives: number;
+  }) => HandwritingDrawing;
+  finish: () => void;
+}
+
+interface HandwritingNavigator {
+  createHandwritingRecognizer?: (constraint: {
+    languages: string[];
+  }) => Promise<HandwritingRecognizer>;
+}
+
+declare const HandwritingStroke: { new (): HandwritingStroke };
+
+// The gap left between strokes that have no timestamps.
+const STROKE_GAP = 100;
+
+// Each character is compared as this many points spread along its ink.
+const CLOUD_SIZE = 32;
+// A dot weighs as much as a stroke this long, relative to its character.
+const DOT_LENGTH = 0.1;
+
+// Sizes relative to the height of the writing. Marks are dots, commas and
+// the like; the smallest of them are full stops.
+const MARK_SIZE = 0.25;
+const DOT_SIZE = 0.12;
+// How far the dot of an i can be to the side of its stem.
+const MARK_REACH = 0.3;
+// How close strokes come to be one character when they touch.
+const TOUCH_DISTANCE = 0.1;
+const WORD_GAP = 0.6;
+// Letters further apart than this, one above the other, are on different
+// lines, and a dot or dash within this of a line belongs to it.
+const LINE_GAP = 0.2;
+const MARK_LINE_REACH = 0.7;
+// How many characters a line needs for its slant to be straightened.
+const SLANT_CHARACTERS = 3;
+// How far below the line a letter reaches to be a descender.
+const DESCENT = 0.25;
+
+// Strokes lying side by side more than this share of the narrower one are
+// parts of one character, like the bars of an E.
+const CHARACTER_OVERLAP = 0.8;
+
+// Letters whose capital has the same shape, and letters and digits that
+// only their place on the line tells apart.
+const CASE_BY_SIZE = "cosuvwxz";
+const TALL_CHARACTERS = "ABDEFGHIJKLMNQRTYbdfhklt0123456789";
+const SMALL_CHARACTERS = "aemnr";
+const DESCENDERS = "gjpqy";
+
+const hasBrowserRecognizer = () => "createHandwritingRecognizer" in navigator;
+
+// Only freehand ink is handwriting; shapes and text boxes are left out.
+export const isInkStroke = (stroke: Stroke) => !stroke.shape && !stroke.text;
+
+// Points keep their timestamps, which help the browser's model tell strokes
+// apart; strokes without them are spaced out evenly.
+const recognizeWithBrowser = async (
+  createHandwritingRecognizer: NonNullable<
+    HandwritingNavigator["createHandwritingRecognizer"]
+  >,
+  strokes: Stroke[]
+): Promise<string> => {
+  const recognizer = await createHandwritingRecognizer.call(navigator, {
+    languages: [navigator.language || "en"],
+  });
+  try {
+    const drawing = recognizer.startDrawing({
+      recognitionType: "text",
+      inputType: "stylus",
+      alternatives: 1,
+    });
+    const start = strokes[0]?.points[0]?.timestamp ?? 0;
+    let time = 0;
+    strokes.forEach(({ points }) => {
+      const stroke = new HandwritingStroke();
+      const first = points[0]?.timestamp;
+      points.forEach((point, i) => {
+        time =
+          first === undefined || point.timestamp === undefined
+            ? time + (i === 0 ? STROKE_GAP : 1)
+            : Math.max(time, point.timestamp - start);
+        stroke.addPoint({ x: point.x, y: point.y, t: time });
+      });
+      drawing.addStroke(stroke);
+    });
+    const [prediction] = await drawing.getPrediction();
+    return prediction?.text.trim() ?? "";
+  } finally {
+    recognizer.finish();
+  }
+};
+
+// Ink as the built-in recognizer sees it: the points of each stroke.
+type Ink = Point[][];
+
+// A character found in the ink, and what it was read as.
+interface InkCharacter {
+  ink: Ink;
+  bounds: Bounds;
+  char: string;
+  // Every character the ink could be, closest first.
+  candidates: string[];
+}
+
+const sum = (values: number[]) =>
+  values.reduce((total, value) => total + value, 0);
+
+const median = (values: number[]) =>
+  [...values].sort((a, b) => a - b)[Math.floor(values.length / 2)];
+
+const inkBounds = (ink: Ink): Bounds => {
+  const bounds = {
+    minX: Infinity,
+    minY: Infinity,
+    maxX: -Infinity,
+    maxY: -Infinity,
+  };
+  ink.forEach((points) =>
+    points.forEach(({ x, y }) => {
+      bounds.minX = Math.min(bounds.minX, x);
+      bounds.minY = Math.min(bounds.minY, y);
+      bounds.maxX = Math.max(bounds.maxX, x);
+      bounds.maxY = Math.max(bounds.maxY, y);
+    })
+  );
+  return bounds;
+};
+
+const boundsWidth = ({ minX, maxX }: Bounds) => maxX - minX;
+const boundsHeight = ({ minY, maxY }: Bounds) => maxY - minY;
+const centerY = ({ minY, maxY }: Bounds) => (minY + maxY) / 2;
+
+const pathLength = (points: Point[]) =>
+  sum(
+    points
+      .slice(1)
+      .map((point, i) =>
+        Math.hypot(point.x - points[i].x, point.y - points[i].y)
+      )
+  );
+
+const pointAlong = (points: Point[], distance: number): Point => {
+  let left = distance;
+  for (let i = 1; i < points.length; i++) {
+    const a = points[i - 1];
+    const b = points[i];
+    const length = Math.hypot(b.x - a.x, b.y - a.y);
+    if (length > 0 && left <= length) {
+      const t = left / length;
+      return { x: a.x + (b.x - a.x) * t, y: a.y + (b.y - a.y) * t };
+    }
+    left -= length;
+  }
+  return points[points.length - 1];
+};
+
+// Spreads CLOUD_SIZE points along the ink, shared out by the length of each
+// stroke with at least one each, then centers and scales them so that only
+// the shape counts.
+const toCloud = (ink: Ink): Point[] => {
+  const bounds = inkBounds(ink);
+  const size = Math.max(boundsWidth(bounds), boundsHeight(bounds)) || 1;
+  const strokes = [...ink]
+    .sort((a, b) => pathLength(b) - pathLength(a))
+    .slice(0, CLOUD_SIZE);
+  const lengths = strokes.map((points) =>
+    Math.max(pathLength(points), size * DOT_LENGTH)
+  );
+  const total = sum(lengths);
+  const shares = lengths.map(
+    (length) => 1 + ((CLOUD_SIZE - strokes.length) * length) / total
+  );
+  // The largest remainders round up, so the counts add up exactly.
+  const counts = shares.map(Math.floor);
+  shares
+    .map((share, i) => ({ remainder: share - counts[i], i }))
+    .sort((a, b) => b.remainder - a.remainder)
+    .slice(0, CLOUD_SIZE - sum(counts))
+    .forEach(({ i }) => counts[i]++);
+  const points = strokes.flatMap((stroke, i) => {
+    const length = pathLength(stroke);
+    return Array.from({ length: counts[i] }, (_, j) =>
+      pointAlong(stroke, (length * (j + 0.5)) / counts[i])
+    );
+  });
+  const cx = sum(points.map((point) => point.x)) / points.length;
+  const cy = sum(points.map((point) => point.y)) / points.length;
+  return points.map((point) => ({
+    x: (point.x - cx) / size,
+    y: (point.y - cy) / size,
+  }));
+};
+
+// Pairs each point of `a`, from `start` on, with the nearest point of `b`
+// not paired yet. The earlier pairs, made with more choice, weigh more.
+const cloudDistance = (a: Point[], b: Point[], start: number) => {
+  const paired = new Array<boolean>(b.length).fill(false);
+  let distance = 0;
+  for (let k = 0; k < a.length; k++) {
+    const point = a[(start + k) % a.length];
+    let nearest = -1;
+    let nearestDistance = Infinity;
+    b.forEach((other, j) => {
+      if (paired[j]) return;
+      const d = Math.hypot(point.x - other.x, point.y - other.y);
+      if (d < nearestDistance) {
+        nearest = j;
+        nearestDistance = d;
+      }
+    });
+    paired[nearest] = true;
+    distance += (1 - k / a.length) * nearestDistance;
+  }
+  return distance;
+};
+
+// The $P point cloud recognizer's match (Vatavu, Anthony and Wobbrock,
+// 2012), which ignores the order and direction strokes were drawn in.
+const cloudMatch = (a: Point[], b: Point[]) => {
+  const step = Math.floor(Math.sqrt(a.length));
+  let best = Infinity;
+  for (let start = 0; start < a.length; start += step) {
+    best = Math.min(
+      best,
+      cloudDistance(a, b, start),
+      cloudDistance(b, a, start)
+    );
+  }
+  return best;
+};
+
+let glyphClouds: { char: string; cloud: Point[] }[] | null = null;
+
+const classifyCharacter = (ink: Ink): string[] => {
+  glyphClouds ??= GLYPHS.map(({ char, strokes }) => ({
+    char,
+    cloud: toCloud(strokes),
+  }));
+  const cloud = toCloud(ink);
+  const distances = new Map<string, number>();
+  glyphClouds.forEach(({ char, cloud: glyphCloud }) => {
+    const distance = cloudMatch(cloud, glyphCloud);
+    distances.set(char, Math.min(distance, distances.get(char) ?? Infinity));
+  });
+  return [...distances]
+    .sort(([, a], [, b]) => a - b)
+    .map(([char]) => char);
+};
+
+// The height of a letter in the writing: the middle stroke height, leaving
+// out dots and bars.
+const writingSize = (ink: Ink) => {
+  const heights = ink.map((points) => boundsHeight(inkBounds([points])));
+  const tallest = Math.max(...heights);
+  return median(heights.filter((height) => height >= tallest / 5)) || 1;
+};
+
+// Sorts strokes into lines of writing, top to bottom. Strokes of a letter
+// or more in height make up the lines wherever they reach into each other;
+// dots and dashes then join the nearest line.
+const splitLines = (ink: Ink, size: number): Ink[] => {
+  const strokes = ink.map((points) => ({ points, bounds: inkBounds([points]) }));
+  const isSmall = ({ bounds }: { bounds: Bounds }) =>
+    boundsHeight(bounds) < size / 2;
+  const lines: { ink: Ink; bounds: Bounds }[] = [];
+  strokes
+    .filter((stroke) => !isSmall(stroke))
+    .sort((a, b) => a.bounds.minY - b.bounds.minY)
+    .forEach(({ points, bounds }) => {
+      const line = lines[lines.length - 1];
+      if (line && bounds.minY <= line.bounds.maxY + size * LINE_GAP) {
+        line.ink.push(points);
+        line.bounds.maxY = Math.max(line.bounds.maxY, bounds.maxY);
+      } else {
+        lines.push({ ink: [points], bounds: { ...bounds } });
+      }
+    });
+  strokes.filter(isSmall).forEach(({ points, bounds }) => {
+    const y = centerY(bounds);
+    const distance = (line: { bounds: Bounds }) =>
+      Math.max(line.bounds.minY - y, y - line.bounds.maxY, 0);
+    const line = [...lines].sort((a, b) => distance(a) - distance(b))[0];
+    if (line && distance(line) <= size * MARK_LINE_REACH) {
+      line.ink.push(points);
+    } else {
+      lines.push({ ink: [points], bounds });
+    }
+  });
+  return lines
+    .sort((a, b) => a.bounds.minY - b.bounds.minY)
+    .map((line) => line.ink);
+};
+
+const segmentDistance = (point: Point, a: Point, b: Point) => {
+  const dx = b.x - a.x;
+  const dy = b.y - a.y;
+  const lengthSquared = dx * dx + dy * dy;
+  const along = (point.x - a.x) * dx + (point.y - a.y) * dy;
+  const t =
+    lengthSquared > 0 ? Math.max(0, Math.min(1, along / lengthSquared)) : 0;
+  return Math.hypot(point.x - (a.x + dx * t), point.y - (a.y + dy * t));
+};
+
+// Whether a point of either stroke comes within `distance` of the other.
+// Fast strokes have few points, so the lines between them count too.
+const touches = (a: Point[], b: Point[], distance: number) => {
+  const reaches = (points: Point[], line: Point[]) =>
+    points.some((point) =>
+      line.length === 1
+        ? segmentDistance(point, line[0], line[0]) <= distance
+        : line
+            .slice(1)
+            .some((end, i) => segmentDistance(point, line[i], end) <= distance)
+    );
+  return reaches(a, b) || reaches(b, a);
+};
+
+const overlapX = (a: Bounds, b: Bounds) =>
+  Math.min(a.maxX, b.maxX) - Math.max(a.minX, b.minX);
+
+const isMark = (bounds: Bounds, size: number) =>
+  Math.max(boundsWidth(bounds), boundsHeight(bounds)) < size * MARK_SIZE;
+
+// Whether two strokes of a line are parts of one character: they cross,
+// touch or lie over each other, like the bars of an E, or they are marks
+// one above the other, like a colon.
+const sameCharacter = (
+  a: Point[],
+  aBounds: Bounds,
+  b: Point[],
+  bBounds: Bounds,
+  size: number
+) => {
+  const overlap = overlapX(aBounds, bBounds);
+  if (isMark(aBounds, size) && isMark(bBounds, size)) {
+    const gap =
+      Math.max(aBounds.minY, bBounds.minY) - Math.min(aBounds.maxY, bBounds.maxY);
+    return overlap > -size * MARK_REACH && gap < size * 0.8;
+  }
+  if (isMark(aBounds, size) || isMark(bBounds, size)) return false;
+  return (
+    overlap >=
+      CHARACTER_OVERLAP * Math.min(boundsWidth(aBounds), boundsWidth(bBounds)) ||
+    (overlap > -size * TOUCH_DISTANCE && touches(a, b, size * TOUCH_DISTANCE))
+  );
+};
+
+// How far a mark is to the side of a letter it can belong to, or null. A
+// mark belongs to a letter it sits above or next to the top of, like the
+// dot of an i, but one lower down only to a letter right above it, like
+// the dot of a !, so that a full stop stays apart from the letter before.
+const markDistance = (mark: Bounds, letter: Bounds, size: number) => {
+  const above = centerY(mark) < centerY(letter);
+  const overlap = overlapX(mark, letter);
+  return overlap > -size * (above ? MARK_REACH : TOUCH_DISTANCE)
+    ? Math.max(0, -overlap)
+    : null;
+};
+
+// Groups the strokes of a line into characters, left to right. Each mark
+// joins only the nearest letter it can belong to.
+const splitCharacters = (ink: Ink, size: number): Ink[] => {
+  const bounds = ink.map((points) => inkBounds([points]));
+  const group = ink.map((_, i) => i);
+  const root = (i: number): number =>
+    group[i] === i ? i : (group[i] = root(group[i]));
+  ink.forEach((a, i) =>
+    ink.slice(i + 1).forEach((b, k) => {
+      const j = i + 1 + k;
+      if (sameCharacter(a, bounds[i], b, bounds[j], size)) {
+        group[root(i)] = root(j);
+      }
+    })
+  );
+  const letters = ink.flatMap((_, i) => (isMark(bounds[i], size) ? [] : [i]));
+  ink.forEach((_, i) => {
+    if (!isMark(bounds[i], size) || root(i) !== i) return;
+    const markBounds = inkBounds(ink.filter((_, j) => root(j) === i));
+    const nearest = letters
+      .map((j) => ({ j, distance: markDistance(markBounds, bounds[j], size) }))
+      .filter(({ distance }) => distance !== null)
+      .sort((a, b) => (a.distance ?? 0) - (b.distance ?? 0))[0];
+    if (nearest) group[i] = root(nearest.j);
+  });
+  const characters = new Map<number, Ink>();
+  ink.forEach((points, i) => {
+    const key = root(i);
+    characters.set(key, [...(characters.get(key) ?? []), points]);
+  });
+  return [...characters.values()].sort(
+    (a, b) => inkBounds(a).minX - inkBounds(b).minX
+  );
+};
+
+// Settles what only the rest of the line tells: capitals by their height
+// next to small and tall letters, p from P and g or q from 9 by whether
+// they reach below the line, and marks by where they sit on it.
+const settleCharacters = (characters: InkCharacter[], size: number) => {
+  const heights = (chars: string) =>
+    characters
+      .filter(({ char }) => chars.includes(char))
+      .map(({ bounds }) => boundsHeight(bounds));
+  const tall = heights(TALL_CHARACTERS);
+  const small = heights(SMALL_CHARACTERS);
+  const tallHeight = tall.length > 0 ? median(tall) : null;
+  const smallHeight = small.length > 0 ? median(small) : null;
+  const onLine = characters.filter(
+    ({ char }) => char && !DESCENDERS.includes(char)
+  );
+  const baseline =
+    onLine.length > 0 ? median(onLine.map(({ bounds }) => bounds.maxY)) : null;
+
+  const isTall = (height: number) =>
+    tallHeight !== null && smallHeight !== null
+      ? height > (tallHeight + smallHeight) / 2
+      : tallHeight !== null
+        ? height > tallHeight * 0.8
+        : smallHeight !== null && height > smallHeight * 1.4;
+
+  characters.forEach((character) => {
+    const { bounds, candidates } = character;
+    const height = boundsHeight(bounds);
+    if (!character.char) {
+      const low = baseline === null || bounds.minY > baseline - size * 0.5;
+      const tiny = Math.max(boundsWidth(bounds), height) < size * DOT_SIZE;
+      character.char = !low ? "'" : tiny ? "." : ",";
+      return;
+    }
+    // A tall shape written as small as the small letters is the closest
+    // small letter instead, like an n rather than an H.
+    if (
+      tallHeight !== null &&
+      smallHeight !== null &&
+      TALL_CHARACTERS.includes(character.char) &&
+      !isTall(height)
+    ) {
+      character.char =
+        candidates.find((char) => !TALL_CHARACTERS.includes(char)) ??
+        character.char;
+    }
+    const { char } = character;
+    if (CASE_BY_SIZE.includes(char)) {
+      if (isTall(height)) character.char = char.toUpperCase();
+      return;
+    }
+    if (baseline === null || !"pgq9".includes(char)) return;
+    const descends = bounds.maxY > baseline + size * DESCENT;
+    if (char === "p" && !descends) character.char = "P";
+    if ((char === "g" || char === "q") && !descends) character.char = "9";
+    if (char === "9" && descends) character.char = "q";
+  });
+};
+
+const isDigit = (char: string) => char >= "0" && char <= "9";
+const isLetter = (char: string) => char.toLowerCase() !== char.toUpperCase();
+
+// Reads an upright bar as l, I or 1 and a ring as o or 0 by the word it is
+// in: digits among digits, I alone or among capitals.
+const settleWord = (word: InkCharacter[]) => {
+  const others = (character: InkCharacter) =>
+    word.filter((other) => other !== character).map(({ char }) => char);
+  word.forEach((character) => {
+    const { char } = character;
+    const rest = others(character);
+    const digits = rest.filter(isDigit).length;
+    const letters = rest.filter(isLetter);
+    if (char === "l") {
+      character.char =
+        digits > letters.length
+          ? "1"
+          : letters.every((letter) => letter === letter.toUpperCase())
+            ? "I"
+            : "l";
+    } else if (char === "o" || char === "O") {
+      if (digits > letters.length) character.char = "0";
+    } else if (char === "0" && letters.length > digits) {
+      character.char = letters.every((letter) => letter === letter.toUpperCase())
+        ? "O"
+        : "o";
+    }
+  });
+};
+
+// Leans slanted writing upright, going by how the steep parts of the
+// strokes lean on average, so that letters side by side don't overlap.
+const upright = (ink: Ink): Ink => {
+  let across = 0;
+  let down = 0;
+  ink.forEach((points) =>
+    points.slice(1).forEach((point, i) => {
+      const dx = point.x - points[i].x;
+      const dy = point.y - points[i].y;
+      if (Math.abs(dy) <= Math.abs(dx)) return;
+      across += Math.sign(dy) * dx;
+      down += Math.abs(dy);
+    })
+  );
+  const slant = down > 0 ? across / down : 0;
+  return ink.map((points) =>
+    points.map(({ x, y }) => ({ x: x - slant * y, y }))
+  );
+};
+
+const readLine = (ink: Ink, size: number): string => {
+  // A letter or two are too few to tell their slant from their shape.
+  const straight = splitCharacters(upright(ink), size);
+  const split =
+    straight.length >= SLANT_CHARACTERS ? straight : splitCharacters(ink, size);
+  const characters: InkCharacter[] = split.map((characterInk) => {
+    const bounds = inkBounds(characterInk);
+    // Marks are too small to have a shape worth comparing.
+    const candidates = isMark(bounds, size)
+      ? []
+      : classifyCharacter(characterInk);
+    return {
+      ink: characterInk,
+      bounds,
+      char: candidates[0] ?? "",
+      candidates,
+    };
+  });
+  settleCharacters(characters, size);
+  const words: InkCharacter[][] = [];
+  characters.forEach((character, i) => {
+    const gap = i > 0 ? character.bounds.minX - characters[i - 1].bounds.maxX : 0;
+    if (i === 0 || gap > size * WORD_GAP) {
+      words.push([character]);
+    } else {
+      words[words.length - 1].push(character);
+    }
+  });
+  words.forEach(settleWord);
+  return words
+    .map((word) => word.map(({ char }) => char).join(""))
+    .join(" ");
+};
+
+const recognizeInk = (strokes: Stroke[]): string => {
+  const ink = strokes
+    .map(({ points }) => points)
+    .filter((points) => points.length > 0);
+  if (ink.length === 0) return "";
+  const size = writingSize(ink);
+  return splitLines(ink, size)
+    .map((line) => readLine(line, writingSize(line)))
+    .join("\n");
+};
+
+// What the user should know about the recognizer in use, or null when the
+// browser's own model reads the ink.
+export const handwritingRecognitionLimits = () =>
+  hasBrowserRecognizer()
+    ? null
+    : "Reads print written one letter at a time. Joined-up writing comes " +
+      "out garbled, so check the text before using it.";
+
+// Recognizes `strokes` as one piece of writing, in the order they were
+// drawn.
+export const recognizeHandwriting = async (
+  strokes: Stroke[]
+): Promise<string> => {
+  const { createHandwritingRecognizer } = navigator as HandwritingNavigator;
+  return createHandwritingRecognizer
+    ? recognizeWithBrowser(createHandwritingRecognizer, strokes)
+    : recognizeInk(strokes);
+};
+
+// What a drawing can be found by: its text boxes, and the handwriting
+// recognized in it while that ink is still there.
+export const drawingText = (
+  strokes: Stroke[],
+  recognized: RecognizedText[]
+): string => {
+  const ids = new Set(strokes.map((stroke) => stroke.id));
+  return [
+    ...strokes.flatMap((stroke) => (stroke.text ? [stroke.text.content] : [])),
+    ...recognized
+      .filter((entry) => entry.strokeIds.some((id) => ids.has(id)))
+      .map((entry) => entry.text),
+  ]
+    .join("\n")
+    .trim();
+};
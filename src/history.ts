@@ -0,0 +1,240 @@
+import { DEFAULT_LAYERS, strokeLayerId } from "./layers";
+import type {
+  Command,
+  CommandType,
+  Layer,
+  LayerChange,
+  Stroke,
+  StrokeChange,
+} from "./types";
+
+const applyChange = (
+  strokes: Stroke[],
+  { index, before, after }: StrokeChange
+): Stroke[] => [
+  ...strokes.slice(0, index),
+  ...after,
+  ...strokes.slice(index + before.length),
+];
+
+const invertChange = ({ index, before, after }: StrokeChange): StrokeChange => ({
+  index,
+  before: after,
+  after: before,
+});
+
+export const applyCommand = (strokes: Stroke[], command: Command): Stroke[] =>
+  command.changes.reduce(applyChange, strokes);
+
+export const applyLayerCommand = (layers: Layer[], command: Command): Layer[] =>
+  command.layers?.after ?? layers;
+
+// Each change's index refers to the stroke list as the previous change left
+// it, so undoing the changes in reverse order restores the list exactly.
+export const invertCommand = (command: Command): Command => ({
+  ...command,
+  changes: [...command.changes].reverse().map(invertChange),
+  layers: command.layers && {
+    before: command.layers.after,
+    after: command.layers.before,
+  },
+});
+
+// Rebuilds the drawing from scratch; undo and redo apply a single command
+// instead.
+export const replayHistory = (
+  history: Command[],
+  historyIndex: number
+): Stroke[] => history.slice(0, historyIndex + 1).reduce(applyCommand, []);
+
+// The layers as the latest command that changed them left them.
+export const replayLayers = (
+  history: Command[],
+  historyIndex: number
+): Layer[] => {
+  for (let i = historyIndex; i >= 0; i--) {
+    const layers = history[i].layers;
+    if (layers) return layers.after;
+  }
+  return DEFAULT_LAYERS;
+};
+
+const sameLayer = (a: Layer, b: Layer) =>
+  (Object.keys(a) as (keyof Layer)[]).every((key) => a[key] === b[key]);
+
+// Re-targets a layer change recorded against another layer list at
+// `layers`, layer by layer: layers it removed are removed, layers it added
+// go above the layer they were added above, and only the fields it changed
+// are changed, so a peer's concurrent layer edits survive it. A reorder puts
+// the layers it knows in its order, in the places they hold now. A drawing
+// always keeps a layer, so a change that would remove the last one leaves
+// the list alone.
+const rebaseLayers = (
+  layers: Layer[],
+  { before, after }: LayerChange
+): Layer[] => {
+  const previous = new Map(before.map((layer) => [layer.id, layer]));
+  const next = new Map(after.map((layer) => [layer.id, layer]));
+  let rebased = layers.flatMap((layer) => {
+    const was = previous.get(layer.id);
+    const now = next.get(layer.id);
+    if (!was) return [layer];
+    if (!now) return [];
+    const changed = (Object.keys(now) as (keyof Layer)[]).filter(
+      (key) => now[key] !== was[key]
+    );
+    return [
+      {
+        ...layer,
+        ...Object.fromEntries(changed.map((key) => [key, now[key]])),
+      },
+    ];
+  });
+  after.forEach((layer, i) => {
+    if (previous.has(layer.id)) return;
+    if (rebased.some((entry) => entry.id === layer.id)) return;
+    const below = after
+      .slice(0, i)
+      .reverse()
+      .find((entry) => rebased.some(({ id }) => id === entry.id));
+    const at = below ? rebased.findIndex(({ id }) => id === below.id) + 1 : 0;
+    rebased = [...rebased.slice(0, at), layer, ...rebased.slice(at)];
+  });
+  const order = after.map((layer) => layer.id);
+  const slots = rebased.flatMap((layer, i) =>
+    next.has(layer.id) ? [i] : []
+  );
+  const ordered = slots
+    .map((slot) => rebased[slot])
+    .sort((a, b) => order.indexOf(a.id) - order.indexOf(b.id));
+  slots.forEach((slot, i) => {
+    rebased[slot] = ordered[i];
+  });
+  if (rebased.length === 0) return layers;
+  const unchanged =
+    rebased.length === layers.length &&
+    rebased.every((layer, i) => sameLayer(layer, layers[i]));
+  return unchanged ? layers : rebased;
+};
+
+// Re-targets a command recorded against other strokes, such as a peer's
+// edit in a shared session, at `strokes`. The strokes it replaces are found
+// by id wherever they are now, and skipped once gone, so the result applies
+// exactly and inverts like any other command. Layer changes are rebased
+// the same way, by layer id.
+export const rebaseCommand = (
+  strokes: Stroke[],
+  layers: Layer[],
+  command: Command
+): Command => {
+  const changes: StrokeChange[] = [];
+  let current = strokes;
+  const record = (change: StrokeChange) => {
+    if (change.before.length === 0 && change.after.length === 0) return;
+    changes.push(change);
+    current = applyChange(current, change);
+  };
+  command.changes.forEach(({ index, before, after }) => {
+    // Replacing strokes that already carry an id from `after` keeps every id
+    // in the list once.
+    const ids = new Set([...before, ...after].map((stroke) => stroke.id));
+    const found = current.flatMap((stroke, i) => (ids.has(stroke.id) ? [i] : []));
+    const at = found.length > 0 ? found[0] : Math.min(index, current.length);
+    if (found.every((position, i) => position === at + i)) {
+      record({ index: at, before: current.slice(at, at + found.length), after });
+      return;
+    }
+    [...found]
+      .reverse()
+      .forEach((position) =>
+        record({ index: position, before: [current[position]], after: [] })
+      );
+    record({ index: at, before: [], after });
+  });
+  return {
+    ...command,
+    changes,
+    layers: command.layers && {
+      before: layers,
+      after: rebaseLayers(layers, command.layers),
+    },
+  };
+};
+
+export const addCommand = (strokes: Stroke[], added: Stroke[]): Command => ({
+  type: "add",
+  changes: [{ index: strokes.length, before: [], after: added }],
+});
+
+// Swaps strokes in place (keeping their z-order) for their replacements, an
+// empty list removing them. Changes run from the top of the stack down so the
+// indices of the ones still to come stay valid.
+export const replaceCommand = (
+  type: Exclude<CommandType, "add">,
+  strokes: Stroke[],
+  replaced: Record<string, Stroke[]>
+): Command => ({
+  type,
+  changes: strokes
+    .map((stroke, index): StrokeChange | null =>
+      replaced[stroke.id]
+        ? { index, before: [stroke], after: replaced[stroke.id] }
+        : null
+    )
+    .filter((change): change is StrokeChange => change !== null)
+    .reverse(),
+});
+
+// Removes `cleared`, by default every stroke. Clearing everything is recorded
+// as one change rather than one per stroke.
+export const clearCommand = (
+  strokes: Stroke[],
+  cleared: Stroke[] = strokes
+): Command =>
+  cleared.length === strokes.length
+    ? { type: "clear", changes: [{ index: 0, before: strokes, after: [] }] }
+    : replaceCommand(
+        "clear",
+        strokes,
+        Object.fromEntries(cleared.map((stroke) => [stroke.id, []]))
+      );
+
+// Brings back another version of the drawing, layers included, as a single
+// step that undo can take back.
+export const restoreCommand = (
+  strokes: Stroke[],
+  layers: Layer[],
+  restoredStrokes: Stroke[],
+  restoredLayers: Layer[]
+): Command => ({
+  type: "restore",
+  changes: [{ index: 0, before: strokes, after: restoredStrokes }],
+  layers: { before: layers, after: restoredLayers },
+});
+
+export const layerCommand = (before: Layer[], after: Layer[]): Command => ({
+  type: "layer",
+  changes: [],
+  layers: { before, after },
+});
+
+// Deleting a layer takes its strokes with it, in the same undoable step.
+export const deleteLayerCommand = (
+  strokes: Stroke[],
+  layers: Layer[],
+  layerId: string
+): Command => ({
+  ...replaceCommand(
+    "layer",
+    strokes,
+    Object.fromEntries(
+      strokes
+        .filter((stroke) => strokeLayerId(stroke) === layerId)
+        .map((stroke) => [stroke.id, []])
+    )
+  ),
+  layers: {
+    before: layers,
+    after: layers.filter((layer) => layer.id !== layerId),
+  },
+});
@@ -0,0 +1,6 @@
+// crypto.randomUUID is only available in secure contexts, and the dev server
+// is usually reached over plain http on the local network.
+export const createId = (): string =>
+  typeof crypto !== "undefined" && "randomUUID" in crypto
+    ? crypto.randomUUID()
+    : `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
@@ -0,0 +1,34 @@
+// The File Handling API launches installed desktop builds with the files the
+// user opened with them. TypeScript's DOM types don't cover it yet.
+interface LaunchParams {
+  readonly files: readonly FileSystemHandle[];
+}
+
+interface LaunchQueue {
+  setConsumer: (consumer: (params: LaunchParams) => void) => void;
+}
+
+declare global {
+  interface Window {
+    launchQueue?: LaunchQueue;
+  }
+}
+
+// Calls `handler` with the files of each launch, including the one that
+// started the app. Does nothing where the API is unsupported.
+export const handleLaunchFiles = (handler: (files: File[]) => void) => {
+  window.launchQueue?.setConsumer(async ({ files }) => {
+    try {
+      const opened = await Promise.all(
+        files
+          .filter(
+            (handle): handle is FileSystemFileHandle => handle.kind === "file"
+          )
+          .map((handle) => handle.getFile())
+      );
+      if (opened.length > 0) handler(opened);
+    } catch (error) {
+      console.error("Failed to read launched files:", error);
+    }
+  });
+};
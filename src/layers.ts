@@ -0,0 +1,45 @@
+import { createId } from "./id";
+import type { Layer, Stroke } from "./types";
+
+export const BASE_LAYER_ID = "base";
+
+export const createLayer = (name: string): Layer => ({
+  id: createId(),
+  name,
+  visible: true,
+  locked: false,
+  opacity: 100,
+  blendMode: "normal",
+});
+
+export const DEFAULT_LAYERS: Layer[] = [
+  { ...createLayer("Layer 1"), id: BASE_LAYER_ID },
+];
+
+export const strokeLayerId = (stroke: Stroke) => stroke.layerId ?? BASE_LAYER_ID;
+
+export interface LayerContent {
+  layer: Layer;
+  strokes: Stroke[];
+}
+
+// Groups the strokes by layer, bottom layer first, keeping each layer's
+// strokes in drawing order. Hidden layers are left out.
+export const visibleLayerContents = (
+  layers: Layer[],
+  strokes: Stroke[]
+): LayerContent[] =>
+  layers
+    .filter((layer) => layer.visible)
+    .map((layer) => ({
+      layer,
+      strokes: strokes.filter((stroke) => strokeLayerId(stroke) === layer.id),
+    }));
+
+// "Layer 3" after "Layer 1" and "Layer 2", skipping names already taken.
+export const nextLayerName = (layers: Layer[]): string => {
+  const names = new Set(layers.map((layer) => layer.name));
+  let number = layers.length + 1;
+  while (names.has(`Layer ${number}`)) number += 1;
+  return `Layer ${number}`;
+};
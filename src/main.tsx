@@ -2,6 +2,20 @@ import { StrictMode } from "react";
 import { createRoot } from "react-dom/client";
 import { App } from "./App.tsx";
 
+const benchmark = new URLSearchParams(window.location.search).get("benchmark");
+if (import.meta.env.DEV && benchmark !== null) {
+  import("./benchmark").then(({ runRenderBenchmark }) =>
+    runRenderBenchmark(Number(benchmark) || undefined)
+  );
+}
+
+// Development builds are served fresh by Vite and have no worker to load.
+if (import.meta.env.PROD && "serviceWorker" in navigator) {
+  navigator.serviceWorker.register("./sw.js").catch((error) => {
+    console.error("Failed to register service worker:", error);
+  });
+}
+
 createRoot(document.getElementById("root")!).render(
   <StrictMode>
     <App />
@@ -0,0 +1,69 @@
+// A 2D affine transform in the same order as DOMMatrix and SVG's matrix():
+// x' = a * x + c * y + e, y' = b * x + d * y + f.
+export type Matrix = [
+  a: number,
+  b: number,
+  c: number,
+  d: number,
+  e: number,
+  f: number,
+];
+
+export const IDENTITY: Matrix = [1, 0, 0, 1, 0, 0];
+
+// The transform that applies `second` after `first`.
+export const multiply = (second: Matrix, first: Matrix): Matrix => {
+  const [a1, b1, c1, d1, e1, f1] = second;
+  const [a2, b2, c2, d2, e2, f2] = first;
+  return [
+    a1 * a2 + c1 * b2,
+    b1 * a2 + d1 * b2,
+    a1 * c2 + c1 * d2,
+    b1 * c2 + d1 * d2,
+    a1 * e2 + c1 * f2 + e1,
+    b1 * e2 + d1 * f2 + f1,
+  ];
+};
+
+export const translate = (x: number, y: number): Matrix => [1, 0, 0, 1, x, y];
+
+export const scaleAbout = (
+  origin: { x: number; y: number },
+  scale: number
+): Matrix => [
+  scale,
+  0,
+  0,
+  scale,
+  origin.x * (1 - scale),
+  origin.y * (1 - scale),
+];
+
+export const rotateAbout = (
+  origin: { x: number; y: number },
+  angle: number
+): Matrix => {
+  const cos = Math.cos(angle);
+  const sin = Math.sin(angle);
+  return [
+    cos,
+    sin,
+    -sin,
+    cos,
+    origin.x - origin.x * cos + origin.y * sin,
+    origin.y - origin.x * sin - origin.y * cos,
+  ];
+};
+
+export const applyMatrix = <T extends { x: number; y: number }>(
+  [a, b, c, d, e, f]: Matrix,
+  point: T
+): T => ({
+  ...point,
+  x: a * point.x + c * point.y + e,
+  y: b * point.x + d * point.y + f,
+});
+
+// How much the transform scales lengths; selections only scale uniformly.
+export const matrixScale = ([a, b, c, d]: Matrix) =>
+  Math.sqrt(Math.abs(a * d - b * c));
@@ -0,0 +1,93 @@
+import { get, set } from "idb-keyval";
+import { normalizeHex } from "./color";
+import { createId } from "./id";
+import type { Palette } from "./types";
+
+const PALETTES_KEY = "palettes";
+const RECENT_COLORS_KEY = "recentColors";
+const PALETTE_FILE_FORMAT = "doodle-do-palettes";
+const PALETTE_FILE_VERSION = 1;
+
+export const MAX_RECENT_COLORS = 8;
+
+export const loadPalettes = async (): Promise<Palette[]> => {
+  try {
+    return (await get<Palette[]>(PALETTES_KEY)) ?? [];
+  } catch (error) {
+    console.error("Failed to load palettes:", error);
+    return [];
+  }
+};
+
+export const savePalettes = async (palettes: Palette[]): Promise<void> => {
+  try {
+    await set(PALETTES_KEY, palettes);
+  } catch (error) {
+    console.error("Failed to save palettes:", error);
+  }
+};
+
+export const loadRecentColors = async (): Promise<string[]> => {
+  try {
+    return (await get<string[]>(RECENT_COLORS_KEY)) ?? [];
+  } catch (error) {
+    console.error("Failed to load recent colors:", error);
+    return [];
+  }
+};
+
+// Moves `color` to the front of the recent colors and returns the new list.
+export const addRecentColor = async (color: string): Promise<string[]> => {
+  const recent = [
+    color,
+    ...(await loadRecentColors()).filter((existing) => existing !== color),
+  ].slice(0, MAX_RECENT_COLORS);
+  try {
+    await set(RECENT_COLORS_KEY, recent);
+  } catch (error) {
+    console.error("Failed to save recent colors:", error);
+  }
+  return recent;
+};
+
+// Palette files leave out ids; importing always creates new palettes.
+export const palettesToJson = (palettes: Palette[]): string =>
+  JSON.stringify(
+    {
+      format: PALETTE_FILE_FORMAT,
+      version: PALETTE_FILE_VERSION,
+      palettes: palettes.map(({ name, colors }) => ({ name, colors })),
+    },
+    null,
+    2
+  );
+
+// Throws with a message fit for the user when the file isn't a palette file.
+export const palettesFromJson = (text: string): Palette[] => {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error("The file is not valid JSON.");
+  }
+
+  const file = data as { format?: unknown; version?: unknown; palettes?: unknown };
+  if (file?.format !== PALETTE_FILE_FORMAT || !Array.isArray(file.palettes)) {
+    throw new Error("The file is not a palette file.");
+  }
+  if (typeof file.version !== "number" || file.version > PALETTE_FILE_VERSION) {
+    throw new Error("The palette file was made by a newer version of the app.");
+  }
+
+  return file.palettes.map((entry: { name?: unknown; colors?: unknown }) => {
+    const colors = Array.isArray(entry?.colors)
+      ? entry.colors.map((color) =>
+          typeof color === "string" ? normalizeHex(color) : null
+        )
+      : null;
+    if (typeof entry?.name !== "string" || !colors || colors.includes(null)) {
+      throw new Error("The palette file contains an invalid palette.");
+    }
+    return { id: createId(), name: entry.name, colors: colors as string[] };
+  });
+};
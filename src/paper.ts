@@ -0,0 +1,37 @@
+import type { Paper, PaperPattern } from "./types";
+
+export const MIN_PAPER_SPACING = 8;
+export const MAX_PAPER_SPACING = 96;
+
+export const LIGHT_PAPER = { color: "#FFFFFF", lineColor: "#C8D3E0" };
+export const DARK_PAPER = { color: "#1E1E1E", lineColor: "#3C4656" };
+
+export const DEFAULT_PAPER: Paper = {
+  pattern: "plain",
+  spacing: 24,
+  ...LIGHT_PAPER,
+};
+
+export const PAPER_PATTERNS: { pattern: PaperPattern; label: string }[] = [
+  { pattern: "plain", label: "Plain" },
+  { pattern: "grid", label: "Grid" },
+  { pattern: "dots", label: "Dots" },
+  { pattern: "ruled", label: "Ruled" },
+  { pattern: "isometric", label: "Isometric" },
+];
+
+// The renderer's shader identifies patterns by index.
+export const paperPatternIndex = (pattern: PaperPattern) =>
+  PAPER_PATTERNS.findIndex((entry) => entry.pattern === pattern);
+
+// Isometric paper is three families of lines through the corners of
+// equilateral triangles whose sides are `spacing` long. Each family is
+// given by its unit normal; its lines are spaced by the triangles' height.
+export const ISOMETRIC_NORMALS = [
+  { x: 0, y: 1 },
+  { x: Math.sqrt(3) / 2, y: 0.5 },
+  { x: -Math.sqrt(3) / 2, y: 0.5 },
+];
+
+export const isometricLineSpacing = (spacing: number) =>
+  (spacing * Math.sqrt(3)) / 2;
@@ -0,0 +1,44 @@
+import { get, set } from "idb-keyval";
+import type { Preferences } from "./types";
+
+const PREFERENCES_KEY = "preferences";
+
+export const DEFAULT_PREFERENCES: Preferences = {
+  tool: "pen",
+  color: "#000000",
+  size: 5,
+  penOpacity: 100,
+  highlighterOpacity: 10,
+  eraserMode: "partial",
+  stabilizer: 0,
+  toolbarPosition: null,
+  snapShapes: true,
+  textSize: 24,
+  textAlign: "left",
+  shortcuts: {},
+  sessionName: "",
+  relayUrl: "",
+};
+
+// Settings added after the preferences were saved fall back to defaults.
+export const loadPreferences = async (): Promise<Preferences> => {
+  try {
+    return {
+      ...DEFAULT_PREFERENCES,
+      ...(await get<Partial<Preferences>>(PREFERENCES_KEY)),
+    };
+  } catch (error) {
+    console.error("Failed to load preferences:", error);
+    return DEFAULT_PREFERENCES;
+  }
+};
+
+export const savePreferences = async (
+  preferences: Preferences
+): Promise<void> => {
+  try {
+    await set(PREFERENCES_KEY, preferences);
+  } catch (error) {
+    console.error("Failed to save preferences:", error);
+  }
+};
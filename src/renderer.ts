@@ -0,0 +1,985 @@
+import {
+  FLOATS_PER_VERTEX,
+  tessellateSegment,
+  tessellateStroke,
+} from "./tessellate";
+import type { BackgroundImage } from "./background";
+import type { LayerContent } from "./layers";
+import { IDENTITY, matrixScale, type Matrix } from "./matrix";
+import { DEFAULT_PAPER, paperPatternIndex } from "./paper";
+import { fromTextBox, paintText, textLayout } from "./text";
+import type { BlendMode, Paper, Point, Stroke, TextBox } from "./types";
+import type { View } from "./viewport";
+
+const vertexShaderSource = `#version 300 es
+in vec2 a_position;
+in float a_alpha;
+uniform vec2 u_resolution;
+uniform vec2 u_offset;
+uniform float u_zoom;
+uniform mat3 u_matrix;
+out float v_alpha;
+
+void main() {
+  vec2 world = (u_matrix * vec3(a_position, 1)).xy;
+  vec2 position = world * u_zoom + u_offset;
+  vec2 clipSpace = ((position / u_resolution) * 2.0) - 1.0;
+  gl_Position = vec4(clipSpace * vec2(1, -1), 0, 1);
+  v_alpha = a_alpha;
+}`;
+
+// The stencil lets each stroke cover a pixel once; u_coverage then darkens
+// translucent strokes to copy the old per-pixel stamping's look, as
+// coverageAlpha does.
+const fragmentShaderSource = `#version 300 es
+precision highp float;
+uniform vec3 u_color;
+uniform float u_alpha;
+uniform float u_coverage;
+in float v_alpha;
+out vec4 outColor;
+
+void main() {
+  float alpha = 1.0 - pow(1.0 - clamp(u_alpha * v_alpha, 0.0, 1.0), u_coverage);
+  outColor = vec4(u_color * alpha, alpha);
+}`;
+
+// Text is painted into a texture by the 2D canvas and drawn as a quad at its
+// place among the strokes. Textures are premultiplied, like the blending.
+const textVertexShaderSource = `#version 300 es
+in vec2 a_position;
+in vec2 a_texcoord;
+uniform vec2 u_resolution;
+uniform vec2 u_offset;
+uniform float u_zoom;
+uniform mat3 u_matrix;
+out vec2 v_texcoord;
+
+void main() {
+  vec2 world = (u_matrix * vec3(a_position, 1)).xy;
+  vec2 position = world * u_zoom + u_offset;
+  vec2 clipSpace = ((position / u_resolution) * 2.0) - 1.0;
+  gl_Position = vec4(clipSpace * vec2(1, -1), 0, 1);
+  v_texcoord = a_texcoord;
+}`;
+
+const textFragmentShaderSource = `#version 300 es
+precision highp float;
+uniform sampler2D u_texture;
+uniform float u_alpha;
+in vec2 v_texcoord;
+out vec4 outColor;
+
+void main() {
+  outColor = texture(u_texture, v_texcoord) * u_alpha;
+}`;
+
+// Layers are composited onto the page as full-screen quads.
+const compositeVertexShaderSource = `#version 300 es
+in vec2 a_position;
+out vec2 v_texcoord;
+
+void main() {
+  gl_Position = vec4(a_position, 0, 1);
+  v_texcoord = (a_position + 1.0) / 2.0;
+}`;
+
+const compositeFragmentShaderSource = `#version 300 es
+precision highp float;
+uniform sampler2D u_texture;
+uniform float u_alpha;
+in vec2 v_texcoord;
+out vec4 outColor;
+
+void main() {
+  outColor = texture(u_texture, v_texcoord) * u_alpha;
+}`;
+
+// The paper pattern is computed per pixel from the world position under it,
+// so it follows pan and zoom at any scale. Lines and dots keep a constant
+// width on screen and fade out as they crowd together when zoomed out.
+const paperFragmentShaderSource = `#version 300 es
+precision highp float;
+uniform vec2 u_resolution;
+uniform vec2 u_offset;
+uniform float u_zoom;
+uniform float u_pixelRatio;
+uniform int u_pattern;
+uniform float u_spacing;
+uniform vec3 u_lineColor;
+out vec4 outColor;
+
+// Distance in device pixels from a world coordinate to the nearest line
+// of a family spaced evenly along it.
+float lineDistance(float coordinate, float spacing) {
+  return abs(fract(coordinate / spacing + 0.5) - 0.5) * spacing * u_zoom;
+}
+
+float coverage(float distance, float radius) {
+  return clamp(radius + 0.5 - distance, 0.0, 1.0);
+}
+
+void main() {
+  vec2 screen = vec2(gl_FragCoord.x, u_resolution.y - gl_FragCoord.y);
+  vec2 world = (screen - u_offset) / u_zoom;
+  float radius = u_pixelRatio / 2.0;
+  float alpha = 0.0;
+  if (u_pattern == 1) {
+    alpha = max(
+      coverage(lineDistance(world.x, u_spacing), radius),
+      coverage(lineDistance(world.y, u_spacing), radius)
+    );
+  } else if (u_pattern == 2) {
+    vec2 cell = (fract(world / u_spacing + 0.5) - 0.5) * u_spacing * u_zoom;
+    alpha = coverage(length(cell), radius * 3.0);
+  } else if (u_pattern == 3) {
+    alpha = coverage(lineDistance(world.y, u_spacing), radius);
+  } else if (u_pattern == 4) {
+    float height = u_spacing * 0.8660254;
+    alpha = max(
+      coverage(lineDistance(world.y, height), radius),
+      max(
+        coverage(lineDistance(dot(world, vec2(0.8660254, 0.5)), height), radius),
+        coverage(lineDistance(dot(world, vec2(-0.8660254, 0.5)), height), radius)
+      )
+    );
+  }
+  alpha *= smoothstep(3.0, 6.0, u_spacing * u_zoom / u_pixelRatio);
+  outColor = vec4(u_lineColor * alpha, alpha);
+}`;
+
+// Room around the text box for glyphs that overhang it, as a share of the
+// font size.
+const TEXT_PADDING = 0.25;
+const MAX_TEXT_TEXTURE = 4096;
+
+export type StrokeStyle = Pick<
+  Stroke,
+  "tool" | "color" | "lineWidth" | "opacity"
+>;
+
+// Draws `strokes` moved by `matrix` without re-tessellating them, for live
+// previews of selection transforms.
+export interface StrokeTransform {
+  strokes: Set<Stroke>;
+  matrix: Matrix;
+}
+
+interface StrokeMesh {
+  buffer: WebGLBuffer;
+  vertexCount: number;
+}
+
+// Strokes are drawn into one multisampled framebuffer shared by every
+// layer so they stay antialiased, then resolved into the layer's texture
+// for compositing. Only the textures are kept per layer.
+interface LayerSurface {
+  framebuffer: WebGLFramebuffer;
+  texture: WebGLTexture;
+}
+
+// The multisampled framebuffer, which holds the strokes of one layer at a
+// time, and the stencil reference of the last stroke drawn into it.
+interface DrawTarget {
+  framebuffer: WebGLFramebuffer;
+  color: WebGLRenderbuffer;
+  stencil: WebGLRenderbuffer;
+  layerId: string | null;
+  stencilRef: number;
+}
+
+// `scale` is the resolution the text was painted at, in device pixels per
+// world unit.
+interface TextTexture {
+  texture: WebGLTexture;
+  scale: number;
+}
+
+export interface StrokeRenderer {
+  resize: (width: number, height: number, pixelRatio: number) => void;
+  setView: (view: View) => void;
+  // The page is filled with the paper before the background and layers are
+  // composited onto it. Takes effect on the next draw.
+  setPaper: (paper: Paper) => void;
+  // Uploads the image drawn on the page beneath every layer.
+  setBackground: (background: BackgroundImage | null) => void;
+  drawLayers: (layers: LayerContent[], transform?: StrokeTransform) => void;
+  // Live strokes are drawn into `layerId` on top of what drawLayers left
+  // there, and the page is composited again after every segment.
+  beginStroke: (layerId: string) => void;
+  drawSegment: (style: StrokeStyle, from: Point, to: Point) => void;
+  // Draws a stroke that changes every frame, such as a shape being dragged
+  // out, without caching its mesh.
+  drawTransientStroke: (stroke: Stroke) => void;
+  prune: (keep: Set<Stroke>) => void;
+  dispose: () => void;
+}
+
+export const hexToRgb = (hex: string): [number, number, number] => {
+  const result = /^#?([a-f\d]{2})([a-f\d]{2})([a-f\d]{2})$/i.exec(hex);
+  return result
+    ? [
+        parseInt(result[1], 16) / 255,
+        parseInt(result[2], 16) / 255,
+        parseInt(result[3], 16) / 255,
+      ]
+    : [0, 0, 0];
+};
+
+const createShader = (
+  gl: WebGL2RenderingContext,
+  type: number,
+  source: string
+): WebGLShader | null => {
+  const shader = gl.createShader(type);
+  if (!shader) return null;
+
+  gl.shaderSource(shader, source);
+  gl.compileShader(shader);
+
+  if (!gl.getShaderParameter(shader, gl.COMPILE_STATUS)) {
+    console.error("Shader compilation error:", gl.getShaderInfoLog(shader));
+    gl.deleteShader(shader);
+    return null;
+  }
+
+  return shader;
+};
+
+const createProgram = (
+  gl: WebGL2RenderingContext,
+  vertexShader: WebGLShader,
+  fragmentShader: WebGLShader
+): WebGLProgram | null => {
+  const program = gl.createProgram();
+  if (!program) return null;
+
+  gl.attachShader(program, vertexShader);
+  gl.attachShader(program, fragmentShader);
+  gl.linkProgram(program);
+
+  if (!gl.getProgramParameter(program, gl.LINK_STATUS)) {
+    console.error("Program linking error:", gl.getProgramInfoLog(program));
+    gl.deleteProgram(program);
+    return null;
+  }
+
+  return program;
+};
+
+// Draws strokes as one cached triangle strip each. The stencil buffer lets
+// every pixel of a stroke blend only once even where its segments overlap;
+// each stroke gets its own reference value so the buffer only needs clearing
+// every 255 strokes. Each layer is drawn into a framebuffer of its own, and
+// the layers are then composited onto the page with their opacity and blend
+// mode.
+export const createStrokeRenderer = (
+  gl: WebGL2RenderingContext
+): StrokeRenderer | null => {
+  const vertexShader = createShader(gl, gl.VERTEX_SHADER, vertexShaderSource);
+  const fragmentShader = createShader(
+    gl,
+    gl.FRAGMENT_SHADER,
+    fragmentShaderSource
+  );
+  const textVertexShader = createShader(
+    gl,
+    gl.VERTEX_SHADER,
+    textVertexShaderSource
+  );
+  const textFragmentShader = createShader(
+    gl,
+    gl.FRAGMENT_SHADER,
+    textFragmentShaderSource
+  );
+  const compositeVertexShader = createShader(
+    gl,
+    gl.VERTEX_SHADER,
+    compositeVertexShaderSource
+  );
+  const compositeFragmentShader = createShader(
+    gl,
+    gl.FRAGMENT_SHADER,
+    compositeFragmentShaderSource
+  );
+  const paperFragmentShader = createShader(
+    gl,
+    gl.FRAGMENT_SHADER,
+    paperFragmentShaderSource
+  );
+  if (
+    !vertexShader ||
+    !fragmentShader ||
+    !textVertexShader ||
+    !textFragmentShader ||
+    !compositeVertexShader ||
+    !compositeFragmentShader ||
+    !paperFragmentShader
+  ) {
+    return null;
+  }
+
+  const program = createProgram(gl, vertexShader, fragmentShader);
+  const textProgram = createProgram(gl, textVertexShader, textFragmentShader);
+  const compositeProgram = createProgram(
+    gl,
+    compositeVertexShader,
+    compositeFragmentShader
+  );
+  // Paper is drawn with the same full-screen quad as the layers.
+  const paperProgram = createProgram(
+    gl,
+    compositeVertexShader,
+    paperFragmentShader
+  );
+  if (!program || !textProgram || !compositeProgram || !paperProgram) {
+    return null;
+  }
+
+  const positionLocation = gl.getAttribLocation(program, "a_position");
+  const alphaAttributeLocation = gl.getAttribLocation(program, "a_alpha");
+  const resolutionLocation = gl.getUniformLocation(program, "u_resolution");
+  const offsetLocation = gl.getUniformLocation(program, "u_offset");
+  const zoomLocation = gl.getUniformLocation(program, "u_zoom");
+  const colorLocation = gl.getUniformLocation(program, "u_color");
+  const alphaLocation = gl.getUniformLocation(program, "u_alpha");
+  const coverageLocation = gl.getUniformLocation(program, "u_coverage");
+  const matrixLocation = gl.getUniformLocation(program, "u_matrix");
+  const text = {
+    position: gl.getAttribLocation(textProgram, "a_position"),
+    texcoord: gl.getAttribLocation(textProgram, "a_texcoord"),
+    resolution: gl.getUniformLocation(textProgram, "u_resolution"),
+    offset: gl.getUniformLocation(textProgram, "u_offset"),
+    zoom: gl.getUniformLocation(textProgram, "u_zoom"),
+    matrix: gl.getUniformLocation(textProgram, "u_matrix"),
+    alpha: gl.getUniformLocation(textProgram, "u_alpha"),
+  };
+
+  const compositeAlphaLocation = gl.getUniformLocation(
+    compositeProgram,
+    "u_alpha"
+  );
+
+  const paperLocations = {
+    resolution: gl.getUniformLocation(paperProgram, "u_resolution"),
+    offset: gl.getUniformLocation(paperProgram, "u_offset"),
+    zoom: gl.getUniformLocation(paperProgram, "u_zoom"),
+    pixelRatio: gl.getUniformLocation(paperProgram, "u_pixelRatio"),
+    pattern: gl.getUniformLocation(paperProgram, "u_pattern"),
+    spacing: gl.getUniformLocation(paperProgram, "u_spacing"),
+    lineColor: gl.getUniformLocation(paperProgram, "u_lineColor"),
+  };
+
+  const vao = gl.createVertexArray();
+  const textVao = gl.createVertexArray();
+  const compositeVao = gl.createVertexArray();
+  const streamBuffer = gl.createBuffer();
+  const textBuffer = gl.createBuffer();
+  const quadBuffer = gl.createBuffer();
+  const meshes = new Map<Stroke, StrokeMesh>();
+  const textures = new Map<Stroke, TextTexture>();
+  const surfaces = new Map<string, LayerSurface>();
+  const textCanvas = document.createElement("canvas");
+  const samples = Math.min(4, gl.getParameter(gl.MAX_SAMPLES) as number);
+  let pixelRatio = 1;
+  let textScale = 1;
+  let width = 1;
+  let height = 1;
+  let drawTarget: DrawTarget | null = null;
+  let target: LayerSurface | null = null;
+  let composited: LayerContent[] = [];
+  let paper = DEFAULT_PAPER;
+  let viewOffset = { x: 0, y: 0 };
+  let viewZoom = 1;
+  let background: { texture: WebGLTexture; corners: Float32Array } | null =
+    null;
+
+  gl.useProgram(compositeProgram);
+  gl.bindVertexArray(compositeVao);
+  gl.bindBuffer(gl.ARRAY_BUFFER, quadBuffer);
+  gl.bufferData(
+    gl.ARRAY_BUFFER,
+    new Float32Array([-1, -1, 1, -1, -1, 1, 1, 1]),
+    gl.STATIC_DRAW
+  );
+  const compositePositionLocation = gl.getAttribLocation(
+    compositeProgram,
+    "a_position"
+  );
+  gl.enableVertexAttribArray(compositePositionLocation);
+  gl.vertexAttribPointer(compositePositionLocation, 2, gl.FLOAT, false, 0, 0);
+
+  gl.useProgram(textProgram);
+  gl.bindVertexArray(textVao);
+  gl.bindBuffer(gl.ARRAY_BUFFER, textBuffer);
+  gl.enableVertexAttribArray(text.position);
+  gl.enableVertexAttribArray(text.texcoord);
+  gl.vertexAttribPointer(text.position, 2, gl.FLOAT, false, 16, 0);
+  gl.vertexAttribPointer(text.texcoord, 2, gl.FLOAT, false, 16, 8);
+  gl.pixelStorei(gl.UNPACK_PREMULTIPLY_ALPHA_WEBGL, true);
+
+  gl.useProgram(program);
+  gl.bindVertexArray(vao);
+  gl.enableVertexAttribArray(positionLocation);
+  gl.enableVertexAttribArray(alphaAttributeLocation);
+  gl.enable(gl.BLEND);
+  gl.blendFunc(gl.ONE, gl.ONE_MINUS_SRC_ALPHA);
+  gl.enable(gl.STENCIL_TEST);
+  gl.stencilOp(gl.KEEP, gl.KEEP, gl.REPLACE);
+
+  const setMatrix = ([a, b, c, d, e, f]: Matrix) =>
+    gl.uniformMatrix3fv(matrixLocation, false, [a, b, 0, c, d, 0, e, f, 1]);
+  setMatrix(IDENTITY);
+
+  // Sets a uniform on both programs, leaving the stroke program in use.
+  const setShared = (
+    set: (location: WebGLUniformLocation | null) => void,
+    strokeLocation: WebGLUniformLocation | null,
+    textLocation: WebGLUniformLocation | null
+  ) => {
+    gl.useProgram(textProgram);
+    set(textLocation);
+    gl.useProgram(program);
+    set(strokeLocation);
+  };
+
+  const bindVertices = (buffer: WebGLBuffer) => {
+    const stride = FLOATS_PER_VERTEX * 4;
+    gl.bindBuffer(gl.ARRAY_BUFFER, buffer);
+    gl.vertexAttribPointer(positionLocation, 2, gl.FLOAT, false, stride, 0);
+    gl.vertexAttribPointer(alphaAttributeLocation, 1, gl.FLOAT, false, stride, 8);
+  };
+
+  // Expects the draw target to be bound.
+  const nextStencilRef = () => {
+    if (!target || !drawTarget) return;
+    if (drawTarget.stencilRef === 255) {
+      gl.clear(gl.STENCIL_BUFFER_BIT);
+      drawTarget.stencilRef = 0;
+    }
+    drawTarget.stencilRef += 1;
+    gl.stencilFunc(gl.NOTEQUAL, drawTarget.stencilRef, 0xff);
+  };
+
+  const deleteSurface = (surface: LayerSurface) => {
+    gl.deleteFramebuffer(surface.framebuffer);
+    gl.deleteTexture(surface.texture);
+  };
+
+  const createSurface = (): LayerSurface | null => {
+    const framebuffer = gl.createFramebuffer();
+    const texture = gl.createTexture();
+    if (!framebuffer || !texture) return null;
+
+    gl.bindTexture(gl.TEXTURE_2D, texture);
+    gl.texImage2D(
+      gl.TEXTURE_2D,
+      0,
+      gl.RGBA,
+      width,
+      height,
+      0,
+      gl.RGBA,
+      gl.UNSIGNED_BYTE,
+      null
+    );
+    gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MIN_FILTER, gl.NEAREST);
+    gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MAG_FILTER, gl.NEAREST);
+    gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_S, gl.CLAMP_TO_EDGE);
+    gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_T, gl.CLAMP_TO_EDGE);
+    gl.bindFramebuffer(gl.FRAMEBUFFER, framebuffer);
+    gl.framebufferTexture2D(
+      gl.FRAMEBUFFER,
+      gl.COLOR_ATTACHMENT0,
+      gl.TEXTURE_2D,
+      texture,
+      0
+    );
+
+    const surface = { framebuffer, texture };
+    if (gl.checkFramebufferStatus(gl.FRAMEBUFFER) !== gl.FRAMEBUFFER_COMPLETE) {
+      console.error("Layer framebuffer is incomplete");
+      deleteSurface(surface);
+      return null;
+    }
+    return surface;
+  };
+
+  const getSurface = (layerId: string): LayerSurface | null => {
+    const cached = surfaces.get(layerId);
+    if (cached) return cached;
+    const surface = createSurface();
+    if (surface) surfaces.set(layerId, surface);
+    return surface;
+  };
+
+  const deleteDrawTarget = () => {
+    if (!drawTarget) return;
+    gl.deleteFramebuffer(drawTarget.framebuffer);
+    gl.deleteRenderbuffer(drawTarget.color);
+    gl.deleteRenderbuffer(drawTarget.stencil);
+    drawTarget = null;
+  };
+
+  const getDrawTarget = (): DrawTarget | null => {
+    if (drawTarget) return drawTarget;
+    const framebuffer = gl.createFramebuffer();
+    const color = gl.createRenderbuffer();
+    const stencil = gl.createRenderbuffer();
+    if (!framebuffer || !color || !stencil) return null;
+
+    gl.bindRenderbuffer(gl.RENDERBUFFER, color);
+    gl.renderbufferStorageMultisample(
+      gl.RENDERBUFFER,
+      samples,
+      gl.RGBA8,
+      width,
+      height
+    );
+    gl.bindRenderbuffer(gl.RENDERBUFFER, stencil);
+    gl.renderbufferStorageMultisample(
+      gl.RENDERBUFFER,
+      samples,
+      gl.DEPTH24_STENCIL8,
+      width,
+      height
+    );
+    gl.bindFramebuffer(gl.FRAMEBUFFER, framebuffer);
+    gl.framebufferRenderbuffer(
+      gl.FRAMEBUFFER,
+      gl.COLOR_ATTACHMENT0,
+      gl.RENDERBUFFER,
+      color
+    );
+    gl.framebufferRenderbuffer(
+      gl.FRAMEBUFFER,
+      gl.DEPTH_STENCIL_ATTACHMENT,
+      gl.RENDERBUFFER,
+      stencil
+    );
+
+    drawTarget = { framebuffer, color, stencil, layerId: null, stencilRef: 0 };
+    if (gl.checkFramebufferStatus(gl.FRAMEBUFFER) !== gl.FRAMEBUFFER_COMPLETE) {
+      console.error("Stroke framebuffer is incomplete");
+      deleteDrawTarget();
+    }
+    return drawTarget;
+  };
+
+  // Clears the draw target for `layerId`'s strokes and makes the layer's
+  // texture the one they are resolved into.
+  const bindTarget = (layerId: string, surface: LayerSurface) => {
+    const multisampled = getDrawTarget();
+    if (!multisampled) return false;
+    target = surface;
+    multisampled.layerId = layerId;
+    multisampled.stencilRef = 0;
+    gl.bindFramebuffer(gl.FRAMEBUFFER, multisampled.framebuffer);
+    gl.clearColor(0, 0, 0, 0);
+    gl.clear(gl.COLOR_BUFFER_BIT | gl.STENCIL_BUFFER_BIT);
+    return true;
+  };
+
+  const resolveTarget = () => {
+    if (!target || !drawTarget) return;
+    gl.bindFramebuffer(gl.READ_FRAMEBUFFER, drawTarget.framebuffer);
+    gl.bindFramebuffer(gl.DRAW_FRAMEBUFFER, target.framebuffer);
+    gl.blitFramebuffer(
+      0,
+      0,
+      width,
+      height,
+      0,
+      0,
+      width,
+      height,
+      gl.COLOR_BUFFER_BIT,
+      gl.NEAREST
+    );
+    gl.bindFramebuffer(gl.FRAMEBUFFER, drawTarget.framebuffer);
+  };
+
+  // Layer textures hold premultiplied color, so scaling by the layer's
+  // opacity fades it. Multiply and screen need nothing but the blend
+  // function since the page underneath is opaque.
+  const setBlendMode = (mode: BlendMode) => {
+    if (mode === "multiply") {
+      gl.blendFunc(gl.DST_COLOR, gl.ONE_MINUS_SRC_ALPHA);
+    } else if (mode === "screen") {
+      gl.blendFunc(gl.ONE_MINUS_DST_COLOR, gl.ONE);
+    } else {
+      gl.blendFunc(gl.ONE, gl.ONE_MINUS_SRC_ALPHA);
+    }
+  };
+
+  // The background is drawn in world space with the text program, which
+  // draws any texture as a quad.
+  const drawBackground = () => {
+    if (!background || !textBuffer) return;
+    gl.useProgram(textProgram);
+    gl.bindVertexArray(textVao);
+    gl.uniformMatrix3fv(text.matrix, false, [1, 0, 0, 0, 1, 0, 0, 0, 1]);
+    gl.uniform1f(text.alpha, 1);
+    gl.bindTexture(gl.TEXTURE_2D, background.texture);
+    gl.bindBuffer(gl.ARRAY_BUFFER, textBuffer);
+    gl.bufferData(gl.ARRAY_BUFFER, background.corners, gl.STREAM_DRAW);
+    gl.drawArrays(gl.TRIANGLE_STRIP, 0, 4);
+  };
+
+  const drawPaper = () => {
+    const [r, g, b] = hexToRgb(paper.color);
+    gl.clearColor(r, g, b, 1.0);
+    gl.clear(gl.COLOR_BUFFER_BIT);
+    if (paper.pattern === "plain") return;
+    gl.useProgram(paperProgram);
+    gl.bindVertexArray(compositeVao);
+    gl.uniform2f(paperLocations.resolution, width, height);
+    gl.uniform2f(paperLocations.offset, viewOffset.x, viewOffset.y);
+    gl.uniform1f(paperLocations.zoom, viewZoom);
+    gl.uniform1f(paperLocations.pixelRatio, pixelRatio);
+    gl.uniform1i(paperLocations.pattern, paperPatternIndex(paper.pattern));
+    gl.uniform1f(paperLocations.spacing, paper.spacing);
+    gl.uniform3f(paperLocations.lineColor, ...hexToRgb(paper.lineColor));
+    gl.drawArrays(gl.TRIANGLE_STRIP, 0, 4);
+  };
+
+  const composite = () => {
+    gl.bindFramebuffer(gl.FRAMEBUFFER, null);
+    gl.disable(gl.STENCIL_TEST);
+    drawPaper();
+    drawBackground();
+    gl.useProgram(compositeProgram);
+    gl.bindVertexArray(compositeVao);
+    composited.forEach(({ layer }) => {
+      const surface = surfaces.get(layer.id);
+      if (!surface) return;
+      setBlendMode(layer.blendMode);
+      gl.uniform1f(compositeAlphaLocation, layer.opacity / 100);
+      gl.bindTexture(gl.TEXTURE_2D, surface.texture);
+      gl.drawArrays(gl.TRIANGLE_STRIP, 0, 4);
+    });
+    setBlendMode("normal");
+    gl.enable(gl.STENCIL_TEST);
+    gl.useProgram(program);
+    gl.bindVertexArray(vao);
+    if (target && drawTarget) {
+      gl.bindFramebuffer(gl.FRAMEBUFFER, drawTarget.framebuffer);
+    }
+  };
+
+  // Highlighters were always drawn at a tenth of their opacity setting.
+  const applyStyle = (style: StrokeStyle) => {
+    const [r, g, b] = hexToRgb(style.color);
+    gl.uniform3f(colorLocation, r, g, b);
+    gl.uniform1f(
+      alphaLocation,
+      style.tool === "highlighter"
+        ? (style.opacity / 100) * 0.1
+        : style.opacity / 100
+    );
+    gl.uniform1f(coverageLocation, Math.max(1, style.lineWidth * pixelRatio));
+  };
+
+  const getMesh = (stroke: Stroke): StrokeMesh | null => {
+    const cached = meshes.get(stroke);
+    if (cached) return cached;
+    const buffer = gl.createBuffer();
+    if (!buffer) return null;
+    const vertices = tessellateStroke(stroke);
+    gl.bindBuffer(gl.ARRAY_BUFFER, buffer);
+    gl.bufferData(gl.ARRAY_BUFFER, vertices, gl.STATIC_DRAW);
+    const mesh = { buffer, vertexCount: vertices.length / FLOATS_PER_VERTEX };
+    meshes.set(stroke, mesh);
+    return mesh;
+  };
+
+  // Repaints the text when the zoom has moved to a different power of two
+  // since it was last painted, so it stays sharp without repainting on
+  // every frame of a pinch.
+  const getTexture = (stroke: Stroke, box: TextBox): TextTexture | null => {
+    const cached = textures.get(stroke);
+    if (cached?.scale === textScale) return cached;
+
+    const { width, height } = textLayout(stroke);
+    const padding = box.fontSize * TEXT_PADDING;
+    const scale = Math.min(
+      textScale,
+      MAX_TEXT_TEXTURE / Math.max(width + padding * 2, height + padding * 2)
+    );
+    textCanvas.width = Math.max(1, Math.ceil((width + padding * 2) * scale));
+    textCanvas.height = Math.max(1, Math.ceil((height + padding * 2) * scale));
+    const ctx = textCanvas.getContext("2d");
+    if (!ctx) return null;
+    ctx.setTransform(scale, 0, 0, scale, padding * scale, padding * scale);
+    ctx.fillStyle = stroke.color;
+    paintText(ctx, box, width);
+
+    const texture = cached?.texture ?? gl.createTexture();
+    if (!texture) return null;
+    gl.bindTexture(gl.TEXTURE_2D, texture);
+    gl.texImage2D(
+      gl.TEXTURE_2D,
+      0,
+      gl.RGBA,
+      gl.RGBA,
+      gl.UNSIGNED_BYTE,
+      textCanvas
+    );
+    gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MIN_FILTER, gl.LINEAR);
+    gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MAG_FILTER, gl.LINEAR);
+    gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_S, gl.CLAMP_TO_EDGE);
+    gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_T, gl.CLAMP_TO_EDGE);
+    const entry = { texture, scale: textScale };
+    textures.set(stroke, entry);
+    return entry;
+  };
+
+  const drawText = (stroke: Stroke, box: TextBox, [a, b, c, d, e, f]: Matrix) => {
+    const entry = getTexture(stroke, box);
+    if (!entry || !textBuffer) return;
+    const layout = textLayout(stroke);
+    const padding = box.fontSize * TEXT_PADDING;
+    const corners = [
+      [-padding, -padding, 0, 0],
+      [layout.width + padding, -padding, 1, 0],
+      [-padding, layout.height + padding, 0, 1],
+      [layout.width + padding, layout.height + padding, 1, 1],
+    ].flatMap(([x, y, u, v]) => {
+      const point = fromTextBox(layout, x, y);
+      return [point.x, point.y, u, v];
+    });
+
+    nextStencilRef();
+    gl.useProgram(textProgram);
+    gl.bindVertexArray(textVao);
+    gl.uniformMatrix3fv(text.matrix, false, [a, b, 0, c, d, 0, e, f, 1]);
+    gl.uniform1f(text.alpha, stroke.opacity / 100);
+    gl.bindTexture(gl.TEXTURE_2D, entry.texture);
+    gl.bindBuffer(gl.ARRAY_BUFFER, textBuffer);
+    gl.bufferData(gl.ARRAY_BUFFER, new Float32Array(corners), gl.STREAM_DRAW);
+    gl.drawArrays(gl.TRIANGLE_STRIP, 0, 4);
+    gl.useProgram(program);
+    gl.bindVertexArray(vao);
+  };
+
+  const drawStroke = (stroke: Stroke, transform?: StrokeTransform) => {
+    if (stroke.text) {
+      drawText(
+        stroke,
+        stroke.text,
+        transform?.strokes.has(stroke) ? transform.matrix : IDENTITY
+      );
+      return;
+    }
+    const mesh = getMesh(stroke);
+    if (!mesh || mesh.vertexCount === 0) return;
+    nextStencilRef();
+    if (transform?.strokes.has(stroke)) {
+      setMatrix(transform.matrix);
+      applyStyle({
+        ...stroke,
+        lineWidth: stroke.lineWidth * matrixScale(transform.matrix),
+      });
+    } else {
+      setMatrix(IDENTITY);
+      applyStyle(stroke);
+    }
+    bindVertices(mesh.buffer);
+    gl.drawArrays(gl.TRIANGLE_STRIP, 0, mesh.vertexCount);
+  };
+
+  return {
+    resize: (newWidth, newHeight, ratio) => {
+      width = newWidth;
+      height = newHeight;
+      pixelRatio = ratio;
+      gl.viewport(0, 0, width, height);
+      setShared(
+        (location) => gl.uniform2f(location, width, height),
+        resolutionLocation,
+        text.resolution
+      );
+      // Layer surfaces are recreated at the new size on the next draw.
+      surfaces.forEach(deleteSurface);
+      surfaces.clear();
+      deleteDrawTarget();
+      target = null;
+    },
+
+    setView: (view) => {
+      viewOffset = { x: view.x * pixelRatio, y: view.y * pixelRatio };
+      viewZoom = view.zoom * pixelRatio;
+      setShared(
+        (location) =>
+          gl.uniform2f(location, view.x * pixelRatio, view.y * pixelRatio),
+        offsetLocation,
+        text.offset
+      );
+      setShared(
+        (location) => gl.uniform1f(location, view.zoom * pixelRatio),
+        zoomLocation,
+        text.zoom
+      );
+      textScale = pixelRatio * Math.pow(2, Math.ceil(Math.log2(view.zoom)));
+    },
+
+    setPaper: (next) => {
+      paper = next;
+    },
+
+    setBackground: (image) => {
+      if (background) gl.deleteTexture(background.texture);
+      background = null;
+      const texture = image && gl.createTexture();
+      if (!image || !texture) return;
+
+      // Images larger than the GPU allows are scaled down to fit; exports
+      // still use the stored original.
+      const maxSize = gl.getParameter(gl.MAX_TEXTURE_SIZE) as number;
+      const { naturalWidth, naturalHeight } = image.image;
+      let source: TexImageSource = image.image;
+      if (Math.max(naturalWidth, naturalHeight) > maxSize) {
+        const fit = maxSize / Math.max(naturalWidth, naturalHeight);
+        const canvas = document.createElement("canvas");
+        canvas.width = Math.floor(naturalWidth * fit);
+        canvas.height = Math.floor(naturalHeight * fit);
+        canvas
+          .getContext("2d")
+          ?.drawImage(image.image, 0, 0, canvas.width, canvas.height);
+        source = canvas;
+      }
+
+      gl.bindTexture(gl.TEXTURE_2D, texture);
+      gl.texImage2D(gl.TEXTURE_2D, 0, gl.RGBA, gl.RGBA, gl.UNSIGNED_BYTE, source);
+      gl.generateMipmap(gl.TEXTURE_2D);
+      gl.texParameteri(
+        gl.TEXTURE_2D,
+        gl.TEXTURE_MIN_FILTER,
+        gl.LINEAR_MIPMAP_LINEAR
+      );
+      gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MAG_FILTER, gl.LINEAR);
+      gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_S, gl.CLAMP_TO_EDGE);
+      gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_T, gl.CLAMP_TO_EDGE);
+      const { x, y, width, height } = image;
+      background = {
+        texture,
+        corners: new Float32Array([
+          ...[x, y, 0, 0],
+          ...[x + width, y, 1, 0],
+          ...[x, y + height, 0, 1],
+          ...[x + width, y + height, 1, 1],
+        ]),
+      };
+    },
+
+    drawLayers: (layers, transform) => {
+      const drawn = new Set(layers.map(({ layer }) => layer.id));
+      surfaces.forEach((surface, id) => {
+        if (drawn.has(id)) return;
+        deleteSurface(surface);
+        surfaces.delete(id);
+      });
+
+      layers.forEach(({ layer, strokes }) => {
+        const surface = getSurface(layer.id);
+        if (!surface || !bindTarget(layer.id, surface)) return;
+        strokes.forEach((stroke) => drawStroke(stroke, transform));
+        resolveTarget();
+      });
+      setMatrix(IDENTITY);
+      target = null;
+      composited = layers;
+      composite();
+    },
+
+    // The draw target still holds the last layer drawLayers drew. Any
+    // other layer is copied back into it from its texture first; every
+    // sample gets the resolved color, so resolving again changes nothing.
+    beginStroke: (layerId) => {
+      const surface = surfaces.get(layerId);
+      const held = drawTarget?.layerId === layerId;
+      target = null;
+      if (!surface) return;
+      if (held && drawTarget) {
+        target = surface;
+        gl.bindFramebuffer(gl.FRAMEBUFFER, drawTarget.framebuffer);
+      } else if (bindTarget(layerId, surface)) {
+        gl.disable(gl.STENCIL_TEST);
+        gl.useProgram(compositeProgram);
+        gl.bindVertexArray(compositeVao);
+        gl.uniform1f(compositeAlphaLocation, 1);
+        gl.bindTexture(gl.TEXTURE_2D, surface.texture);
+        gl.drawArrays(gl.TRIANGLE_STRIP, 0, 4);
+        gl.enable(gl.STENCIL_TEST);
+        gl.useProgram(program);
+        gl.bindVertexArray(vao);
+      }
+      nextStencilRef();
+    },
+
+    drawSegment: (style, from, to) => {
+      if (!streamBuffer || !target) return;
+      const vertices = tessellateSegment(style, from, to);
+      applyStyle(style);
+      bindVertices(streamBuffer);
+      gl.bufferData(gl.ARRAY_BUFFER, vertices, gl.STREAM_DRAW);
+      gl.drawArrays(gl.TRIANGLE_STRIP, 0, vertices.length / FLOATS_PER_VERTEX);
+      resolveTarget();
+      composite();
+    },
+
+    drawTransientStroke: (stroke) => {
+      if (!streamBuffer || !target) return;
+      const vertices = tessellateStroke(stroke);
+      nextStencilRef();
+      applyStyle(stroke);
+      bindVertices(streamBuffer);
+      gl.bufferData(gl.ARRAY_BUFFER, vertices, gl.STREAM_DRAW);
+      gl.drawArrays(gl.TRIANGLE_STRIP, 0, vertices.length / FLOATS_PER_VERTEX);
+      resolveTarget();
+      composite();
+    },
+
+    prune: (keep) => {
+      meshes.forEach((mesh, stroke) => {
+        if (keep.has(stroke)) return;
+        gl.deleteBuffer(mesh.buffer);
+        meshes.delete(stroke);
+      });
+      textures.forEach((entry, stroke) => {
+        if (keep.has(stroke)) return;
+        gl.deleteTexture(entry.texture);
+        textures.delete(stroke);
+      });
+    },
+
+    dispose: () => {
+      meshes.forEach((mesh) => gl.deleteBuffer(mesh.buffer));
+      meshes.clear();
+      textures.forEach((entry) => gl.deleteTexture(entry.texture));
+      textures.clear();
+      if (background) gl.deleteTexture(background.texture);
+      background = null;
+      surfaces.forEach(deleteSurface);
+      surfaces.clear();
+      deleteDrawTarget();
+      gl.deleteBuffer(streamBuffer);
+      gl.deleteBuffer(textBuffer);
+      gl.deleteBuffer(quadBuffer);
+      gl.deleteVertexArray(vao);
+      gl.deleteVertexArray(textVao);
+      gl.deleteVertexArray(compositeVao);
+      gl.deleteProgram(program);
+      gl.deleteProgram(textProgram);
+      gl.deleteProgram(compositeProgram);
+      gl.deleteProgram(paperProgram);
+      gl.deleteShader(vertexShader);
+      gl.deleteShader(fragmentShader);
+      gl.deleteShader(textVertexShader);
+      gl.deleteShader(textFragmentShader);
+      gl.deleteShader(compositeVertexShader);
+      gl.deleteShader(compositeFragmentShader);
+      gl.deleteShader(paperFragmentShader);
+    },
+  };
+};
@@ -0,0 +1,145 @@
+import { applyCommand, applyLayerCommand, invertCommand } from "./history";
+import { DEFAULT_LAYERS } from "./layers";
+import type { Command, Layer, Stroke } from "./types";
+
+// Playback leaves out the time spent between edits: each one follows the last
+// after a short pause. Freehand strokes are drawn out over the time they took
+// to draw, within limits; everything else appears at once.
+const STEP_PAUSE = 250;
+const MIN_STROKE_DURATION = 150;
+const MAX_STROKE_DURATION = 4000;
+// For strokes whose points carry no timestamps.
+const POINT_DURATION = 12;
+
+export interface ReplayStep {
+  command: Command;
+  // Milliseconds from the start of playback. The command is applied once
+  // `duration` has passed; until then its stroke, if any, is being drawn.
+  start: number;
+  duration: number;
+  stroke: Stroke | null;
+}
+
+export interface Replay {
+  steps: ReplayStep[];
+  duration: number;
+}
+
+// The drawing at one moment of playback, with the stroke being drawn then.
+export interface ReplayFrame {
+  strokes: Stroke[];
+  layers: Layer[];
+  partial: Stroke | null;
+}
+
+export interface ReplayCursor {
+  seek: (time: number) => ReplayFrame;
+}
+
+// A command that adds a single freehand stroke, which is replayed point by
+// point rather than all at once.
+const drawnStroke = (command: Command): Stroke | null => {
+  if (command.type !== "add" || command.changes.length !== 1) return null;
+  const { before, after } = command.changes[0];
+  if (before.length > 0 || after.length !== 1) return null;
+  const [stroke] = after;
+  return stroke.shape || stroke.text || stroke.points.length < 2 ? null : stroke;
+};
+
+const hasTimestamps = (stroke: Stroke) =>
+  stroke.points.every((point) => point.timestamp !== undefined);
+
+const strokeDuration = (stroke: Stroke) => {
+  const { points } = stroke;
+  const duration = hasTimestamps(stroke)
+    ? points[points.length - 1].timestamp! - points[0].timestamp!
+    : points.length * POINT_DURATION;
+  return Math.min(
+    MAX_STROKE_DURATION,
+    Math.max(MIN_STROKE_DURATION, duration)
+  );
+};
+
+// Lays out the commands up to `historyIndex` one after another.
+export const createReplay = (
+  history: Command[],
+  historyIndex: number
+): Replay => {
+  let time = 0;
+  const steps = history.slice(0, historyIndex + 1).map((command) => {
+    const stroke = drawnStroke(command);
+    const start = time + STEP_PAUSE;
+    const duration = stroke ? strokeDuration(stroke) : 0;
+    time = start + duration;
+    return { command, start, duration, stroke };
+  });
+  // Holds the finished drawing for a moment at the end.
+  return { steps, duration: time + STEP_PAUSE };
+};
+
+// The part of a step's stroke drawn by `time`, following its timestamps when
+// it has them and drawing at an even pace otherwise.
+const partialStroke = (
+  { stroke, start, duration }: ReplayStep,
+  time: number
+): Stroke | null => {
+  if (!stroke || time < start) return null;
+  const progress = (time - start) / duration;
+  const { points } = stroke;
+  let count = Math.ceil(progress * points.length);
+  if (hasTimestamps(stroke)) {
+    const first = points[0].timestamp!;
+    const cutoff =
+      first + progress * (points[points.length - 1].timestamp! - first);
+    count = points.findIndex((point) => point.timestamp! > cutoff);
+    if (count === -1) count = points.length;
+  }
+  return count > 0 ? { ...stroke, points: points.slice(0, count) } : null;
+};
+
+// Seeks by applying commands forward, or their inverses backward, from the
+// last position, so scrubbing and playing only replay what changed.
+export const createReplayCursor = (replay: Replay): ReplayCursor => {
+  let applied = 0;
+  let strokes: Stroke[] = [];
+  let layers = DEFAULT_LAYERS;
+
+  const apply = (command: Command) => {
+    strokes = applyCommand(strokes, command);
+    layers = applyLayerCommand(layers, command);
+  };
+
+  return {
+    seek: (time) => {
+      const { steps } = replay;
+      let target = 0;
+      while (
+        target < steps.length &&
+        steps[target].start + steps[target].duration <= time
+      ) {
+        target += 1;
+      }
+      while (applied < target) {
+        apply(steps[applied].command);
+        applied += 1;
+      }
+      while (applied > target) {
+        applied -= 1;
+        apply(invertCommand(steps[applied].command));
+      }
+      const step = steps[applied];
+      return {
+        strokes,
+        layers,
+        partial: step ? partialStroke(step, time) : null,
+      };
+    },
+  };
+};
+
+// Every stroke that appears at some point of playback, including ones a later
+// edit erased, for framing it.
+export const replayStrokes = (replay: Replay): Stroke[] =>
+  replay.steps.flatMap(({ command }) =>
+    command.changes.flatMap((change) => change.after)
+  );
@@ -0,0 +1,96 @@
+import { createId } from "./id";
+import { applyMatrix, matrixScale, translate, type Matrix } from "./matrix";
+import { shapeOutline } from "./shapes";
+import type { Point, Stroke } from "./types";
+
+export interface Bounds {
+  minX: number;
+  minY: number;
+  maxX: number;
+  maxY: number;
+}
+
+// A stroke counts as lassoed once at least this share of its points is
+// inside the loop, so a lasso drawn roughly around it still catches it.
+const LASSO_COVERAGE = 0.5;
+
+// Even-odd ray casting; the polygon is closed implicitly.
+export const pointInPolygon = (point: Point, polygon: Point[]) => {
+  let inside = false;
+  for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+    const a = polygon[i];
+    const b = polygon[j];
+    if (
+      a.y > point.y !== b.y > point.y &&
+      point.x < ((b.x - a.x) * (point.y - a.y)) / (b.y - a.y) + a.x
+    ) {
+      inside = !inside;
+    }
+  }
+  return inside;
+};
+
+export const lassoStrokes = (strokes: Stroke[], lasso: Point[]): string[] => {
+  if (lasso.length < 3) return [];
+  return strokes
+    .filter((stroke) => {
+      const inside = stroke.points.filter((point) =>
+        pointInPolygon(point, lasso)
+      ).length;
+      return inside > 0 && inside >= stroke.points.length * LASSO_COVERAGE;
+    })
+    .map((stroke) => stroke.id);
+};
+
+// Bounds in world units, including the stroke width.
+export const strokeBounds = (strokes: Stroke[]): Bounds | null => {
+  let minX = Infinity;
+  let minY = Infinity;
+  let maxX = -Infinity;
+  let maxY = -Infinity;
+  strokes.forEach((stroke) =>
+    stroke.points.forEach((point) => {
+      const radius = stroke.lineWidth / 2;
+      minX = Math.min(minX, point.x - radius);
+      minY = Math.min(minY, point.y - radius);
+      maxX = Math.max(maxX, point.x + radius);
+      maxY = Math.max(maxY, point.y + radius);
+    })
+  );
+  return minX === Infinity ? null : { minX, minY, maxX, maxY };
+};
+
+// Shapes transform their control points and rebuild the outline from them.
+// Text scales its font along with its box.
+export const transformStroke = (stroke: Stroke, matrix: Matrix): Stroke => {
+  const lineWidth = stroke.lineWidth * matrixScale(matrix);
+  if (stroke.text) {
+    return {
+      ...stroke,
+      points: stroke.points.map((point) => applyMatrix(matrix, point)),
+      text: {
+        ...stroke.text,
+        fontSize: stroke.text.fontSize * matrixScale(matrix),
+      },
+    };
+  }
+  if (!stroke.shape) {
+    return {
+      ...stroke,
+      points: stroke.points.map((point) => applyMatrix(matrix, point)),
+      lineWidth,
+    };
+  }
+  const shape = {
+    ...stroke.shape,
+    points: stroke.shape.points.map((point) => applyMatrix(matrix, point)),
+  };
+  return { ...stroke, points: shapeOutline(shape, lineWidth), lineWidth, shape };
+};
+
+// Copies get fresh ids so they can be edited and erased independently.
+export const copyStrokes = (strokes: Stroke[], offset = 0): Stroke[] =>
+  strokes.map((stroke) => ({
+    ...transformStroke(stroke, translate(offset, offset)),
+    id: createId(),
+  }));
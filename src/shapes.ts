@@ -0,0 +1,231 @@
+import { createId } from "./id";
+import type { Point, Shape, ShapeKind, Stroke, Tool } from "./types";
+
+const ELLIPSE_SEGMENTS = 72;
+const ARROW_HEAD_ANGLE = Math.PI / 7;
+const MIN_ARROW_HEAD = 10;
+const CONSTRAIN_ANGLE = Math.PI / 4;
+
+// Recognition thresholds, relative to the size of the drawn shape.
+const STRAIGHTNESS = 0.04;
+const CLOSED_GAP = 0.2;
+const FIT_TOLERANCE = 0.1;
+
+export const isShapeTool = (tool: Tool): tool is ShapeKind =>
+  tool === "line" ||
+  tool === "rectangle" ||
+  tool === "ellipse" ||
+  tool === "arrow";
+
+// Builds the shape dragged out from `start` to `end`. Constraining snaps
+// lines to 45 degree steps and makes rectangles square and ellipses round.
+export const createShape = (
+  kind: ShapeKind,
+  start: Point,
+  end: Point,
+  constrain: boolean
+): Shape => {
+  const a = { x: start.x, y: start.y };
+  let b = { x: end.x, y: end.y };
+
+  if (kind === "line" || kind === "arrow") {
+    if (constrain) {
+      const length = Math.hypot(b.x - a.x, b.y - a.y);
+      const angle =
+        Math.round(Math.atan2(b.y - a.y, b.x - a.x) / CONSTRAIN_ANGLE) *
+        CONSTRAIN_ANGLE;
+      b = {
+        x: a.x + Math.cos(angle) * length,
+        y: a.y + Math.sin(angle) * length,
+      };
+    }
+    return { kind, points: [a, b] };
+  }
+
+  if (constrain) {
+    const side = Math.max(Math.abs(b.x - a.x), Math.abs(b.y - a.y));
+    b = {
+      x: a.x + side * Math.sign(b.x - a.x || 1),
+      y: a.y + side * Math.sign(b.y - a.y || 1),
+    };
+  }
+
+  if (kind === "rectangle") {
+    return {
+      kind,
+      points: [a, { x: b.x, y: a.y }, b, { x: a.x, y: b.y }],
+    };
+  }
+
+  const center = { x: (a.x + b.x) / 2, y: (a.y + b.y) / 2 };
+  return {
+    kind,
+    points: [
+      center,
+      { x: b.x, y: center.y },
+      { x: center.x, y: b.y },
+    ],
+  };
+};
+
+// Points on an ellipse given by its center and conjugate semi-axis ends.
+const ellipsePoints = ([center, u, v]: Point[]): Point[] =>
+  Array.from({ length: ELLIPSE_SEGMENTS + 1 }, (_, i) => {
+    const angle = (i / ELLIPSE_SEGMENTS) * Math.PI * 2;
+    const cos = Math.cos(angle);
+    const sin = Math.sin(angle);
+    return {
+      x: center.x + (u.x - center.x) * cos + (v.x - center.x) * sin,
+      y: center.y + (u.y - center.y) * cos + (v.y - center.y) * sin,
+    };
+  });
+
+export const arrowHead = ([from, to]: Point[], lineWidth: number): Point[] => {
+  const length = Math.max(MIN_ARROW_HEAD, lineWidth * 3);
+  const angle = Math.atan2(to.y - from.y, to.x - from.x);
+  return [angle + Math.PI - ARROW_HEAD_ANGLE, angle + Math.PI + ARROW_HEAD_ANGLE].map(
+    (wing) => ({
+      x: to.x + Math.cos(wing) * length,
+      y: to.y + Math.sin(wing) * length,
+    })
+  );
+};
+
+// The outline a shape stroke is drawn along. The arrow retraces its tip to
+// reach the second wing, which the renderer's single-coverage stencil keeps
+// from darkening.
+export const shapeOutline = (shape: Shape, lineWidth: number): Point[] => {
+  const { points } = shape;
+  switch (shape.kind) {
+    case "line":
+      return [points[0], points[1]];
+    case "arrow": {
+      const [left, right] = arrowHead(points, lineWidth);
+      return [points[0], points[1], left, points[1], right];
+    }
+    case "rectangle":
+      return [...points, points[0]];
+    case "ellipse":
+      return ellipsePoints(points);
+  }
+};
+
+// The principal radii and rotation of an ellipse, from the singular value
+// decomposition of the matrix whose columns are its conjugate semi-axes.
+export const ellipseAxes = ([center, u, v]: Point[]) => {
+  const a = u.x - center.x;
+  const b = v.x - center.x;
+  const c = u.y - center.y;
+  const d = v.y - center.y;
+  const e = (a + d) / 2;
+  const f = (a - d) / 2;
+  const g = (c + b) / 2;
+  const h = (c - b) / 2;
+  const q = Math.hypot(e, h);
+  const r = Math.hypot(f, g);
+  return {
+    center,
+    rx: q + r,
+    ry: Math.abs(q - r),
+    rotation: (Math.atan2(h, e) + Math.atan2(g, f)) / 2,
+  };
+};
+
+const pathLength = (points: Point[]) =>
+  points
+    .slice(1)
+    .reduce(
+      (total, point, i) =>
+        total + Math.hypot(point.x - points[i].x, point.y - points[i].y),
+      0
+    );
+
+const distanceToLine = (p: Point, a: Point, b: Point) => {
+  const length = Math.hypot(b.x - a.x, b.y - a.y);
+  if (length === 0) return Math.hypot(p.x - a.x, p.y - a.y);
+  return Math.abs((b.x - a.x) * (a.y - p.y) - (a.x - p.x) * (b.y - a.y)) / length;
+};
+
+const average = (values: number[]) =>
+  values.reduce((total, value) => total + value, 0) / values.length;
+
+// Guesses which clean shape a freehand stroke was meant to be: a line when
+// it barely strays from the chord between its ends, otherwise a rectangle or
+// ellipse fitted to its bounding box when it closes on itself and either
+// outline fits closely enough. Returns null for anything else.
+export const recognizeShape = (points: Point[]): Shape | null => {
+  if (points.length < 3) return null;
+  const length = pathLength(points);
+  if (length === 0) return null;
+
+  const first = points[0];
+  const last = points[points.length - 1];
+  const deviation = points.reduce(
+    (max, point) => Math.max(max, distanceToLine(point, first, last)),
+    0
+  );
+  if (deviation <= length * STRAIGHTNESS) {
+    return createShape("line", first, last, false);
+  }
+
+  if (Math.hypot(last.x - first.x, last.y - first.y) > length * CLOSED_GAP) {
+    return null;
+  }
+
+  let minX = Infinity;
+  let minY = Infinity;
+  let maxX = -Infinity;
+  let maxY = -Infinity;
+  points.forEach((point) => {
+    minX = Math.min(minX, point.x);
+    minY = Math.min(minY, point.y);
+    maxX = Math.max(maxX, point.x);
+    maxY = Math.max(maxY, point.y);
+  });
+  const width = maxX - minX;
+  const height = maxY - minY;
+  const size = (width + height) / 2;
+  if (size === 0) return null;
+
+  const rx = Math.max(width / 2, 1e-6);
+  const ry = Math.max(height / 2, 1e-6);
+  const cx = minX + width / 2;
+  const cy = minY + height / 2;
+  const ellipseError = average(
+    points.map(
+      (point) =>
+        Math.abs(Math.hypot((point.x - cx) / rx, (point.y - cy) / ry) - 1) *
+        ((rx + ry) / 2)
+    )
+  );
+  const rectangleError = average(
+    points.map((point) =>
+      Math.min(
+        Math.abs(point.x - minX),
+        Math.abs(point.x - maxX),
+        Math.abs(point.y - minY),
+        Math.abs(point.y - maxY)
+      )
+    )
+  );
+
+  if (Math.min(ellipseError, rectangleError) > size * FIT_TOLERANCE) {
+    return null;
+  }
+  return createShape(
+    rectangleError < ellipseError ? "rectangle" : "ellipse",
+    { x: minX, y: minY },
+    { x: maxX, y: maxY },
+    false
+  );
+};
+
+export const createShapeStroke = (
+  shape: Shape,
+  style: Pick<Stroke, "tool" | "color" | "lineWidth" | "opacity" | "layerId">
+): Stroke => ({
+  id: createId(),
+  ...style,
+  points: shapeOutline(shape, style.lineWidth),
+  shape,
+});
@@ -0,0 +1,134 @@
+// Shortcuts are written as modifiers followed by a key, e.g. "Shift+Mod+Z".
+// "Mod" is Cmd on Apple keyboards and Ctrl elsewhere.
+export const DEFAULT_SHORTCUTS = {
+  undo: ["Mod+Z"],
+  redo: ["Shift+Mod+Z", "Mod+Y"],
+  clear: ["Shift+Mod+Backspace"],
+  "tool-pen": ["P"],
+  "tool-highlighter": ["H"],
+  "tool-eraser": ["E"],
+  "tool-lasso": ["L"],
+  "tool-line": ["Shift+L"],
+  "tool-rectangle": ["R"],
+  "tool-ellipse": ["O"],
+  "tool-arrow": ["A"],
+  "tool-text": ["T"],
+  "toggle-shape-snap": [],
+  "toggle-eraser-mode": ["Shift+E"],
+  "color-1": ["1"],
+  "color-2": ["2"],
+  "color-3": ["3"],
+  "color-4": ["4"],
+  "color-5": ["5"],
+  "color-picker": ["C"],
+  "size-decrease": ["["],
+  "size-increase": ["]"],
+  copy: ["Mod+C"],
+  paste: ["Mod+V"],
+  duplicate: ["Mod+D"],
+  "delete-selection": ["Backspace", "Delete"],
+  "convert-to-text": [],
+  deselect: ["Escape"],
+  "zoom-in": ["Mod+=", "Shift+Mod+="],
+  "zoom-out": ["Mod+-"],
+  "fit-view": ["Shift+1"],
+  "reset-view": ["Shift+0"],
+  "toggle-pen-only": [],
+  "open-gallery": ["Mod+O"],
+  export: ["Shift+Mod+E"],
+  replay: ["Shift+R"],
+  "save-file": ["Mod+S"],
+  "open-file": ["Shift+Mod+O"],
+  "toggle-layers": ["Shift+Mod+L"],
+  "new-layer": [],
+  "toggle-paper": [],
+  "toggle-session": [],
+  "leave-session": [],
+  "toggle-versions": [],
+  "save-version": [],
+  "import-background": [],
+  "remove-background": [],
+  "reset-toolbar": [],
+  "reset-shortcuts": [],
+  "command-palette": ["Mod+K"],
+} satisfies Record<string, string[]>;
+
+export type ActionId = keyof typeof DEFAULT_SHORTCUTS;
+
+export interface Action {
+  id: ActionId;
+  label: string;
+  run: () => void;
+  enabled?: boolean;
+}
+
+export type ShortcutMap = Record<ActionId, string[]>;
+
+const isApple = () =>
+  typeof navigator !== "undefined" &&
+  /Mac|iPhone|iPad/.test(navigator.platform || navigator.userAgent);
+
+// Saved remappings replace an action's default shortcuts.
+export const resolveShortcuts = (
+  overrides: Record<string, string[]>
+): ShortcutMap => ({ ...DEFAULT_SHORTCUTS, ...overrides });
+
+// Letters and digits come from the physical key so Shift and Alt don't turn
+// "1" into "!" or "E" into "´".
+export const eventToShortcut = (e: KeyboardEvent): string | null => {
+  if (["Shift", "Control", "Alt", "Meta"].includes(e.key)) return null;
+  let key = e.key.length === 1 ? e.key.toUpperCase() : e.key;
+  if (/^Key[A-Z]$/.test(e.code)) key = e.code.slice(3);
+  else if (/^Digit\d$/.test(e.code)) key = e.code.slice(5);
+  else if (e.code === "Equal") key = "=";
+  else if (e.code === "Minus") key = "-";
+  else if (e.code === "BracketLeft") key = "[";
+  else if (e.code === "BracketRight") key = "]";
+  return [
+    e.shiftKey && "Shift",
+    e.altKey && "Alt",
+    (e.metaKey || e.ctrlKey) && "Mod",
+    key,
+  ]
+    .filter(Boolean)
+    .join("+");
+};
+
+export const findAction = (
+  shortcuts: ShortcutMap,
+  shortcut: string
+): ActionId | undefined =>
+  (Object.keys(shortcuts) as ActionId[]).find((id) =>
+    shortcuts[id].includes(shortcut)
+  );
+
+// Binds `shortcut` to `id` alone, taking it away from any other action.
+export const remapShortcut = (
+  overrides: Record<string, string[]>,
+  id: ActionId,
+  shortcut: string
+): Record<string, string[]> => {
+  const shortcuts = resolveShortcuts(overrides);
+  const next = { ...overrides, [id]: [shortcut] };
+  (Object.keys(shortcuts) as ActionId[]).forEach((other) => {
+    if (other !== id && shortcuts[other].includes(shortcut)) {
+      next[other] = shortcuts[other].filter((entry) => entry !== shortcut);
+    }
+  });
+  return next;
+};
+
+export const formatShortcut = (shortcut: string): string => {
+  const apple = isApple();
+  return shortcut
+    .split("+")
+    .map((part) => {
+      if (part === "Mod") return apple ? "⌘" : "Ctrl";
+      if (part === "Shift") return apple ? "⇧" : "Shift";
+      if (part === "Alt") return apple ? "⌥" : "Alt";
+      if (part === "Backspace") return apple ? "⌫" : "Backspace";
+      if (part === "Escape") return "Esc";
+      return part;
+    })
+    .join(apple ? "" : "+");
+};
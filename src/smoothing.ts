@@ -0,0 +1,108 @@
+import type { Point } from "./types";
+
+export const MAX_STABILIZER = 100;
+
+// Keeps the interpolated points about this far apart, in world units.
+const CURVE_SPACING = 2;
+const MAX_CURVE_STEPS = 16;
+
+export interface StrokeSmoother {
+  // Adds a raw sample and returns the smoothed points it finalized.
+  push: (point: Point) => Point[];
+  // Flushes the rest of the curve when the pointer lifts.
+  finish: () => Point[];
+}
+
+const lerp = (a: number | undefined, b: number | undefined, t: number) =>
+  a === undefined || b === undefined ? a : a + (b - a) * t;
+
+const mix = (a: Point, b: Point, t: number): Point => {
+  const point: Point = { x: a.x + (b.x - a.x) * t, y: a.y + (b.y - a.y) * t };
+  if (a.pressure !== undefined) point.pressure = lerp(a.pressure, b.pressure, t);
+  if (a.tiltX !== undefined) point.tiltX = lerp(a.tiltX, b.tiltX, t);
+  if (a.tiltY !== undefined) point.tiltY = lerp(a.tiltY, b.tiltY, t);
+  if (a.timestamp !== undefined) {
+    point.timestamp = lerp(a.timestamp, b.timestamp, t);
+  }
+  return point;
+};
+
+const catmullRom = (p0: number, p1: number, p2: number, p3: number, t: number) =>
+  0.5 *
+  (2 * p1 +
+    (p2 - p0) * t +
+    (2 * p0 - 5 * p1 + 4 * p2 - p3) * t * t +
+    (3 * p1 - p0 - 3 * p2 + p3) * t * t * t);
+
+// Points strictly after p1 up to and including p2 on the Catmull-Rom spline
+// through p0..p3. Pressure, tilt and time are interpolated linearly.
+const curveSegment = (p0: Point, p1: Point, p2: Point, p3: Point): Point[] => {
+  const steps = Math.min(
+    MAX_CURVE_STEPS,
+    Math.max(1, Math.ceil(Math.hypot(p2.x - p1.x, p2.y - p1.y) / CURVE_SPACING))
+  );
+  const points: Point[] = [];
+  for (let i = 1; i <= steps; i++) {
+    const t = i / steps;
+    points.push({
+      ...mix(p1, p2, t),
+      x: catmullRom(p0.x, p1.x, p2.x, p3.x, t),
+      y: catmullRom(p0.y, p1.y, p2.y, p3.y, t),
+    });
+  }
+  return points;
+};
+
+// Smooths pointer samples into the points that are both drawn live and saved
+// in the stroke. The stabilizer (0-100) makes the pen trail the pointer,
+// filtering out jitter; the Catmull-Rom spline then rounds off the corners
+// between samples. A segment is only emitted once the sample after it is
+// known, so the curve lags the pointer by one sample until `finish`.
+export const createStrokeSmoother = (stabilizer: number): StrokeSmoother => {
+  const amount = Math.min(MAX_STABILIZER, Math.max(0, stabilizer));
+  const follow = 1 - (amount / MAX_STABILIZER) * 0.9;
+  const controls: Point[] = [];
+  let lastRaw: Point | null = null;
+
+  const addControl = (point: Point): Point[] => {
+    controls.push(point);
+    const n = controls.length;
+    if (n === 1) return [point];
+    if (n < 3) return [];
+    return curveSegment(
+      controls[Math.max(0, n - 4)],
+      controls[n - 3],
+      controls[n - 2],
+      controls[n - 1]
+    );
+  };
+
+  return {
+    push: (point) => {
+      lastRaw = point;
+      const previous = controls[controls.length - 1];
+      return addControl(previous ? mix(previous, point, follow) : point);
+    },
+
+    finish: () => {
+      const points: Point[] = [];
+      // Let the stabilized pen catch up with where the pointer lifted.
+      const last = controls[controls.length - 1];
+      if (lastRaw && last && (last.x !== lastRaw.x || last.y !== lastRaw.y)) {
+        points.push(...addControl(lastRaw));
+      }
+      const n = controls.length;
+      if (n >= 2) {
+        points.push(
+          ...curveSegment(
+            controls[Math.max(0, n - 3)],
+            controls[n - 2],
+            controls[n - 1],
+            controls[n - 1]
+          )
+        );
+      }
+      return points;
+    },
+  };
+};
@@ -0,0 +1,549 @@
+import { del, delMany, get, set, update } from "idb-keyval";
+import { eraseStrokes } from "./eraser";
+import { drawingText } from "./handwriting";
+import {
+  addCommand,
+  applyCommand,
+  replaceCommand,
+  replayHistory,
+} from "./history";
+import { createId } from "./id";
+import type {
+  Background,
+  Command,
+  DrawingSummary,
+  InkTool,
+  Paper,
+  Point,
+  RecognizedText,
+  SnapshotSummary,
+  Stroke,
+  StoredDrawing,
+  StoredSnapshot,
+} from "./types";
+
+const LEGACY_DRAWING_KEY = "currentDrawing";
+const DRAWING_INDEX_KEY = "drawingIndex";
+const ACTIVE_DRAWING_KEY = "activeDrawingId";
+const LIBRARY_VERSION_KEY = "libraryVersion";
+
+const drawingKey = (id: string) => `drawing:${id}`;
+const snapshotIndexKey = (drawingId: string) => `snapshots:${drawingId}`;
+const snapshotKey = (drawingId: string, snapshotId: string) =>
+  `snapshot:${drawingId}:${snapshotId}`;
+
+// Older versions are dropped once a drawing has this many.
+const MAX_SNAPSHOTS = 20;
+
+// Fields to change in a stored drawing. A null background removes it.
+export interface DrawingUpdate {
+  history?: Command[];
+  historyIndex?: number;
+  thumbnail?: string | null;
+  paper?: Paper;
+  background?: Background | null;
+  recognizedText?: RecognizedText[];
+  searchText?: string;
+}
+
+// Version 1 stored points in device pixels. Version 2 stores CSS pixels.
+// Version 3 replaces the stroke list with an edit history. Version 4 stores
+// that history as invertible commands. Version 5 adds the text drawings are
+// searched by.
+export const DRAWING_VERSION = 5;
+
+// Before version 3 a drawing was a flat list of strokes with an undo pointer,
+// and the eraser was stored as white strokes.
+interface LegacyStroke {
+  points: Point[];
+  color: string;
+  tool: InkTool | "eraser";
+  lineWidth: number;
+  opacity: number;
+}
+
+interface LegacyDrawing extends DrawingSummary {
+  version: number;
+  strokes: LegacyStroke[];
+  currentStrokeIndex: number;
+}
+
+// Version 3 history entries could only be replayed forwards: replaced
+// strokes were swapped in place for their replacements and added strokes
+// went on top.
+interface LegacyHistoryEntry {
+  added: Stroke[];
+  replaced: Record<string, Stroke[]>;
+}
+
+interface LegacyHistoryDrawing extends DrawingSummary {
+  version: number;
+  history: LegacyHistoryEntry[];
+  historyIndex: number;
+}
+
+type VersionedDrawing = LegacyDrawing | LegacyHistoryDrawing | StoredDrawing;
+
+const applyLegacyEntry = (
+  strokes: Stroke[],
+  { added, replaced }: LegacyHistoryEntry
+): Stroke[] => [
+  ...strokes.flatMap((stroke) => replaced[stroke.id] ?? [stroke]),
+  ...added,
+];
+
+const samePoints = (a: Point[], b: Point[]) =>
+  a.length === b.length &&
+  a.every((point, i) => point.x === b[i].x && point.y === b[i].y);
+
+// Lasso edits kept stroke ids; anything else that replaced strokes was the
+// eraser.
+const legacyEntryType = (
+  strokes: Stroke[],
+  replaced: Record<string, Stroke[]>
+): "erase" | "transform" | "property" => {
+  const edited = strokes.filter((stroke) => replaced[stroke.id]);
+  const sameIds = edited.every(
+    (stroke) =>
+      replaced[stroke.id].length === 1 && replaced[stroke.id][0].id === stroke.id
+  );
+  if (!sameIds || edited.length === 0) return "erase";
+  return edited.every((stroke) =>
+    samePoints(replaced[stroke.id][0].points, stroke.points)
+  )
+    ? "property"
+    : "transform";
+};
+
+const toSummary = ({
+  id,
+  title,
+  lastModified,
+  thumbnail,
+  searchText,
+}: StoredDrawing): DrawingSummary => ({
+  id,
+  title,
+  lastModified,
+  thumbnail,
+  ...(searchText ? { searchText } : {}),
+});
+
+// Everything that reads a drawing and writes it back runs one at a time per
+// drawing, so an autosave, a rename from the gallery and a snapshot can't
+// overwrite each other's changes with what they read before. Loads wait
+// their turn too, so a drawing opened again sees the writes of the canvas
+// that closed it.
+const drawingQueues = new Map<string, Promise<unknown>>();
+
+const queueDrawingTask = <T>(id: string, task: () => Promise<T>): Promise<T> => {
+  const result = (drawingQueues.get(id) ?? Promise.resolve()).then(task);
+  const settled = result.catch(() => undefined);
+  drawingQueues.set(id, settled);
+  settled.then(() => {
+    if (drawingQueues.get(id) === settled) drawingQueues.delete(id);
+  });
+  return result;
+};
+
+export const isQuotaError = (error: unknown) =>
+  error instanceof DOMException &&
+  (error.name === "QuotaExceededError" ||
+    error.name === "NS_ERROR_DOM_QUOTA_REACHED");
+
+const writeDrawing = async (drawing: StoredDrawing): Promise<void> => {
+  await set(drawingKey(drawing.id), drawing);
+  await update<DrawingSummary[]>(DRAWING_INDEX_KEY, (index = []) => {
+    const summary = toSummary(drawing);
+    const existing = index.findIndex((entry) => entry.id === drawing.id);
+    if (existing === -1) return [...index, summary];
+    return index.map((entry, i) => (i === existing ? summary : entry));
+  });
+};
+
+// Drawings saved before versioning carry no version field and are treated
+// as version 1. Each step upgrades a drawing by one version.
+const migrations: Record<
+  number,
+  (drawing: VersionedDrawing) => VersionedDrawing
+> = {
+  // The pixel ratio the drawing was made at was never stored, so assume it
+  // was this device, which is right for drawings that never left it.
+  1: (drawing) => {
+    const legacy = drawing as LegacyDrawing;
+    const pixelRatio = window.devicePixelRatio || 1;
+    return {
+      ...legacy,
+      version: 2,
+      strokes: legacy.strokes.map((stroke) => ({
+        ...stroke,
+        points: stroke.points.map((point) => ({
+          ...point,
+          x: point.x / pixelRatio,
+          y: point.y / pixelRatio,
+        })),
+      })),
+    };
+  },
+  // Each stroke becomes one history entry. White eraser strokes are replayed
+  // as partial erasures of the strokes drawn before them.
+  2: (drawing) => {
+    const { strokes, currentStrokeIndex, ...rest } = drawing as LegacyDrawing;
+    let visible: Stroke[] = [];
+    const history = strokes.map((legacy): LegacyHistoryEntry => {
+      const entry: LegacyHistoryEntry =
+        legacy.tool === "eraser"
+          ? {
+              added: [],
+              replaced: eraseStrokes(
+                visible,
+                legacy.points,
+                legacy.lineWidth / 2,
+                "partial"
+              ),
+            }
+          : {
+              added: [{ ...legacy, tool: legacy.tool, id: createId() }],
+              replaced: {},
+            };
+      visible = applyLegacyEntry(visible, entry);
+      return entry;
+    });
+    return { ...rest, version: 3, history, historyIndex: currentStrokeIndex };
+  },
+  // Replays the entries to record the strokes each one replaced.
+  3: (drawing) => {
+    const legacy = drawing as LegacyHistoryDrawing;
+    let visible: Stroke[] = [];
+    const history = legacy.history.map((entry): Command => {
+      const command: Command =
+        Object.keys(entry.replaced).length > 0
+          ? replaceCommand(
+              legacyEntryType(visible, entry.replaced),
+              visible,
+              entry.replaced
+            )
+          : { type: "add", changes: [] };
+      if (entry.added.length > 0) {
+        command.changes.push(
+          ...addCommand(applyCommand(visible, command), entry.added).changes
+        );
+      }
+      visible = applyCommand(visible, command);
+      return command;
+    });
+    return { ...legacy, version: 4, history };
+  },
+  // Indexes the text in the drawing as it was left, and the handwriting
+  // whose text was kept.
+  4: (drawing) => {
+    const stored = drawing as StoredDrawing;
+    const searchText = drawingText(
+      replayHistory(stored.history, stored.historyIndex),
+      stored.recognizedText ?? []
+    );
+    return { ...stored, version: 5, ...(searchText ? { searchText } : {}) };
+  },
+};
+
+export const migrateDrawing = (drawing: VersionedDrawing): StoredDrawing => {
+  let migrated: VersionedDrawing = {
+    ...drawing,
+    version: drawing.version ?? 1,
+  };
+  while (migrated.version < DRAWING_VERSION) {
+    const migrate = migrations[migrated.version];
+    if (!migrate) {
+      throw new Error(`No migration from drawing version ${migrated.version}`);
+    }
+    migrated = migrate(migrated);
+  }
+  return migrated as StoredDrawing;
+};
+
+const readDrawing = async (id: string): Promise<StoredDrawing | undefined> => {
+  const drawing = await get<VersionedDrawing>(drawingKey(id));
+  return drawing && migrateDrawing(drawing);
+};
+
+const newDrawing = (title: string): StoredDrawing => ({
+  id: createId(),
+  version: DRAWING_VERSION,
+  title,
+  history: [],
+  historyIndex: -1,
+  lastModified: Date.now(),
+  thumbnail: null,
+});
+
+// Before the document library existed the app kept a single drawing under
+// LEGACY_DRAWING_KEY. Move it into the library once, then drop the old key.
+const migrateLegacyDrawing = async (): Promise<void> => {
+  const legacy = await get<{
+    strokes: LegacyStroke[];
+    currentStrokeIndex: number;
+    lastModified: number;
+  }>(LEGACY_DRAWING_KEY);
+  if (!legacy) return;
+
+  await writeDrawing(
+    migrateDrawing({
+      id: createId(),
+      title: "My Doodle",
+      thumbnail: null,
+      version: 1,
+      strokes: legacy.strokes,
+      currentStrokeIndex: legacy.currentStrokeIndex,
+      lastModified: legacy.lastModified,
+    })
+  );
+  await del(LEGACY_DRAWING_KEY);
+};
+
+// Drawings are migrated whenever they are read, but the index only sees
+// what a migration adds, such as search text, once they are written back.
+// After an upgrade every older drawing is written back once. A failure
+// leaves the rest for the next start rather than keeping the library shut.
+const migrateLibrary = async (): Promise<void> => {
+  try {
+    if ((await get<number>(LIBRARY_VERSION_KEY)) === DRAWING_VERSION) return;
+    const index = (await get<DrawingSummary[]>(DRAWING_INDEX_KEY)) ?? [];
+    for (const { id } of index) {
+      await queueDrawingTask(id, async () => {
+        const drawing = await get<VersionedDrawing>(drawingKey(id));
+        if (drawing && (drawing.version ?? 1) < DRAWING_VERSION) {
+          await writeDrawing(migrateDrawing(drawing));
+        }
+      });
+    }
+    await set(LIBRARY_VERSION_KEY, DRAWING_VERSION);
+  } catch (error) {
+    console.error("Failed to migrate drawings:", error);
+  }
+};
+
+export const listDrawings = async (): Promise<DrawingSummary[]> => {
+  try {
+    const index = (await get<DrawingSummary[]>(DRAWING_INDEX_KEY)) ?? [];
+    return [...index].sort((a, b) => b.lastModified - a.lastModified);
+  } catch (error) {
+    console.error("Failed to list drawings:", error);
+    return [];
+  }
+};
+
+// Resolves the drawing to open on startup, migrating the legacy drawing and
+// creating a first document when the library is empty.
+export const initializeLibrary = async (): Promise<string | null> => {
+  try {
+    await migrateLegacyDrawing();
+    await migrateLibrary();
+    const drawings = await listDrawings();
+    const activeId = await get<string>(ACTIVE_DRAWING_KEY);
+    if (activeId && drawings.some((drawing) => drawing.id === activeId)) {
+      return activeId;
+    }
+    if (drawings.length > 0) return drawings[0].id;
+    const drawing = await createDrawing();
+    return drawing.id;
+  } catch (error) {
+    console.error("Failed to initialize drawing library:", error);
+    return null;
+  }
+};
+
+export const setActiveDrawing = async (id: string): Promise<void> => {
+  try {
+    await set(ACTIVE_DRAWING_KEY, id);
+  } catch (error) {
+    console.error("Failed to store active drawing:", error);
+  }
+};
+
+export const createDrawing = async (
+  title = "Untitled"
+): Promise<StoredDrawing> => {
+  const drawing = newDrawing(title);
+  await writeDrawing(drawing);
+  return drawing;
+};
+
+// Stores a drawing brought in from outside the library under a new id.
+export const addDrawing = async (
+  contents: Omit<StoredDrawing, "id" | "version" | "lastModified">
+): Promise<StoredDrawing> => {
+  const drawing: StoredDrawing = {
+    ...contents,
+    id: createId(),
+    version: DRAWING_VERSION,
+    lastModified: Date.now(),
+  };
+  await writeDrawing(drawing);
+  return drawing;
+};
+
+export const loadDrawing = async (id: string): Promise<StoredDrawing | null> => {
+  try {
+    return (await queueDrawingTask(id, () => readDrawing(id))) ?? null;
+  } catch (error) {
+    console.error("Failed to load drawing:", error);
+    return null;
+  }
+};
+
+// Applies `changes` to the stored drawing. Unlike the other functions here it
+// lets failures through, so autosave can retry and report them. Resolves to
+// false when the drawing has been deleted in the meantime.
+export const updateDrawing = (
+  id: string,
+  changes: DrawingUpdate
+): Promise<boolean> =>
+  queueDrawingTask(id, async () => {
+    const existing = await readDrawing(id);
+    if (!existing) return false;
+    const { background, ...rest } = changes;
+    const drawing: StoredDrawing = {
+      ...existing,
+      ...rest,
+      lastModified: Date.now(),
+    };
+    if (background) {
+      drawing.background = background;
+    } else if (background === null) {
+      delete drawing.background;
+    }
+    await writeDrawing(drawing);
+    return true;
+  });
+
+export const renameDrawing = async (id: string, title: string): Promise<void> => {
+  try {
+    await queueDrawingTask(id, async () => {
+      const existing = await readDrawing(id);
+      if (!existing) return;
+      await writeDrawing({ ...existing, title, lastModified: Date.now() });
+    });
+  } catch (error) {
+    console.error("Failed to rename drawing:", error);
+  }
+};
+
+export const duplicateDrawing = async (
+  id: string
+): Promise<StoredDrawing | null> => {
+  try {
+    const existing = await queueDrawingTask(id, () => readDrawing(id));
+    if (!existing) return null;
+    const copy: StoredDrawing = {
+      ...existing,
+      id: createId(),
+      title: `${existing.title} copy`,
+      lastModified: Date.now(),
+    };
+    await writeDrawing(copy);
+    return copy;
+  } catch (error) {
+    console.error("Failed to duplicate drawing:", error);
+    return null;
+  }
+};
+
+export const deleteDrawing = async (id: string): Promise<void> => {
+  try {
+    await queueDrawingTask(id, async () => {
+      const snapshots = await listSnapshots(id);
+      await del(drawingKey(id));
+      await update<DrawingSummary[]>(DRAWING_INDEX_KEY, (index = []) =>
+        index.filter((entry) => entry.id !== id)
+      );
+      await delMany([
+        snapshotIndexKey(id),
+        ...snapshots.map((snapshot) => snapshotKey(id, snapshot.id)),
+      ]);
+    });
+  } catch (error) {
+    console.error("Failed to delete drawing:", error);
+  }
+};
+
+// Newest first.
+export const listSnapshots = async (
+  drawingId: string
+): Promise<SnapshotSummary[]> => {
+  try {
+    return (await get<SnapshotSummary[]>(snapshotIndexKey(drawingId))) ?? [];
+  } catch (error) {
+    console.error("Failed to list versions:", error);
+    return [];
+  }
+};
+
+// Keeps the drawing as it is stored now, up to its current step, dropping
+// the oldest versions past the limit. Failures are left to the caller.
+export const createSnapshot = (
+  drawingId: string
+): Promise<SnapshotSummary | null> =>
+  queueDrawingTask(drawingId, async () => {
+    const drawing = await readDrawing(drawingId);
+    if (!drawing) return null;
+    const snapshot: StoredSnapshot = {
+      id: createId(),
+      createdAt: Date.now(),
+      thumbnail: drawing.thumbnail,
+      version: drawing.version,
+      history: drawing.history.slice(0, drawing.historyIndex + 1),
+      historyIndex: drawing.historyIndex,
+    };
+    const summary: SnapshotSummary = {
+      id: snapshot.id,
+      createdAt: snapshot.createdAt,
+      thumbnail: snapshot.thumbnail,
+    };
+    await set(snapshotKey(drawingId, snapshot.id), snapshot);
+    let dropped: SnapshotSummary[] = [];
+    await update<SnapshotSummary[]>(snapshotIndexKey(drawingId), (index = []) => {
+      const next = [summary, ...index];
+      dropped = next.slice(MAX_SNAPSHOTS);
+      return next.slice(0, MAX_SNAPSHOTS);
+    });
+    await delMany(dropped.map((entry) => snapshotKey(drawingId, entry.id)));
+    return summary;
+  });
+
+export const deleteSnapshot = async (
+  drawingId: string,
+  snapshotId: string
+): Promise<void> => {
+  try {
+    await queueDrawingTask(drawingId, async () => {
+      await update<SnapshotSummary[]>(snapshotIndexKey(drawingId), (index = []) =>
+        index.filter((entry) => entry.id !== snapshotId)
+      );
+      await del(snapshotKey(drawingId, snapshotId));
+    });
+  } catch (error) {
+    console.error("Failed to delete version:", error);
+  }
+};
+
+// Versions saved before a format change are migrated like drawings.
+export const loadSnapshot = async (
+  drawingId: string,
+  snapshotId: string
+): Promise<StoredSnapshot | null> => {
+  try {
+    const snapshot = await get<StoredSnapshot>(
+      snapshotKey(drawingId, snapshotId)
+    );
+    if (!snapshot) return null;
+    const { history, historyIndex, version } = migrateDrawing({
+      ...snapshot,
+      title: "",
+      lastModified: snapshot.createdAt,
+    });
+    return { ...snapshot, history, historyIndex, version };
+  } catch (error) {
+    console.error("Failed to load version:", error);
+    return null;
+  }
+};
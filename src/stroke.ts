@@ -0,0 +1,35 @@
+import type { Point, Stroke } from "./types";
+
+// Points recorded before pressure support have no pressure, so they keep the
+// stroke's nominal width. A mid-range press (0.5) also maps to nominal width.
+export const pointWidth = (point: Point, lineWidth: number): number => {
+  if (point.pressure === undefined) return lineWidth;
+  const tilt = Math.min(
+    1,
+    Math.hypot(point.tiltX ?? 0, point.tiltY ?? 0) / 90
+  );
+  return lineWidth * (0.25 + 1.5 * point.pressure) * (1 + tilt * 0.5);
+};
+
+export const pointAlpha = (point: Point): number => {
+  if (point.pressure === undefined) return 1;
+  return Math.min(1, 0.3 + point.pressure * 1.4);
+};
+
+// Strokes are painted in a single pass. The first renderer stamped a circle
+// for every pixel along a stroke, blending a translucent stroke over itself
+// about once per device pixel of its width; this coverage factor copies
+// that look, here for exports and thumbnails and in the WebGL shader.
+export const coverageAlpha = (alpha: number, widthPx: number): number =>
+  1 - Math.pow(1 - Math.min(1, Math.max(0, alpha)), Math.max(1, widthPx));
+
+export const strokeAlpha = (
+  stroke: Stroke,
+  pixelRatio: number
+): number => {
+  const alpha =
+    stroke.tool === "highlighter"
+      ? (stroke.opacity / 100) * 0.1
+      : stroke.opacity / 100;
+  return coverageAlpha(alpha, stroke.lineWidth * pixelRatio);
+};
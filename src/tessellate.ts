@@ -0,0 +1,141 @@
+import { pointAlpha, pointWidth } from "./stroke";
+import type { Point, Stroke } from "./types";
+
+// Each vertex is x, y (world units) and an alpha factor from pen pressure.
+export const FLOATS_PER_VERTEX = 3;
+
+const MIN_CIRCLE_SEGMENTS = 12;
+const MAX_CIRCLE_SEGMENTS = 64;
+
+const circleSegments = (radius: number) =>
+  Math.min(
+    MAX_CIRCLE_SEGMENTS,
+    Math.max(MIN_CIRCLE_SEGMENTS, Math.ceil(Math.PI * radius))
+  );
+
+type Vertex = [number, number, number];
+
+const arc = (
+  center: Point,
+  radius: number,
+  alpha: number,
+  from: number,
+  to: number
+): Vertex[] => {
+  const steps = Math.max(
+    2,
+    Math.ceil((circleSegments(radius) * (to - from)) / (Math.PI * 2))
+  );
+  const vertices: Vertex[] = [];
+  for (let i = 0; i <= steps; i++) {
+    const angle = from + ((to - from) * i) / steps;
+    vertices.push([
+      center.x + Math.cos(angle) * radius,
+      center.y + Math.sin(angle) * radius,
+      alpha,
+    ]);
+  }
+  return vertices;
+};
+
+// The outline of a segment with round ends: the convex hull of the circles
+// at both end points. Consecutive hulls overlap at the shared point, which
+// gives round joins without any join logic.
+const segmentHull = (
+  from: Point,
+  to: Point,
+  fromRadius: number,
+  toRadius: number,
+  fromAlpha: number,
+  toAlpha: number
+): Vertex[] => {
+  const distance = Math.hypot(to.x - from.x, to.y - from.y);
+  if (distance <= Math.abs(fromRadius - toRadius)) {
+    return fromRadius >= toRadius
+      ? arc(from, fromRadius, fromAlpha, 0, Math.PI * 2).slice(1)
+      : arc(to, toRadius, toAlpha, 0, Math.PI * 2).slice(1);
+  }
+
+  const direction = Math.atan2(to.y - from.y, to.x - from.x);
+  const spread = Math.acos((fromRadius - toRadius) / distance);
+  return [
+    ...arc(to, toRadius, toAlpha, direction - spread, direction + spread),
+    ...arc(
+      from,
+      fromRadius,
+      fromAlpha,
+      direction + spread,
+      direction + Math.PI * 2 - spread
+    ),
+  ];
+};
+
+// Orders a convex polygon's vertices so a triangle strip covers it:
+// v0, v1, vn-1, v2, vn-2, ...
+const zigzag = (polygon: Vertex[]): Vertex[] => {
+  const result: Vertex[] = [];
+  let low = 0;
+  let high = polygon.length - 1;
+  result.push(polygon[low++]);
+  while (low <= high) {
+    result.push(polygon[low++]);
+    if (low <= high) result.push(polygon[high--]);
+  }
+  return result;
+};
+
+const appendStrip = (target: Vertex[], strip: Vertex[]) => {
+  if (strip.length === 0) return;
+  // Repeating the joint vertices stitches separate polygons into one strip
+  // with zero-area triangles in between.
+  if (target.length > 0) {
+    target.push(target[target.length - 1], strip[0]);
+  }
+  target.push(...strip);
+};
+
+const toFloatArray = (vertices: Vertex[]): Float32Array => {
+  const data = new Float32Array(vertices.length * FLOATS_PER_VERTEX);
+  vertices.forEach((vertex, i) => data.set(vertex, i * FLOATS_PER_VERTEX));
+  return data;
+};
+
+const pointStyle = (stroke: Pick<Stroke, "tool" | "lineWidth">, point: Point) => ({
+  radius: pointWidth(point, stroke.lineWidth) / 2,
+  alpha: stroke.tool === "pen" ? pointAlpha(point) : 1,
+});
+
+// Tessellates one segment of a stroke. A whole stroke is exactly the union
+// of its segments, so drawing segments live matches the final redraw.
+export const tessellateSegment = (
+  stroke: Pick<Stroke, "tool" | "lineWidth">,
+  from: Point,
+  to: Point
+): Float32Array => {
+  const a = pointStyle(stroke, from);
+  const b = pointStyle(stroke, to);
+  return toFloatArray(
+    zigzag(segmentHull(from, to, a.radius, b.radius, a.alpha, b.alpha))
+  );
+};
+
+export const tessellateStroke = (stroke: Stroke): Float32Array => {
+  const { points } = stroke;
+  if (points.length === 0) return new Float32Array();
+  if (points.length === 1) {
+    return tessellateSegment(stroke, points[0], points[0]);
+  }
+
+  const vertices: Vertex[] = [];
+  for (let i = 1; i < points.length; i++) {
+    const a = pointStyle(stroke, points[i - 1]);
+    const b = pointStyle(stroke, points[i]);
+    appendStrip(
+      vertices,
+      zigzag(
+        segmentHull(points[i - 1], points[i], a.radius, b.radius, a.alpha, b.alpha)
+      )
+    );
+  }
+  return toFloatArray(vertices);
+};
@@ -0,0 +1,122 @@
+import { createId } from "./id";
+import type { Point, Stroke, TextBox } from "./types";
+
+export const TEXT_FONT_FAMILY = "-apple-system, BlinkMacSystemFont, sans-serif";
+export const TEXT_LINE_HEIGHT = 1.25;
+export const MIN_FONT_SIZE = 8;
+export const MAX_FONT_SIZE = 96;
+
+// Where each line's baseline sits below the top of the line, as a share of
+// the font size. Canvas, SVG and the editor all place lines from this.
+export const TEXT_BASELINE = 1;
+
+export interface TextLayout {
+  origin: Point;
+  rotation: number;
+  width: number;
+  height: number;
+}
+
+export const textFont = (fontSize: number) => `${fontSize}px ${TEXT_FONT_FAMILY}`;
+
+export const textLines = (text: TextBox) => text.content.split("\n");
+
+let measureContext: CanvasRenderingContext2D | null = null;
+
+// The box a label needs: as wide as its longest line and one line height
+// per line. Empty labels keep a little width so the caret has room.
+export const measureText = (text: TextBox) => {
+  measureContext ??= document.createElement("canvas").getContext("2d");
+  const ctx = measureContext;
+  const lines = textLines(text);
+  let width = 0;
+  if (ctx) {
+    ctx.font = textFont(text.fontSize);
+    lines.forEach((line) => {
+      width = Math.max(width, ctx.measureText(line).width);
+    });
+  }
+  return {
+    width: Math.max(width, text.fontSize / 2),
+    height: lines.length * text.fontSize * TEXT_LINE_HEIGHT,
+  };
+};
+
+// Reads the box back from a text stroke's corners, which the lasso may have
+// moved, scaled or rotated.
+export const textLayout = (stroke: Stroke): TextLayout => {
+  const [origin, right, , bottom] = stroke.points;
+  return {
+    origin,
+    rotation: Math.atan2(right.y - origin.y, right.x - origin.x),
+    width: Math.hypot(right.x - origin.x, right.y - origin.y),
+    height: Math.hypot(bottom.x - origin.x, bottom.y - origin.y),
+  };
+};
+
+// Maps a point given relative to the box's top left corner into the world.
+export const fromTextBox = (layout: TextLayout, x: number, y: number): Point => {
+  const cos = Math.cos(layout.rotation);
+  const sin = Math.sin(layout.rotation);
+  return {
+    x: layout.origin.x + x * cos - y * sin,
+    y: layout.origin.y + x * sin + y * cos,
+  };
+};
+
+const boxCorners = (layout: TextLayout): Point[] => {
+  const { width, height } = layout;
+  const topLeft = fromTextBox(layout, 0, 0);
+  return [
+    topLeft,
+    fromTextBox(layout, width, 0),
+    fromTextBox(layout, width, height),
+    fromTextBox(layout, 0, height),
+    topLeft,
+  ];
+};
+
+export const createTextStroke = (
+  text: TextBox,
+  origin: Point,
+  color: string
+): Stroke => ({
+  id: createId(),
+  points: boxCorners({ origin, rotation: 0, ...measureText(text) }),
+  color,
+  tool: "pen",
+  lineWidth: 0,
+  opacity: 100,
+  text,
+});
+
+// Refits the box to edited text, keeping its top left corner and rotation.
+export const updateTextStroke = (stroke: Stroke, text: TextBox): Stroke => {
+  const { origin, rotation } = textLayout(stroke);
+  return {
+    ...stroke,
+    points: boxCorners({ origin, rotation, ...measureText(text) }),
+    text,
+  };
+};
+
+// Paints the lines with the box's top left corner at the origin. The caller
+// sets the transform, fill style and alpha.
+export const paintText = (
+  ctx: CanvasRenderingContext2D,
+  text: TextBox,
+  width: number
+) => {
+  ctx.font = textFont(text.fontSize);
+  ctx.textAlign = text.align;
+  ctx.textBaseline = "alphabetic";
+  const x =
+    text.align === "left" ? 0 : text.align === "center" ? width / 2 : width;
+  textLines(text).forEach((line, i) =>
+    ctx.fillText(
+      line,
+      x,
+      (i * TEXT_LINE_HEIGHT + TEXT_BASELINE) * text.fontSize
+    )
+  );
+};
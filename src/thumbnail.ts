@@ -0,0 +1,158 @@
+import type { BackgroundImage } from "./background";
+import type { LayerContent } from "./layers";
+import { DEFAULT_PAPER } from "./paper";
+import type { Bounds } from "./selection";
+import { pointWidth, strokeAlpha } from "./stroke";
+import { paintText, textLayout } from "./text";
+import type { Paper, Stroke } from "./types";
+
+const THUMBNAIL_WIDTH = 320;
+const THUMBNAIL_HEIGHT = 240;
+const THUMBNAIL_PADDING = 16;
+
+export const createCanvas = (width: number, height: number) => {
+  const canvas = document.createElement("canvas");
+  canvas.width = width;
+  canvas.height = height;
+  return canvas;
+};
+
+// The area covered by the strokes and the background image, or null when
+// there is nothing to frame.
+export const drawingBounds = (
+  strokes: Stroke[],
+  background: BackgroundImage | null
+): Bounds | null => {
+  let minX = Infinity;
+  let minY = Infinity;
+  let maxX = -Infinity;
+  let maxY = -Infinity;
+  strokes.forEach((stroke) =>
+    stroke.points.forEach((p) => {
+      minX = Math.min(minX, p.x);
+      minY = Math.min(minY, p.y);
+      maxX = Math.max(maxX, p.x);
+      maxY = Math.max(maxY, p.y);
+    })
+  );
+  if (background) {
+    minX = Math.min(minX, background.x);
+    minY = Math.min(minY, background.y);
+    maxX = Math.max(maxX, background.x + background.width);
+    maxY = Math.max(maxY, background.y + background.height);
+  }
+  return minX === Infinity ? null : { minX, minY, maxX, maxY };
+};
+
+// Paints the layers onto `canvas` with `bounds` fitted inside `padding` and
+// centered, never enlarged. This works from the stroke model rather than the
+// WebGL canvas. Each layer is drawn on `layerCanvas`, the same size, first
+// and composited like the renderer does, over the background image if there
+// is one. The paper only contributes its color; its pattern would be lost
+// at small sizes.
+export const paintDrawing = (
+  canvas: HTMLCanvasElement,
+  layerCanvas: HTMLCanvasElement,
+  layers: LayerContent[],
+  background: BackgroundImage | null,
+  paper: Paper,
+  bounds: Bounds | null,
+  padding: number
+) => {
+  const ctx = canvas.getContext("2d");
+  const layerCtx = layerCanvas.getContext("2d");
+  if (!ctx || !layerCtx) return;
+  const { width, height } = canvas;
+
+  ctx.globalAlpha = 1;
+  ctx.globalCompositeOperation = "source-over";
+  ctx.fillStyle = paper.color;
+  ctx.fillRect(0, 0, width, height);
+  if (!bounds) return;
+
+  const { minX, minY, maxX, maxY } = bounds;
+  const scale = Math.min(
+    (width - padding * 2) / Math.max(1, maxX - minX),
+    (height - padding * 2) / Math.max(1, maxY - minY),
+    1
+  );
+  const offsetX = (width - (maxX - minX) * scale) / 2;
+  const offsetY = (height - (maxY - minY) * scale) / 2;
+
+  if (background) {
+    ctx.drawImage(
+      background.image,
+      (background.x - minX) * scale + offsetX,
+      (background.y - minY) * scale + offsetY,
+      background.width * scale,
+      background.height * scale
+    );
+  }
+
+  layerCtx.lineCap = "round";
+  layerCtx.lineJoin = "round";
+
+  layers.forEach(({ layer, strokes }) => {
+    layerCtx.clearRect(0, 0, width, height);
+    strokes.forEach((stroke) => {
+      layerCtx.strokeStyle = stroke.color;
+      layerCtx.globalAlpha = strokeAlpha(stroke, window.devicePixelRatio || 1);
+
+      if (stroke.text) {
+        const { origin, rotation, width: textWidth } = textLayout(stroke);
+        layerCtx.save();
+        layerCtx.translate(
+          (origin.x - minX) * scale + offsetX,
+          (origin.y - minY) * scale + offsetY
+        );
+        layerCtx.scale(scale, scale);
+        layerCtx.rotate(rotation);
+        layerCtx.fillStyle = stroke.color;
+        paintText(layerCtx, stroke.text, textWidth);
+        layerCtx.restore();
+        return;
+      }
+
+      for (let i = 0; i < stroke.points.length; i++) {
+        const from = stroke.points[Math.max(0, i - 1)];
+        const to = stroke.points[i];
+        layerCtx.lineWidth = Math.max(1, pointWidth(to, stroke.lineWidth) * scale);
+        layerCtx.beginPath();
+        layerCtx.moveTo((from.x - minX) * scale + offsetX, (from.y - minY) * scale + offsetY);
+        layerCtx.lineTo((to.x - minX) * scale + offsetX, (to.y - minY) * scale + offsetY);
+        layerCtx.stroke();
+      }
+    });
+
+    ctx.globalAlpha = layer.opacity / 100;
+    ctx.globalCompositeOperation =
+      layer.blendMode === "normal" ? "source-over" : layer.blendMode;
+    ctx.drawImage(layerCanvas, 0, 0);
+  });
+  ctx.globalAlpha = 1;
+  ctx.globalCompositeOperation = "source-over";
+};
+
+// Renders the visible layers into a small JPEG data URL, scaled to fit the
+// drawing's bounds, so it is always in sync with what was saved.
+export const renderThumbnail = (
+  layers: LayerContent[],
+  background: BackgroundImage | null = null,
+  paper: Paper = DEFAULT_PAPER
+): string | null => {
+  const canvas = createCanvas(THUMBNAIL_WIDTH, THUMBNAIL_HEIGHT);
+  if (!canvas.getContext("2d")) return null;
+  paintDrawing(
+    canvas,
+    createCanvas(THUMBNAIL_WIDTH, THUMBNAIL_HEIGHT),
+    layers,
+    background,
+    paper,
+    drawingBounds(
+      layers.flatMap((content) => content.strokes),
+      background
+    ),
+    THUMBNAIL_PADDING
+  );
+  return canvas.toDataURL("image/jpeg", 0.7);
+};
@@ -0,0 +1,158 @@
+import type { BackgroundImage } from "./background";
+import { createGifEncoder } from "./gif";
+import { visibleLayerContents } from "./layers";
+import {
+  createReplayCursor,
+  replayStrokes,
+  type Replay,
+  type ReplayFrame,
+} from "./replay";
+import type { Bounds } from "./selection";
+import { createCanvas, drawingBounds, paintDrawing } from "./thumbnail";
+import type { Paper } from "./types";
+
+export type TimelapseFormat = "webm" | "gif";
+
+const TIMELAPSE_PADDING = 20;
+// GIFs are kept smaller and choppier, since they are encoded in the page.
+const MAX_SIZE: Record<TimelapseFormat, number> = { webm: 1280, gif: 640 };
+const FRAME_RATE: Record<TimelapseFormat, number> = { webm: 30, gif: 12 };
+const WEBM_TYPES = [
+  "video/webm;codecs=vp9",
+  "video/webm;codecs=vp8",
+  "video/webm",
+];
+const WEBM_BITRATE = 4_000_000;
+
+const frameLayers = ({ strokes, layers, partial }: ReplayFrame) =>
+  visibleLayerContents(layers, partial ? [...strokes, partial] : strokes);
+
+// Video codecs want even dimensions.
+const evenSize = (size: number) => Math.max(2, Math.round(size / 2) * 2);
+
+// Frames the whole replay, including strokes erased along the way, at its
+// actual size unless that is too large.
+const timelapseSize = (
+  bounds: Bounds | null,
+  maxSize: number
+): { width: number; height: number } => {
+  if (!bounds) return { width: 320, height: 240 };
+  const width = bounds.maxX - bounds.minX + TIMELAPSE_PADDING * 2;
+  const height = bounds.maxY - bounds.minY + TIMELAPSE_PADDING * 2;
+  const scale = Math.min(1, maxSize / Math.max(width, height));
+  return { width: evenSize(width * scale), height: evenSize(height * scale) };
+};
+
+const wait = (ms: number) =>
+  new Promise((resolve) => setTimeout(resolve, Math.max(0, ms)));
+
+// MediaRecorder timestamps frames as they are captured, so the replay is
+// painted in real time and recording takes as long as the video lasts.
+const recordWebm = async (
+  canvas: HTMLCanvasElement,
+  frameCount: number,
+  frameRate: number,
+  paint: (frame: number) => void,
+  onProgress: (progress: number) => void
+): Promise<Blob> => {
+  const mimeType =
+    typeof MediaRecorder === "undefined"
+      ? undefined
+      : WEBM_TYPES.find((type) => MediaRecorder.isTypeSupported(type));
+  if (!mimeType || !canvas.captureStream) {
+    throw new Error("This browser can't record WebM video.");
+  }
+
+  const stream = canvas.captureStream(frameRate);
+  const recorder = new MediaRecorder(stream, {
+    mimeType,
+    videoBitsPerSecond: WEBM_BITRATE,
+  });
+  const chunks: Blob[] = [];
+  recorder.ondataavailable = (e) => {
+    if (e.data.size > 0) chunks.push(e.data);
+  };
+  const stopped = new Promise((resolve) => {
+    recorder.onstop = resolve;
+  });
+
+  paint(0);
+  recorder.start();
+  const start = performance.now();
+  for (let frame = 1; frame < frameCount; frame++) {
+    await wait(start + (frame * 1000) / frameRate - performance.now());
+    paint(frame);
+    onProgress(frame / frameCount);
+  }
+  await wait(1000 / frameRate);
+  recorder.stop();
+  await stopped;
+  stream.getTracks().forEach((track) => track.stop());
+  return new Blob(chunks, { type: "video/webm" });
+};
+
+// GIF frames are painted and encoded one after another as fast as they go,
+// yielding now and then so the progress shows.
+const encodeGif = async (
+  canvas: HTMLCanvasElement,
+  frameCount: number,
+  frameRate: number,
+  paint: (frame: number) => void,
+  onProgress: (progress: number) => void
+): Promise<Blob> => {
+  const ctx = canvas.getContext("2d", { willReadFrequently: true });
+  if (!ctx) throw new Error("2D canvas not supported");
+  const { width, height } = canvas;
+  const pixels = () => ctx.getImageData(0, 0, width, height).data;
+
+  // The finished drawing has most of the colors the animation needs.
+  paint(frameCount - 1);
+  const encoder = createGifEncoder(width, height, pixels());
+  for (let frame = 0; frame < frameCount; frame++) {
+    paint(frame);
+    encoder.addFrame(pixels(), 1000 / frameRate);
+    if (frame % 10 === 0) {
+      onProgress(frame / frameCount);
+      await wait(0);
+    }
+  }
+  return encoder.finish();
+};
+
+// Renders the replay as a video of the drawing being made, played at
+// `speed`, framed on everything it draws.
+export const exportTimelapse = async (
+  replay: Replay,
+  format: TimelapseFormat,
+  speed: number,
+  background: BackgroundImage | null,
+  paper: Paper,
+  onProgress: (progress: number) => void
+): Promise<Blob> => {
+  const bounds = drawingBounds(replayStrokes(replay), background);
+  const { width, height } = timelapseSize(bounds, MAX_SIZE[format]);
+  const canvas = createCanvas(width, height);
+  const layerCanvas = createCanvas(width, height);
+  const cursor = createReplayCursor(replay);
+  const frameRate = FRAME_RATE[format];
+  const frameInterval = (1000 / frameRate) * speed;
+  const frameCount = Math.ceil(replay.duration / frameInterval) + 1;
+
+  const paint = (frame: number) =>
+    paintDrawing(
+      canvas,
+      layerCanvas,
+      frameLayers(
+        cursor.seek(Math.min(replay.duration, frame * frameInterval))
+      ),
+      background,
+      paper,
+      bounds,
+      TIMELAPSE_PADDING
+    );
+
+  const record = format === "webm" ? recordWebm : encodeGif;
+  const blob = await record(canvas, frameCount, frameRate, paint, onProgress);
+  onProgress(1);
+  return blob;
+};
@@ -0,0 +1,188 @@
+export interface Point {
+  x: number;
+  y: number;
+  pressure?: number;
+  tiltX?: number;
+  tiltY?: number;
+  timestamp?: number;
+}
+
+export type InkTool = "pen" | "highlighter";
+
+export type ShapeKind = "line" | "rectangle" | "ellipse" | "arrow";
+
+export type Tool = InkTool | ShapeKind | "eraser" | "lasso" | "text";
+
+export type EraserMode = "stroke" | "partial";
+
+// The control points that define a shape exactly: the two ends of a line or
+// arrow, a rectangle's four corners, or an ellipse's center followed by the
+// ends of two conjugate semi-axes. All of them stay exact under the affine
+// transforms the lasso applies.
+export interface Shape {
+  kind: ShapeKind;
+  points: Point[];
+}
+
+export type TextAlign = "left" | "center" | "right";
+
+export interface TextBox {
+  content: string;
+  fontSize: number;
+  align: TextAlign;
+}
+
+// A shape stroke's points are its outline, sampled for drawing, hit testing
+// and erasing; `shape` keeps the clean geometry for editing and export.
+// A text stroke's points are the corners of its box, starting and ending at
+// the top left, and it is drawn as the typed `text` instead of as ink.
+export interface Stroke {
+  id: string;
+  points: Point[];
+  color: string;
+  tool: InkTool;
+  lineWidth: number;
+  opacity: number;
+  shape?: Shape;
+  text?: TextBox;
+  // Strokes drawn before layers existed have no layer and sit on the base
+  // layer.
+  layerId?: string;
+}
+
+export type BlendMode = "normal" | "multiply" | "screen";
+
+// Layers are listed bottom to top. Opacity is a percentage.
+export interface Layer {
+  id: string;
+  name: string;
+  visible: boolean;
+  locked: boolean;
+  opacity: number;
+  blendMode: BlendMode;
+}
+
+// Replaces the whole layer list. Swapping `before` and `after` gives the
+// inverse change.
+export interface LayerChange {
+  before: Layer[];
+  after: Layer[];
+}
+
+// Replaces the `before.length` strokes starting at `index` with `after`.
+// Swapping `before` and `after` gives the inverse change.
+export interface StrokeChange {
+  index: number;
+  before: Stroke[];
+  after: Stroke[];
+}
+
+export type CommandType =
+  | "add"
+  | "erase"
+  | "transform"
+  | "property"
+  | "clear"
+  | "layer"
+  | "restore"
+  | "convert";
+
+// One undoable step. The type only labels the edit; the changes carry
+// everything needed to redo and undo it.
+export interface Command {
+  type: CommandType;
+  changes: StrokeChange[];
+  layers?: LayerChange;
+}
+
+export interface DrawingSummary {
+  id: string;
+  title: string;
+  lastModified: number;
+  thumbnail: string | null;
+  // Typed and recognized text, for search. Drawings not edited since search
+  // was added have none yet.
+  searchText?: string;
+}
+
+// Text recognized from handwriting that was kept as ink.
+export interface RecognizedText {
+  strokeIds: string[];
+  text: string;
+}
+
+export type PaperPattern = "plain" | "grid" | "dots" | "ruled" | "isometric";
+
+// The page under everything, drawn from these settings rather than stored
+// as an image. Spacing is in world units.
+export interface Paper {
+  pattern: PaperPattern;
+  spacing: number;
+  color: string;
+  lineColor: string;
+}
+
+// An image or rendered PDF page the drawing sits on, placed in world units.
+// It is locked: the tools never touch it, and it stays out of the history.
+export interface Background {
+  blob: Blob;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface StoredDrawing extends DrawingSummary {
+  version: number;
+  history: Command[];
+  historyIndex: number;
+  background?: Background;
+  paper?: Paper;
+  recognizedText?: RecognizedText[];
+}
+
+// A saved version of a drawing to go back to. The background is left out,
+// since it isn't part of the history and would make every version as large
+// as the image.
+export interface SnapshotSummary {
+  id: string;
+  createdAt: number;
+  thumbnail: string | null;
+}
+
+export interface StoredSnapshot extends SnapshotSummary {
+  version: number;
+  history: Command[];
+  historyIndex: number;
+}
+
+export interface Palette {
+  id: string;
+  name: string;
+  colors: string[];
+}
+
+// Tool settings and layout restored on startup. A null toolbar position is
+// the default spot, centered at the bottom.
+export interface Preferences {
+  tool: Tool;
+  color: string;
+  size: number;
+  penOpacity: number;
+  highlighterOpacity: number;
+  eraserMode: EraserMode;
+  stabilizer: number;
+  toolbarPosition: { x: number; y: number } | null;
+  // Holding still at the end of a freehand stroke replaces it with the line,
+  // rectangle or ellipse it resembles.
+  snapShapes: boolean;
+  textSize: number;
+  textAlign: TextAlign;
+  // Remapped keyboard shortcuts by action id; unlisted actions keep their
+  // defaults.
+  shortcuts: Record<string, string[]>;
+  // Shown to the other peers in a shared session.
+  sessionName: string;
+  // Empty for the relay next to the dev server.
+  relayUrl: string;
+}
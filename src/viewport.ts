@@ -0,0 +1,104 @@
+import type { Point, Stroke } from "./types";
+
+// Maps world coordinates (CSS pixels at zoom 1) to the screen:
+// screen = world * zoom + (x, y).
+export interface View {
+  x: number;
+  y: number;
+  zoom: number;
+}
+
+export const DEFAULT_VIEW: View = { x: 0, y: 0, zoom: 1 };
+
+const MIN_ZOOM = 0.1;
+const MAX_ZOOM = 10;
+const FIT_PADDING = 40;
+
+const clampZoom = (zoom: number) =>
+  Math.min(MAX_ZOOM, Math.max(MIN_ZOOM, zoom));
+
+export const screenToWorld = (view: View, x: number, y: number) => ({
+  x: (x - view.x) / view.zoom,
+  y: (y - view.y) / view.zoom,
+});
+
+// Scales the view by `factor` while keeping the world point under the screen
+// position (x, y) in place.
+export const zoomAt = (view: View, x: number, y: number, factor: number): View => {
+  const zoom = clampZoom(view.zoom * factor);
+  const world = screenToWorld(view, x, y);
+  return { x: x - world.x * zoom, y: y - world.y * zoom, zoom };
+};
+
+export interface GestureStart {
+  view: View;
+  midpoint: { x: number; y: number };
+  distance: number | null;
+}
+
+const midpointOf = (points: Point[]) => ({
+  x: points.reduce((sum, p) => sum + p.x, 0) / points.length,
+  y: points.reduce((sum, p) => sum + p.y, 0) / points.length,
+});
+
+// Only the first two touches take part: one finger pans, two fingers pan
+// and pinch. Restart the gesture whenever a finger lands or lifts.
+export const getGestureStart = (view: View, points: Point[]): GestureStart => {
+  const [a, b] = points;
+  return {
+    view,
+    midpoint: midpointOf(points.slice(0, 2)),
+    distance: b ? Math.max(1, Math.hypot(b.x - a.x, b.y - a.y)) : null,
+  };
+};
+
+// The world point under the starting midpoint follows the fingers' current
+// midpoint.
+export const gestureView = (start: GestureStart, points: Point[]): View => {
+  const [a, b] = points;
+  const zoom =
+    b && start.distance
+      ? clampZoom(
+          (start.view.zoom * Math.hypot(b.x - a.x, b.y - a.y)) / start.distance
+        )
+      : start.view.zoom;
+  const world = screenToWorld(start.view, start.midpoint.x, start.midpoint.y);
+  const midpoint = midpointOf(points.slice(0, 2));
+  return {
+    x: midpoint.x - world.x * zoom,
+    y: midpoint.y - world.y * zoom,
+    zoom,
+  };
+};
+
+export const fitView = (
+  strokes: Stroke[],
+  width: number,
+  height: number
+): View => {
+  let minX = Infinity;
+  let minY = Infinity;
+  let maxX = -Infinity;
+  let maxY = -Infinity;
+  strokes.forEach((stroke) =>
+    stroke.points.forEach((point) => {
+      minX = Math.min(minX, point.x - stroke.lineWidth);
+      minY = Math.min(minY, point.y - stroke.lineWidth);
+      maxX = Math.max(maxX, point.x + stroke.lineWidth);
+      maxY = Math.max(maxY, point.y + stroke.lineWidth);
+    })
+  );
+  if (minX === Infinity) return DEFAULT_VIEW;
+
+  const zoom = clampZoom(
+    Math.min(
+      (width - FIT_PADDING * 2) / Math.max(1, maxX - minX),
+      (height - FIT_PADDING * 2) / Math.max(1, maxY - minY)
+    )
+  );
+  return {
+    x: width / 2 - ((minX + maxX) / 2) * zoom,
+    y: height / 2 - ((minY + maxY) / 2) * zoom,
+    zoom,
+  };
+};
@@ -1 +1,6 @@
 /// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  // Where shared sessions connect when the relay isn't on the page's host.
+  readonly VITE_RELAY_URL?: string;
+}
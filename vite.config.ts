@@ -1,8 +1,98 @@
-import { defineConfig } from "vite";
+import { defineConfig, type Plugin } from "vite";
 import react from "@vitejs/plugin-react";
 
+// Files copied from public/ that the installed app needs offline.
+const PUBLIC_FILES = [
+  "manifest.webmanifest",
+  "icon-192.png",
+  "icon-512.png",
+  "apple-touch-icon.png",
+];
+
+// FNV-1a, enough to tell builds apart.
+const hash = (value: string) => {
+  let result = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    result ^= value.charCodeAt(i);
+    result = Math.imul(result, 0x01000193);
+  }
+  return (result >>> 0).toString(36);
+};
+
+// Serves every request for a precached file from the cache, so the app
+// starts without a network. Navigations fall back to the cached page.
+const serviceWorkerSource = (cacheName: string, files: string[]) => `
+const CACHE_NAME = ${JSON.stringify(cacheName)};
+const PRECACHE = ${JSON.stringify(files)};
+
+self.addEventListener("install", (event) => {
+  event.waitUntil(
+    caches
+      .open(CACHE_NAME)
+      .then((cache) => cache.addAll(PRECACHE))
+      .then(() => self.skipWaiting())
+  );
+});
+
+self.addEventListener("activate", (event) => {
+  event.waitUntil(
+    caches
+      .keys()
+      .then((keys) =>
+        Promise.all(
+          keys
+            .filter((key) => key !== CACHE_NAME)
+            .map((key) => caches.delete(key))
+        )
+      )
+      .then(() => self.clients.claim())
+  );
+});
+
+self.addEventListener("fetch", (event) => {
+  const { request } = event;
+  if (request.method !== "GET") return;
+  if (new URL(request.url).origin !== self.location.origin) return;
+  event.respondWith(
+    caches
+      .match(request, { ignoreSearch: true })
+      .then(
+        (cached) =>
+          cached ??
+          fetch(request).catch((error) => {
+            if (request.mode === "navigate") return caches.match("./");
+            throw error;
+          })
+      )
+  );
+});
+`;
+
+// Emits sw.js listing the build's output. Hashed file names change with
+// their content, so the cache name changes whenever anything does and old
+// caches are dropped on activation.
+const serviceWorker = (): Plugin => ({
+  name: "doodle-service-worker",
+  apply: "build",
+  generateBundle(_options, bundle) {
+    const files = [
+      "./",
+      "./index.html",
+      ...Object.keys(bundle)
+        .filter((file) => file !== "index.html" && !file.endsWith(".map"))
+        .map((file) => `./${file}`),
+      ...PUBLIC_FILES.map((file) => `./${file}`),
+    ];
+    this.emitFile({
+      type: "asset",
+      fileName: "sw.js",
+      source: serviceWorkerSource(`doodle-${hash(files.join("\n"))}`, files),
+    });
+  },
+});
+
 // https://vite.dev/config/
 export default defineConfig({
   base: "./",
-  plugins: [react()],
+  plugins: [react(), serviceWorker()],
 });